@@ -21,6 +21,8 @@ import UpdateZephyr from "./pages/UpdateZephyr";
 import UpdateSolstice from "./pages/UpdateSolstice"; 
 import UpdateNova from "./pages/UpdateNova"; 
 import PoseLab from "./pages/PoseLab";
+import PathPlanner from "./pages/PathPlanner";
+import RobotPage from "./pages/RobotPage";
 
 function Router() {
   return (
@@ -33,6 +35,9 @@ function Router() {
       <Route path={"/fonts"} component={Fonts} />
       <Route path={"/model"} component={Model} />
       <Route path={"/fetch"} component={FetchDemo} />
+      <Route path={"/pose-lab"} component={PoseLab} />
+      <Route path={"/planner"} component={PathPlanner} />
+      <Route path={"/robots/:id"} component={RobotPage} />
       <Route path={"/updates/aurora"} component={UpdateAurora} />
       <Route path={"/updates/zephyr"} component={UpdateZephyr} /> 
       <Route path={"/updates/solstice"} component={UpdateSolstice} /> 
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import type { CameraBookmark, CameraController } from "@/lib/cameraController";
+
+/**
+ * Bookmark buttons, an optional "focus on link" picker and an orbit tour
+ * toggle for a CameraRig's controller. Lives outside the <Canvas>.
+ */
+export default function CameraBookmarkBar({
+  controllerRef,
+  bookmarks,
+  links,
+  className = "",
+}: {
+  controllerRef: React.MutableRefObject<CameraController | null>;
+  bookmarks: CameraBookmark[];
+  /** Link names offered for link-focused framing */
+  links?: string[];
+  className?: string;
+}) {
+  const [active, setActive] = useState<string | null>(null);
+  const [focusLink, setFocusLink] = useState("");
+  const [touring, setTouring] = useState(false);
+
+  useEffect(() => () => controllerRef.current?.stopTour(), [controllerRef]);
+
+  const go = (bookmark: CameraBookmark) => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    controller.stopTour();
+    setActive(bookmark.name);
+    // A drag mid-flight means the view no longer matches the bookmark
+    controller.goTo(bookmark).then((arrived) => {
+      if (!arrived) setActive((name) => (name === bookmark.name ? null : name));
+    });
+  };
+
+  const toggleTour = () => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    if (controller.touring) {
+      controller.stopTour();
+      return;
+    }
+    setActive(null);
+    setTouring(true);
+    controller.startTour({ stops: bookmarks, onEnd: () => setTouring(false) });
+  };
+
+  const chip = (on: boolean) =>
+    `px-3 py-2 rounded shadow text-sm border border-border ${on ? "bg-foreground text-background" : "bg-white"}`;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {bookmarks.map((b) => (
+        <button key={b.name} className={chip(active === b.name)} onClick={() => go(b)}>
+          {b.name}
+        </button>
+      ))}
+      {links && links.length > 0 && (
+        <select
+          value={focusLink}
+          onChange={(e) => {
+            setFocusLink(e.target.value);
+            if (e.target.value) go({ name: `link:${e.target.value}`, kind: "link", link: e.target.value, direction: [1, 0.6, 1] });
+          }}
+          className="px-2 py-1 rounded border border-border bg-white text-sm"
+        >
+          <option value="">Focus on link…</option>
+          {links.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      )}
+      <button className={chip(touring)} onClick={toggleTour}>
+        {touring ? "Stop tour" : "Auto tour"}
+      </button>
+    </div>
+  );
+}
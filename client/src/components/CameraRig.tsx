@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import type * as THREE from "three";
+import { CameraController, type OrbitControlsLike } from "@/lib/cameraController";
+
+/**
+ * Mount inside a <Canvas> whose OrbitControls use `makeDefault`: creates a
+ * CameraController for the canvas camera, steps it every frame and exposes
+ * it through `controllerRef`.
+ */
+export default function CameraRig({
+  controllerRef,
+  subject,
+}: {
+  controllerRef: React.MutableRefObject<CameraController | null>;
+  /** What fit and link bookmarks frame; defaults to the whole scene */
+  subject?: THREE.Object3D | null;
+}) {
+  const camera = useThree((s) => s.camera);
+  const controls = useThree((s) => s.controls) as unknown as OrbitControlsLike | null;
+  const scene = useThree((s) => s.scene);
+
+  useEffect(() => {
+    const controller = new CameraController(camera, controls);
+    controllerRef.current = controller;
+    return () => {
+      controller.dispose();
+      if (controllerRef.current === controller) controllerRef.current = null;
+    };
+  }, [camera, controls, controllerRef]);
+
+  useEffect(() => {
+    if (controllerRef.current) controllerRef.current.subject = subject ?? scene;
+  }, [subject, scene, controls, controllerRef]);
+
+  useFrame(({ clock }) => controllerRef.current?.update(clock.elapsedTime));
+
+  return null;
+}
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import JointPlots from "@/components/JointPlots";
+import {
+  EASINGS,
+  clipDuration,
+  clipTime,
+  parseClip,
+  sampleClip,
+  serializeClip,
+  sortFrames,
+  type Clip,
+  type Easing,
+  type Interpolation,
+} from "@/lib/clips";
+import { downloadBlob } from "@/lib/sceneExport";
+import { clipTrajectory } from "@/lib/trajectory";
+import type { JointValues, UrdfJointInfo } from "@/lib/urdf";
+
+// Keyframes closer than this are treated as the same slot when capturing
+const SAME_TIME_EPS = 1e-3;
+// Pointer travel before a press on a keyframe becomes a drag rather than a click
+const DRAG_THRESHOLD_PX = 4;
+
+const roundTime = (t: number) => Math.round(t * 100) / 100;
+
+/**
+ * In-browser authoring for robot Clips: scrub, capture the current pose as a
+ * keyframe, drag keyframes along the timeline, preview, and round-trip the
+ * clip as JSON in the same shape FetchHeroViewer plays. Given the robot's
+ * joints, the clip is also plotted against the playhead.
+ */
+export default function ClipTimelineEditor({
+  currentPose,
+  onPose,
+  initialClip,
+  joints,
+  onClipChange,
+}: {
+  /** Pose captured by "Add keyframe" */
+  currentPose: JointValues;
+  /** Called while scrubbing/previewing with the sampled pose */
+  onPose: (values: JointValues) => void;
+  initialClip?: Clip;
+  /** Enables the position/velocity/acceleration plots */
+  joints?: UrdfJointInfo[];
+  /** Called with the clip after every edit, e.g. for exporting it as video */
+  onClipChange?: (clip: Clip) => void;
+}) {
+  const [clip, setClip] = useState<Clip>(
+    initialClip ?? { name: "new-clip", loop: false, interpolation: "hermite", frames: [] }
+  );
+  const [length, setLength] = useState(() => Math.max(5, initialClip ? clipDuration(initialClip) : 0));
+  const [playhead, setPlayhead] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  // Keyframe under the pointer; `dragging` once it has moved past the threshold
+  const dragRef = useRef<{ index: number; startX: number; dragging: boolean } | null>(null);
+
+  const timelineLength = Math.max(length, clipDuration(clip));
+  const sampled = useMemo(() => (clipDuration(clip) > 0 ? clipTrajectory(clip) : null), [clip]);
+
+  // Keep the latest clip/callback for the rAF loop without restarting it
+  const clipRef = useRef(clip);
+  clipRef.current = clip;
+  const onPoseRef = useRef(onPose);
+  onPoseRef.current = onPose;
+  const onClipChangeRef = useRef(onClipChange);
+  onClipChangeRef.current = onClipChange;
+
+  useEffect(() => onClipChangeRef.current?.(clip), [clip]);
+
+  const seek = (t: number) => {
+    const clamped = Math.min(Math.max(0, t), timelineLength);
+    setPlayhead(clamped);
+    if (clip.frames.length) onPose(sampleClip(clip, clamped));
+  };
+
+  useEffect(() => {
+    if (!playing) return;
+    const duration = clipDuration(clipRef.current);
+    if (clipRef.current.frames.length < 2 || duration <= 0) {
+      setPlaying(false);
+      return;
+    }
+    let raf = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      const current = clipRef.current;
+      const elapsed = (now - start) / 1000;
+      const t = clipTime(current, elapsed);
+      setPlayhead(t);
+      onPoseRef.current(sampleClip(current, t));
+      if (!current.loop && elapsed >= clipDuration(current)) {
+        setPlaying(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing]);
+
+  const captureKeyframe = () => {
+    const time = roundTime(playhead);
+    const frames = sortFrames([
+      ...clip.frames.filter((f) => Math.abs(f.time - time) > SAME_TIME_EPS),
+      { time, joints: { ...currentPose } },
+    ]);
+    setClip({ ...clip, frames });
+    setSelected(frames.findIndex((f) => f.time === time));
+  };
+
+  const moveKeyframe = (index: number, time: number) => {
+    // Read through the ref: pointermove can fire several times per render
+    const current = clipRef.current;
+    const moved = { ...current.frames[index], time: roundTime(Math.max(0, time)) };
+    const frames = sortFrames(current.frames.map((f, i) => (i === index ? moved : f)));
+    const nextIndex = frames.indexOf(moved);
+    clipRef.current = { ...current, frames };
+    setClip(clipRef.current);
+    setSelected(nextIndex);
+    if (dragRef.current) dragRef.current.index = nextIndex;
+  };
+
+  const setEasing = (index: number, easing: Easing) => {
+    setClip((prev) => ({
+      ...prev,
+      frames: prev.frames.map((f, i) => (i === index ? { ...f, easing } : f)),
+    }));
+  };
+
+  const deleteKeyframe = () => {
+    if (selected === null) return;
+    setClip((prev) => ({ ...prev, frames: prev.frames.filter((_, i) => i !== selected) }));
+    setSelected(null);
+  };
+
+  const timeFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return ((clientX - rect.left) / rect.width) * timelineLength;
+  };
+
+  const exportClip = () => {
+    const blob = new Blob([serializeClip(clip)], { type: "application/json" });
+    downloadBlob(blob, `${clip.name || "clip"}.json`);
+  };
+
+  const importClip = async (file: File) => {
+    try {
+      const imported = parseClip(await file.text());
+      setClip(imported);
+      setLength(Math.max(5, clipDuration(imported)));
+      setSelected(null);
+      setPlayhead(0);
+      onPose(sampleClip(imported, 0));
+      toast.success(`Loaded clip "${imported.name}" (${imported.frames.length} keyframes)`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not import clip");
+    }
+  };
+
+  const selectedFrame = selected !== null ? clip.frames[selected] : undefined;
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Name
+          <input
+            value={clip.name}
+            onChange={(e) => setClip((prev) => ({ ...prev, name: e.target.value }))}
+            className="px-2 py-1 rounded border border-border bg-white"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Length (s)
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={length}
+            onChange={(e) => setLength(Math.max(0.5, parseFloat(e.target.value) || 0.5))}
+            className="w-20 px-2 py-1 rounded border border-border bg-white"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!clip.loop}
+            onChange={(e) => setClip((prev) => ({ ...prev, loop: e.target.checked }))}
+          />
+          Loop
+        </label>
+        <label className="flex items-center gap-2">
+          Interpolation
+          <select
+            value={clip.interpolation ?? "linear"}
+            onChange={(e) => setClip((prev) => ({ ...prev, interpolation: e.target.value as Interpolation }))}
+            className="px-2 py-1 rounded border border-border bg-white"
+          >
+            <option value="hermite">Smooth (Catmull-Rom)</option>
+            <option value="linear">Linear</option>
+          </select>
+        </label>
+      </div>
+
+      <div
+        ref={trackRef}
+        className="relative h-12 rounded border border-border bg-white select-none touch-none cursor-pointer"
+        onPointerDown={(e) => {
+          if (e.target === e.currentTarget) seek(timeFromPointer(e.clientX));
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          if (!drag) return;
+          if (!drag.dragging) {
+            if (Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD_PX) return;
+            // Capture only now: capturing on press would retarget the click away from the keyframe
+            drag.dragging = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+          }
+          moveKeyframe(drag.index, timeFromPointer(e.clientX));
+        }}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+        onPointerLeave={() => {
+          dragRef.current = null;
+        }}
+      >
+        <div
+          className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+          style={{ left: `${(playhead / timelineLength) * 100}%` }}
+        />
+        {clip.frames.map((f, i) => (
+          <button
+            key={`${i}-${f.time}`}
+            title={`${f.time.toFixed(2)} s`}
+            className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 size-3 rotate-45 border ${
+              i === selected ? "bg-foreground border-foreground" : "bg-white border-foreground/60"
+            }`}
+            style={{ left: `${(f.time / timelineLength) * 100}%` }}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              setSelected(i);
+              dragRef.current = { index: i, startX: e.clientX, dragging: false };
+            }}
+            onClick={() => seek(f.time)}
+          />
+        ))}
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={timelineLength}
+        step={0.01}
+        value={playhead}
+        onChange={(e) => seek(parseFloat(e.target.value))}
+        className="w-full"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm tabular-nums w-20">{playhead.toFixed(2)} s</span>
+        <button className={button} onClick={() => setPlaying((p) => !p)} disabled={clip.frames.length < 2}>
+          {playing ? "Pause" : "Preview"}
+        </button>
+        <button className={button} onClick={captureKeyframe}>
+          Add keyframe
+        </button>
+        <button className={button} onClick={deleteKeyframe} disabled={selected === null}>
+          Delete keyframe
+        </button>
+        {selectedFrame && (
+          <label className="flex items-center gap-2 text-sm">
+            Keyframe time
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              value={selectedFrame.time}
+              onChange={(e) => moveKeyframe(selected!, parseFloat(e.target.value) || 0)}
+              className="w-20 px-2 py-1 rounded border border-border bg-white"
+            />
+          </label>
+        )}
+        {selectedFrame && (
+          <label className="flex items-center gap-2 text-sm">
+            Easing
+            <select
+              value={selectedFrame.easing ?? "linear"}
+              onChange={(e) => setEasing(selected!, e.target.value as Easing)}
+              className="px-2 py-1 rounded border border-border bg-white"
+            >
+              {EASINGS.map((easing) => (
+                <option key={easing} value={easing}>
+                  {easing}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <span className="flex-1" />
+        <button className={button} onClick={exportClip} disabled={clip.frames.length === 0}>
+          Export JSON
+        </button>
+        <button className={button} onClick={() => fileRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importClip(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {clip.frames.length} keyframe{clip.frames.length === 1 ? "" : "s"}. Pose the robot with the sliders, move the
+        playhead, then add a keyframe; drag diamonds to retime them.
+      </p>
+      {joints && sampled && (
+        <JointPlots
+          traj={sampled}
+          joints={joints}
+          playhead={Math.min(playhead, clipDuration(clip))}
+          onSeek={(t) => {
+            setPlaying(false);
+            seek(t);
+          }}
+        />
+      )}
+    </div>
+  );
+}
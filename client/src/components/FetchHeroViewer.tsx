@@ -1,227 +1,168 @@
-import { useEffect, useMemo, useRef } from "react"; 
+import { useEffect, useMemo, useRef, useState } from "react"; 
 import * as THREE from "three"; 
-import { Canvas, useFrame, useThree } from "@react-three/fiber"; 
+import { Canvas, useFrame } from "@react-three/fiber"; 
 import { OrbitControls, Environment, ContactShadows } from "@react-three/drei"; 
-import URDFLoader from "urdf-loader"; 
+import type { URDFRobot } from "urdf-loader"; 
+import CameraRig from "@/components/CameraRig";
+import UrdfRobot from "@/components/UrdfRobot";
+import type { CameraController, CameraView } from "@/lib/cameraController";
+import { ClipPlayer } from "@/lib/clipPlayer";
+import type { Clip } from "@/lib/clips";
+import type { CameraMove } from "@/lib/heroIntro";
+import type { LoadProgress } from "@/lib/loadProgress";
+import { dampTowards, solveLookAt, type DampedValue } from "@/lib/lookAt";
+import { getRobot, resolveRobotAssets } from "@/lib/robots";
+import { getJointValue, readJointValues, type JointValues, type UrdfJointInfo, type UrdfPackages } from "@/lib/urdf";
 
-type Keyframe = { time: number; joints: Record<string, number> };
-type Clip = { name: string; loop?: boolean; frames: Keyframe[] };
+const fetchRobot = getRobot("fetch")!;
+const headUnit = fetchRobot.lookAt!;
 
-const baseUrl = (() => {
-  const b = (import.meta as any).env?.BASE_URL || "/";
-  return b.endsWith("/") ? b : `${b}/`;
-})();
-const resolvePublic = (p: string) => `${baseUrl}${p.replace(/^\/+/, "")}`;
+/**
+ * Where the head should look: a point in the canvas's NDC (y up), from the
+ * mouse, a finger or device tilt. It may run past ±1 when the mouse is
+ * outside the canvas. Inactive means look straight ahead.
+ */
+type HeadTarget = { active: boolean; pointer: { x: number; y: number } };
 
-let fetchPreload: Promise<THREE.Object3D | null> | null = null;
+/** "scene" aims at the surface under the pointer; "viewport" at its ray's point level with the head */
+export type GazeMode = "viewport" | "scene";
 
-function ensureFetchPreload(assetsBase: string, urdfUrl: string) {
-  if (fetchPreload) return fetchPreload;
-  fetchPreload = new Promise((resolve) => {
-    const manager = new THREE.LoadingManager();
-    const loader = new URDFLoader(manager);
-    (loader as any).packages = { fetch: assetsBase, fetch_description: assetsBase };
-    loader.workingPath = assetsBase;
-    loader.fetchOptions = { credentials: "same-origin", mode: "cors" };
-    loader.load(
-      urdfUrl,
-      (robot: any) => {
-        resolve(robot);
-      },
-      undefined,
-      () => resolve(null)
-    );
-  });
-  return fetchPreload;
-}
+/** What the home page's intro timeline drives (see lib/heroIntro). */
+export type HeroIntroControls = {
+  moveCamera: (move: CameraMove) => void;
+  playClip: (clip: Clip) => void;
+  /** Jump to the intro's resting view and pose */
+  settle: (camera: CameraMove | null, pose: JointValues) => void;
+};
+
+const INITIAL_CAMERA: [number, number, number] = [2.5, 1.5, 2.5];
+const IDLE_HEAD_TARGET: HeadTarget = { active: false, pointer: { x: 0, y: 0 } };
+// How long the head keeps looking at a touched point after the finger lifts
+const TOUCH_HOLD_MS = 1500;
+// Device tilt (degrees from where it was held when enabled) that reaches the edge of the canvas
+const TILT_RANGE_DEG = 30;
+// Critically damped head tracking: seconds to cover most of a change in target
+const HEAD_SMOOTH_TIME = 0.25;
 
 function FetchRobot({ 
   urdfUrl, 
-  assetsBase, 
+  packages, 
   onReady, 
-  onIntroCamera, 
   robotRef, 
   jointMapRef, 
   floorPosRef, 
   headTargetRef, 
+  onProgress,
+  onStatus,
 }: { 
   urdfUrl: string; 
-  assetsBase: string; 
+  packages: UrdfPackages; 
   onReady?: (joints: string[]) => void; 
-  onIntroCamera?: (center: THREE.Vector3, startPos: THREE.Vector3, endPos: THREE.Vector3) => void; 
   robotRef: React.MutableRefObject<THREE.Object3D | null>; 
   jointMapRef: React.MutableRefObject<Record<string, any>>; 
   floorPosRef: React.MutableRefObject<THREE.Vector3>; 
-  headTargetRef: React.MutableRefObject<{ x: number; y: number; active: boolean }>; 
+  headTargetRef: React.MutableRefObject<HeadTarget>; 
+  onProgress?: (progress: LoadProgress, retry: () => void) => void;
+  onStatus?: (loading: boolean, error: string | null) => void;
 }) { 
-  const { scene, camera } = useThree(); 
-
-  useEffect(() => {
-    ensureFetchPreload(assetsBase, urdfUrl).then((preloaded) => {
-      if (!preloaded) return;
-      const robot = preloaded.clone(true);
-        robot.rotation.set(-Math.PI / 2, 0, 0);
-        scene.add(robot);
-        robotRef.current = robot;
-        jointMapRef.current = robot.joints ?? {};
+  const handleLoad = (robot: URDFRobot, joints: UrdfJointInfo[]) => {
+    robotRef.current = robot;
+    jointMapRef.current = robot.joints ?? {};
 
-        // Smooth shading
-        robot.traverse((node: any) => {
-          if (node.isMesh) {
-            const g = node.geometry as THREE.BufferGeometry | undefined;
-            if (g && !g.attributes.normal) g.computeVertexNormals();
-            const m = (node.material ||= new THREE.MeshStandardMaterial());
-            if ("flatShading" in m) m.flatShading = false;
-            if ("roughness" in m) m.roughness = 0.45;
-            if ("metalness" in m) m.metalness = 0.05;
-            m.needsUpdate = true;
-            node.castShadow = true;
-            node.receiveShadow = true;
-          }
-        });
-
-        robot.updateMatrixWorld(true);
-        const box = new THREE.Box3().setFromObject(robot); 
-        const size = box.getSize(new THREE.Vector3()); 
-        const rawCenter = box.getCenter(new THREE.Vector3()); 
-        const center = rawCenter.clone().add(new THREE.Vector3(0, 1, 0)); 
-        floorPosRef.current.set(rawCenter.x, box.min.y - 0.015, rawCenter.z); 
-        // Keep head pointing forward on load
-        headTargetRef.current = { x: 0, y: 0, active: false }; 
-        const maxDim = Math.max(size.x, size.y, size.z);
-        const radius = Math.max(0.5, maxDim || 1);
-        const fov = (camera as THREE.PerspectiveCamera).fov * (Math.PI / 180);
-        const dist = Math.max(1, (maxDim || 1) / Math.tan(fov / 2));
-
-        const startPos = center.clone().add(new THREE.Vector3(0, 0, radius * 1.0));
-        const endPos = center.clone().add(new THREE.Vector3(0, 0, radius * 2.5));
-
-        camera.position.copy(startPos);
-        camera.lookAt(center);
-        (camera as THREE.PerspectiveCamera).updateProjectionMatrix();
-
-        onIntroCamera?.(center, startPos, endPos);
-
-        const joints = Object.entries(robot.joints ?? {})
-          .filter(([, j]: any) => (j.jointType || "").toLowerCase() !== "fixed")
-          .map(([name]) => name);
-        onReady?.(joints);
-    });
+    const box = new THREE.Box3().setFromObject(robot); 
+    const center = box.getCenter(new THREE.Vector3()); 
+    floorPosRef.current.set(center.x, box.min.y - 0.015, center.z); 
+    // Keep head pointing forward on load
+    headTargetRef.current = IDLE_HEAD_TARGET; 
+    onReady?.(joints.map((j) => j.name));
+  };
 
+  useEffect(() => {
     return () => {
-      if (robotRef.current) scene.remove(robotRef.current);
+      robotRef.current = null;
+      jointMapRef.current = {};
     };
-  }, [urdfUrl, assetsBase, scene, camera, onIntroCamera, onReady]);
+  }, [robotRef, jointMapRef]);
 
-  return null;
+  return <UrdfRobot url={urdfUrl} packages={packages} onLoad={handleLoad} onProgress={onProgress} onStatus={onStatus} />;
 }
 
 function ClipRunner({  
   robotRef,  
   jointMapRef,    
-  clipRef,    
-  introAnimRef,    
+  playerRef,    
   headTargetRef,   
-  defaultTargetRef,  
-  defaultCamPosRef,  
   enableInteraction,  
-  introCamAnimRef, 
+  gaze,
 }: {    
   robotRef: React.MutableRefObject<THREE.Object3D | null>;    
   jointMapRef: React.MutableRefObject<Record<string, any>>;    
-  clipRef: React.MutableRefObject<{ clip: Clip; start: number } | null>;    
-  introAnimRef: React.MutableRefObject<{   
-    start: number;  
-    duration: number;  
-    startPos: THREE.Vector3; 
-    endPos: THREE.Vector3; 
-    center: THREE.Vector3; 
-    active: boolean; 
-  }>;   
-  headTargetRef: React.MutableRefObject<{ x: number; y: number; active: boolean }>;    
-  defaultTargetRef: React.MutableRefObject<THREE.Vector3>;  
-  defaultCamPosRef: React.MutableRefObject<THREE.Vector3 | null>;  
+  playerRef: React.MutableRefObject<ClipPlayer>;    
+  headTargetRef: React.MutableRefObject<HeadTarget>;    
   enableInteraction: boolean;  
-  introCamAnimRef: React.MutableRefObject<{ 
-    active: boolean; 
-    start: number; 
-    duration: number; 
-    from: THREE.Vector3; 
-    to: THREE.Vector3; 
-    target: THREE.Vector3; 
-  }>; 
+  gaze: GazeMode;
 }) {    
   const nowSec = () => performance.now() / 1000;    
-  useFrame(({ camera }) => {   
-    // Intro camera drift while interaction is disabled
-    if (!enableInteraction && introCamAnimRef.current.active) {
-      const t = Math.min(1, (performance.now() - introCamAnimRef.current.start) / introCamAnimRef.current.duration);
-      const eased = t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-      camera.position.lerpVectors(introCamAnimRef.current.from, introCamAnimRef.current.to, eased);
-      (camera as THREE.PerspectiveCamera).updateProjectionMatrix();
-      if (introCamAnimRef.current.target) {
-        camera.lookAt(introCamAnimRef.current.target);
-      }
-      if (t >= 1) introCamAnimRef.current.active = false;
-    }
+  // Scene gaze raycasts only when the pointer moves; the hit is reused in between
+  const gazeRef = useRef<{ pointer: { x: number; y: number } | null; point: THREE.Vector3 }>({
+    pointer: null,
+    point: new THREE.Vector3(),
+  });
+  const headStateRef = useRef<{ pan: DampedValue; tilt: DampedValue } | null>(null);
 
-    if (robotRef.current && jointMapRef.current && clipRef.current) {  
-      const { clip, start } = clipRef.current;  
-      const elapsed = nowSec() - start;  
-      const duration = clip.frames[clip.frames.length - 1].time;  
-      const t = clip.loop ? elapsed % duration : Math.min(elapsed, duration);  
-      if (!clip.loop && elapsed >= duration) {  
-        clipRef.current = null;
-      } else {
-        let f1 = clip.frames[0];
-        let f2 = clip.frames[clip.frames.length - 1];
-        for (let i = 0; i < clip.frames.length - 1; i++) {
-          const a = clip.frames[i];
-          const b = clip.frames[i + 1];
-          if (t >= a.time && t <= b.time) {
-            f1 = a;
-            f2 = b;
-            break;
-          }
-        }
-        const span = Math.max(0.001, f2.time - f1.time);
-        const alpha = Math.min(1, Math.max(0, (t - f1.time) / span));
-        const jointNames = new Set([...Object.keys(f1.joints), ...Object.keys(f2.joints)]);
-        jointNames.forEach((name) => {
-          const j = jointMapRef.current[name];
-          if (!j || typeof j.setJointValue !== "function") return;
-          const v1 = f1.joints[name] ?? 0;
-          const v2 = f2.joints[name] ?? 0;
-          j.setJointValue(THREE.MathUtils.lerp(v1, v2, alpha));
-        });
-      }
+  /** First surface under the pointer (scene gaze), or the point along its ray level with the head. */
+  const gazePoint = (
+    pointer: { x: number; y: number },
+    camera: THREE.Camera,
+    scene: THREE.Scene,
+    raycaster: THREE.Raycaster,
+    head: THREE.Object3D
+  ) => {
+    const cached = gazeRef.current;
+    if (cached.pointer === pointer) return cached.point;
+    cached.pointer = pointer;
+    raycaster.setFromCamera(new THREE.Vector2(pointer.x, pointer.y), camera);
+    if (gaze === "scene") {
+      const hit = raycaster
+        .intersectObjects(scene.children, true)
+        .find((h) => (h.object as THREE.Mesh).isMesh && h.object.visible);
+      if (hit) return cached.point.copy(hit.point);
     }
+    const headPos = head.getWorldPosition(new THREE.Vector3());
+    const facing = camera.getWorldDirection(new THREE.Vector3()).negate();
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(facing, headPos);
+    return raycaster.ray.intersectPlane(plane, cached.point) ?? cached.point.copy(headPos);
+  };
 
-    // Ensure defaults captured for reset
-    if (!defaultCamPosRef.current) {
-      defaultCamPosRef.current = (camera as THREE.PerspectiveCamera).position.clone();
-    }
-    if (defaultTargetRef.current.lengthSq() === 0) {
-      defaultTargetRef.current.set(0, 1, 0);
+  useFrame(({ camera, scene, raycaster }, delta) => {   
+    if (robotRef.current && jointMapRef.current) {  
+      const pose = playerRef.current.update(nowSec(), () => readJointValues(robotRef.current as URDFRobot));
+      Object.entries(pose).forEach(([name, value]) => {
+        const j = jointMapRef.current[name];
+        if (!j || typeof j.setJointValue !== "function") return;
+        j.setJointValue(value);
+      });
     }
 
-    // Head/eye follow
-    if (enableInteraction && jointMapRef.current) {
-      const headPan = jointMapRef.current["head_pan_joint"];
-      const headTilt = jointMapRef.current["head_tilt_joint"];
-      if (headPan && typeof headPan.setJointValue === "function") {
-        const targetX = THREE.MathUtils.clamp(headTargetRef.current.active ? headTargetRef.current.x : 0, -1, 1);
-        const desiredPan = THREE.MathUtils.degToRad(targetX * 50); // wider pan range
-        const currentPan = headPan.jointValue ?? 0;
-        headPan.setJointValue(THREE.MathUtils.lerp(currentPan, desiredPan, 0.12));
-      }
-      if (headTilt && typeof headTilt.setJointValue === "function") {
-        const targetY = THREE.MathUtils.clamp(headTargetRef.current.active ? headTargetRef.current.y : 0, -1, 1);
-        // tilt in the same direction as cursor movement (up cursor => head up)
-        const desiredTilt = THREE.MathUtils.degToRad(targetY * 30);
-        const currentTilt = headTilt.jointValue ?? 0;
-        headTilt.setJointValue(THREE.MathUtils.lerp(currentTilt, desiredTilt, 0.12));
-      }
+    // Head follow: solve pan/tilt for the gaze point, then track it critically damped
+    const robot = robotRef.current as URDFRobot | null;
+    const headPan = jointMapRef.current?.[headUnit.pan];
+    const headTilt = jointMapRef.current?.[headUnit.tilt];
+    if (enableInteraction && robot && headPan && headTilt) {
+      const target = headTargetRef.current;
+      const aim = target.active
+        ? solveLookAt(robot, headUnit, gazePoint(target.pointer, camera, scene, raycaster, headTilt))
+        : null;
+      const state = (headStateRef.current ??= {
+        pan: { value: getJointValue(headPan), velocity: 0 },
+        tilt: { value: getJointValue(headTilt), velocity: 0 },
+      });
+      // Clamp long frames (background tab) so the head does not jump
+      const dt = Math.min(delta, 0.1);
+      headPan.setJointValue(dampTowards(state.pan, aim?.pan ?? 0, HEAD_SMOOTH_TIME, dt).value);
+      headTilt.setJointValue(dampTowards(state.tilt, aim?.tilt ?? 0, HEAD_SMOOTH_TIME, dt).value);
+    } else {
+      headStateRef.current = null;
     }
 
     robotRef.current?.updateMatrixWorld(true);
@@ -231,91 +172,92 @@ function ClipRunner({
 
 export default function FetchHeroViewer({ 
   onLoaded, 
-  onStartReady, 
-  onWaveComplete, 
+  onProgress,
+  onStatus,
+  introRef,
   enableInteraction = true,
+  gaze = "scene",
 }: { 
   onLoaded?: () => void; 
-  onStartReady?: (startWave: () => void) => void; 
-  onWaveComplete?: () => void; 
+  /** Asset progress and failed meshes while the robot loads; `retry` reloads it */
+  onProgress?: (progress: LoadProgress, retry: () => void) => void;
+  /** Whether the robot is still loading, and why it failed if the URDF itself did not load */
+  onStatus?: (loading: boolean, error: string | null) => void;
+  /** Filled once mounted so an intro sequence can move the camera and play clips */
+  introRef?: React.MutableRefObject<HeroIntroControls | null>;
   enableInteraction?: boolean;
+  /** "scene" looks at whatever is under the pointer or finger; "viewport" ignores scene surfaces */
+  gaze?: GazeMode;
 }) { 
-  const assetsBase = resolvePublic("assets/fetch/");
-  const urdfUrl = resolvePublic("assets/fetch/fetch.urdf");
+  const { url: urdfUrl, packages } = useMemo(() => resolveRobotAssets(fetchRobot), []);
 
-const clipRef = useRef<{ clip: Clip; start: number } | null>(null);   
+  const playerRef = useRef<ClipPlayer>(null!);
+  playerRef.current ??= new ClipPlayer();
   const robotRef = useRef<THREE.Object3D | null>(null);  
   const jointMapRef = useRef<Record<string, any>>({});  
   const floorPosRef = useRef<THREE.Vector3>(new THREE.Vector3(0, -0.02, 0));  
-  const headTargetRef = useRef<{ x: number; y: number; active: boolean }>({ x: 0, y: 0, active: false });
-  const defaultTargetRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 1, 0));
-  const defaultCamPosRef = useRef<THREE.Vector3 | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const controlsRef = useRef<any>(null);
-  const resetAnimRef = useRef<number | null>(null);
+  const headTargetRef = useRef<HeadTarget>(IDLE_HEAD_TARGET);
+  const enableInteractionRef = useRef(enableInteraction);
+  enableInteractionRef.current = enableInteraction;
+  const [tiltEnabled, setTiltEnabled] = useState(false);
+  const tiltSupported = useMemo(
+    () => typeof window !== "undefined" && "DeviceOrientationEvent" in window && window.matchMedia("(pointer: coarse)").matches,
+    []
+  );
+  // Resting view for the inactivity reset; the intro replaces it with where it ends
+  const restViewRef = useRef<CameraView>({
+    position: new THREE.Vector3(...INITIAL_CAMERA),
+    target: new THREE.Vector3(0, 1, 0),
+  });
+  const cameraRef = useRef<CameraController | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const introCamAnimRef = useRef<{ 
-    active: boolean; 
-    start: number; 
-    duration: number; 
-    from: THREE.Vector3; 
-    to: THREE.Vector3; 
-    target: THREE.Vector3; 
-  }>({ 
-    active: false, 
-    start: 0, 
-    duration: 0, 
-    from: new THREE.Vector3(), 
-    to: new THREE.Vector3(), 
-    target: new THREE.Vector3(), 
-  }); 
-  const introAnimRef = useRef<{   
-    start: number;   
-    duration: number;   
-    startPos: THREE.Vector3;   
-    endPos: THREE.Vector3;  
-    center: THREE.Vector3;  
-    active: boolean;  
-  }>({ start: 0, duration: 0, startPos: new THREE.Vector3(), endPos: new THREE.Vector3(), center: new THREE.Vector3(), active: false });  
-  const introCamStart = useMemo(() => new THREE.Vector3(0.5, 1, 0), []);  
-  const introCamEnd = useMemo(() => new THREE.Vector3(2, 1, 0), []);   
-  const introCamTarget = useMemo(() => new THREE.Vector3(0, 1, 0), []);   
-  const introCamDuration = 3500;   
-  const introPoseClip = useMemo<Clip>( 
-    () => ({ 
-      name: "intro-pose", 
-      frames: [ 
-        { time: 0, joints: { shoulder_pan_joint: 1.81, shoulder_lift_joint: 2, elbow_flex_joint: 1.71, wrist_flex_joint: 1.5, wrist_roll_joint: 0.05, torso_lift_joint: 0.03, upperarm_roll_joint:0.12 } }, 
-        { time: 0.8, joints: { shoulder_pan_joint: 1.81, shoulder_lift_joint: 2, elbow_flex_joint: 1.71, wrist_flex_joint: 1.5, wrist_roll_joint: 0.05, torso_lift_joint: 0.1, upperarm_roll_joint:-3.07 } }, 
-        { time: 5.0, joints: { shoulder_pan_joint: -0.3, shoulder_lift_joint: -0.7, elbow_flex_joint: -0.9, wrist_flex_joint: 0.4, wrist_roll_joint: -0.6, torso_lift_joint: 0.05 } }, 
-      ], 
-    }), 
-    [] 
-  ); 
-  const nowSec = () => performance.now() / 1000;
-const playClip = (clip: Clip) => {  
-  clipRef.current = { clip, start: nowSec() };  
-};  
- 
-// Clear any clips when interaction disabled; nothing auto-plays now
+// Drop any gaze target when interaction is disabled; intro clips keep playing
 useEffect(() => {
   if (!enableInteraction) {
-    clipRef.current = null;
-    headTargetRef.current = { x: 0, y: 0, active: false };
+    headTargetRef.current = IDLE_HEAD_TARGET;
   }
 }, [enableInteraction]);
 
+  useEffect(() => {
+    if (!introRef) return;
+    // The resting view doubles as the inactivity reset target
+    const rest = (move: CameraMove) => {
+      restViewRef.current = { position: new THREE.Vector3(...move.to), target: new THREE.Vector3(...move.target) };
+      return restViewRef.current;
+    };
+    introRef.current = {
+      moveCamera: (move) => {
+        const to = rest(move);
+        cameraRef.current?.jumpTo({ position: new THREE.Vector3(...move.from), target: to.target });
+        cameraRef.current?.flyTo(to, { duration: move.duration, easing: "cubicInOut" });
+      },
+      playClip: (clip) => playerRef.current.play(clip),
+      settle: (camera, pose) => {
+        playerRef.current.stop();
+        Object.entries(pose).forEach(([name, value]) => jointMapRef.current[name]?.setJointValue?.(value));
+        cameraRef.current?.stop();
+        if (camera) cameraRef.current?.jumpTo(rest(camera));
+      },
+    };
+    return () => {
+      introRef.current = null;
+    };
+  }, [introRef]);
+
+  const canvasPointer = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width || !rect.height) return null;
+    return { x: ((clientX - rect.left) / rect.width) * 2 - 1, y: -(((clientY - rect.top) / rect.height) * 2 - 1) };
+  };
+
   useEffect(() => {
     const handleMove = (e: MouseEvent) => {
-      const w = window.innerWidth || 1;
-      const h = window.innerHeight || 1;
-      const nx = (e.clientX / w) * 2 - 1; // -1 to 1 across viewport
-      const ny = (e.clientY / h) * 2 - 1;
-      if (!enableInteraction) return;
-      headTargetRef.current = { x: THREE.MathUtils.clamp(nx, -1, 1), y: THREE.MathUtils.clamp(ny, -1, 1), active: true };
+      if (!enableInteractionRef.current) return;
+      const pointer = canvasPointer(e.clientX, e.clientY);
+      if (pointer) headTargetRef.current = { active: true, pointer };
     };
     const handleLeave = () => {
-      headTargetRef.current = { x: 0, y: 0, active: false };
+      headTargetRef.current = IDLE_HEAD_TARGET;
     };
     window.addEventListener("mousemove", handleMove);
     window.addEventListener("mouseleave", handleLeave);
@@ -327,35 +269,80 @@ useEffect(() => {
     };
   }, []);
 
+  // Touch: the head follows the finger while it is down, then lingers briefly
+  useEffect(() => {
+    const node = containerRef.current;
+    if (!node) return;
+    let release: number | undefined;
+    const handleTouch = (e: PointerEvent) => {
+      if (e.pointerType !== "touch" || !enableInteractionRef.current) return;
+      window.clearTimeout(release);
+      const pointer = canvasPointer(e.clientX, e.clientY);
+      if (pointer) headTargetRef.current = { active: true, pointer };
+    };
+    const handleLift = (e: PointerEvent) => {
+      if (e.pointerType !== "touch") return;
+      window.clearTimeout(release);
+      release = window.setTimeout(() => (headTargetRef.current = IDLE_HEAD_TARGET), TOUCH_HOLD_MS);
+    };
+    node.addEventListener("pointerdown", handleTouch);
+    node.addEventListener("pointermove", handleTouch);
+    node.addEventListener("pointerup", handleLift);
+    node.addEventListener("pointercancel", handleLift);
+    return () => {
+      window.clearTimeout(release);
+      node.removeEventListener("pointerdown", handleTouch);
+      node.removeEventListener("pointermove", handleTouch);
+      node.removeEventListener("pointerup", handleLift);
+      node.removeEventListener("pointercancel", handleLift);
+    };
+  }, []);
+
+  // Device tilt, relative to how the phone was held when it was switched on
+  useEffect(() => {
+    if (!tiltEnabled) return;
+    let baseline: { beta: number; gamma: number } | null = null;
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      if (e.beta === null || e.gamma === null || !enableInteractionRef.current) return;
+      baseline ??= { beta: e.beta, gamma: e.gamma };
+      // Rolling right looks right; tipping the top edge up (beta grows) looks down
+      headTargetRef.current = {
+        active: true,
+        pointer: {
+          x: THREE.MathUtils.clamp((e.gamma - baseline.gamma) / TILT_RANGE_DEG, -1, 1),
+          y: THREE.MathUtils.clamp(-(e.beta - baseline.beta) / TILT_RANGE_DEG, -1, 1),
+        },
+      };
+    };
+    window.addEventListener("deviceorientation", handleOrientation);
+    return () => {
+      window.removeEventListener("deviceorientation", handleOrientation);
+      headTargetRef.current = IDLE_HEAD_TARGET;
+    };
+  }, [tiltEnabled]);
+
+  const toggleTilt = async () => {
+    if (tiltEnabled) {
+      setTiltEnabled(false);
+      return;
+    }
+    // iOS 13+ only delivers orientation events after a permission prompt from a user gesture
+    const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<PermissionState> })
+      .requestPermission;
+    try {
+      if (request && (await request()) !== "granted") return;
+      setTiltEnabled(true);
+    } catch {
+      setTiltEnabled(false);
+    }
+  };
+
   // Inactivity reset: return camera to default after timeout
   useEffect(() => {
     if (!enableInteraction) return;
     let timeout: number | undefined;
-    const smoothReset = () => {
-      if (!defaultCamPosRef.current || !cameraRef.current || !controlsRef.current) return;
-      if (resetAnimRef.current) cancelAnimationFrame(resetAnimRef.current);
-      const startPos = cameraRef.current.position.clone();
-      const endPos = defaultCamPosRef.current.clone();
-      const startTarget = controlsRef.current.target.clone();
-      const endTarget = defaultTargetRef.current.clone();
-      const duration = 1200;
-      const start = performance.now();
-      const animate = (now: number) => {
-        const t = Math.min(1, (now - start) / duration);
-        const eased = t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-        cameraRef.current!.position.lerpVectors(startPos, endPos, eased);
-        controlsRef.current.target.lerpVectors(startTarget, endTarget, eased);
-        controlsRef.current.update();
-        if (t < 1) {
-          resetAnimRef.current = requestAnimationFrame(animate);
-        } else {
-          resetAnimRef.current = null;
-        }
-      };
-      resetAnimRef.current = requestAnimationFrame(animate);
-    };
     const resetView = () => {
-      smoothReset();
+      cameraRef.current?.flyTo(restViewRef.current);
     };
     const resetTimer = () => {
       if (timeout) window.clearTimeout(timeout);
@@ -385,7 +372,7 @@ useEffect(() => {
     <div className="w-full h-full relative" ref={containerRef}> 
       <Canvas 
         shadows 
-        camera={{ position: [2.5, 1.5, 2.5], fov: 45, near: 0.01, far: 100 }} 
+        camera={{ position: INITIAL_CAMERA, fov: 45, near: 0.01, far: 100 }} 
         gl={{ 
           antialias: true, 
           alpha: true, 
@@ -394,9 +381,6 @@ useEffect(() => {
           toneMappingExposure: 1.0, 
           shadowMap: { enabled: true, type: THREE.PCFSoftShadowMap }, 
         } as any} 
-        onCreated={({ camera }) => { 
-          cameraRef.current = camera as THREE.PerspectiveCamera; 
-        }} 
       > 
         <color attach="background" args={["#ffffff"]} />
         <ambientLight intensity={0.35} color={0xffffff} />
@@ -424,63 +408,43 @@ useEffect(() => {
 
         <FetchRobot  
           urdfUrl={urdfUrl}  
-          assetsBase={assetsBase}  
+          packages={packages}  
           robotRef={robotRef}  
           jointMapRef={jointMapRef}  
           floorPosRef={floorPosRef} 
           headTargetRef={headTargetRef}
-          onIntroCamera={() => {
-            // Set custom intro camera path
-            if (cameraRef.current) {
-              cameraRef.current.position.copy(introCamStart);
-              cameraRef.current.lookAt(introCamTarget);
-              cameraRef.current.updateProjectionMatrix();
-            }
-            if (controlsRef.current) {
-              controlsRef.current.target.copy(introCamTarget);
-              controlsRef.current.update();
-            }
-            defaultTargetRef.current.copy(introCamTarget);
-            defaultCamPosRef.current = introCamEnd.clone();
-            introCamAnimRef.current = {
-              active: true,
-              start: performance.now(),
-              duration: introCamDuration,
-              from: introCamStart.clone(),
-              to: introCamEnd.clone(),
-              target: introCamTarget.clone(),
-            };
-          }}
-          onReady={() => {  
-            onLoaded?.();  
-            // Play intro pose only; no wave/dance
-            playClip(introPoseClip);
-            const introMs = introPoseClip.frames[introPoseClip.frames.length - 1].time * 1000;
-            setTimeout(() => {
-              onWaveComplete?.();
-            }, introMs + 1000); // small buffer to keep full-screen a bit longer
-          }}  
+          onProgress={onProgress}
+          onStatus={onStatus}
+          onReady={() => onLoaded?.()}
         />  
         <OrbitControls
-          ref={controlsRef}
+          makeDefault
           enableDamping
           dampingFactor={0.1}
           maxPolarAngle={Math.PI * 0.48}
           enablePan
           enabled={enableInteraction}
         /> 
+        <CameraRig controllerRef={cameraRef} />
         <ClipRunner
           robotRef={robotRef}
           jointMapRef={jointMapRef}
-      clipRef={clipRef}
-      introAnimRef={introAnimRef}
+      playerRef={playerRef}
       headTargetRef={headTargetRef}
-      defaultTargetRef={defaultTargetRef}
-      defaultCamPosRef={defaultCamPosRef}
       enableInteraction={enableInteraction}
-      introCamAnimRef={introCamAnimRef}
+      gaze={gaze}
     /> 
       </Canvas> 
+      {tiltSupported && enableInteraction && (
+        <button
+          className={`absolute right-3 bottom-3 z-10 px-3 py-1.5 rounded-full shadow text-xs border border-border ${
+            tiltEnabled ? "bg-foreground text-background" : "bg-white"
+          }`}
+          onClick={toggleTilt}
+        >
+          {tiltEnabled ? "Tilt look on" : "Tilt to look"}
+        </button>
+      )}
     </div> 
   ); 
 } 
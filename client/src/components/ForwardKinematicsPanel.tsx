@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import * as THREE from "three";
+import type { URDFRobot } from "urdf-loader";
+import { linkNames, linkPose, type LinkPose } from "@/lib/kinematics";
+
+const fmt = (v: number, digits = 3) => (Object.is(v, -0) ? 0 : v).toFixed(digits);
+
+function PoseCard({
+  name,
+  pose,
+  onRemove,
+}: {
+  name: string;
+  pose: LinkPose | null;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="border border-border rounded p-3 bg-white text-sm space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{name}</span>
+        <button className="text-xs text-muted-foreground hover:text-foreground" onClick={onRemove}>
+          Remove
+        </button>
+      </div>
+      {!pose ? (
+        <p className="text-muted-foreground">Link not found</p>
+      ) : (
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 tabular-nums">
+          <span className="text-muted-foreground">xyz (m)</span>
+          <span>
+            {fmt(pose.position.x)}, {fmt(pose.position.y)}, {fmt(pose.position.z)}
+          </span>
+          <span className="text-muted-foreground">rpy (deg)</span>
+          <span>
+            {fmt(THREE.MathUtils.radToDeg(pose.rpy.roll), 1)}, {fmt(THREE.MathUtils.radToDeg(pose.rpy.pitch), 1)},{" "}
+            {fmt(THREE.MathUtils.radToDeg(pose.rpy.yaw), 1)}
+          </span>
+          <span className="text-muted-foreground">quat (xyzw)</span>
+          <span>
+            {fmt(pose.quaternion.x)}, {fmt(pose.quaternion.y)}, {fmt(pose.quaternion.z)}, {fmt(pose.quaternion.w)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Live forward-kinematics readout for the selected links, in the robot base
+ * frame. Polls once per animation frame so any source of joint motion (sliders,
+ * clips, IK) is reflected without extra wiring.
+ */
+export default function ForwardKinematicsPanel({
+  robot,
+  selected,
+  onSelectedChange,
+  showFrames,
+  onShowFramesChange,
+}: {
+  robot: URDFRobot | null;
+  selected: string[];
+  onSelectedChange: (links: string[]) => void;
+  showFrames: boolean;
+  onShowFramesChange: (show: boolean) => void;
+}) {
+  const [poses, setPoses] = useState<Record<string, LinkPose | null>>({});
+  const links = robot ? linkNames(robot) : [];
+
+  useEffect(() => {
+    if (!robot) return;
+    let raf = 0;
+    let last = "";
+    const tick = () => {
+      const next: Record<string, LinkPose | null> = {};
+      selected.forEach((name) => (next[name] = linkPose(robot, name)));
+      // Only re-render when a displayed digit could have changed
+      const key = JSON.stringify(
+        Object.values(next).map((p) => (p ? [...p.position.toArray(), ...p.quaternion.toArray()].map((v) => v.toFixed(4)) : null))
+      );
+      if (key !== last) {
+        last = key;
+        setPoses(next);
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(raf);
+  }, [robot, selected]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select
+          className="px-2 py-1 rounded border border-border bg-white"
+          value=""
+          disabled={!robot}
+          onChange={(e) => {
+            const name = e.target.value;
+            if (name && !selected.includes(name)) onSelectedChange([...selected, name]);
+          }}
+        >
+          <option value="">Add link…</option>
+          {links
+            .filter((l) => !selected.includes(l))
+            .map((l) => (
+              <option key={l} value={l}>
+                {l}
+              </option>
+            ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showFrames} onChange={(e) => onShowFramesChange(e.target.checked)} />
+          Show link frames
+        </label>
+      </div>
+      {selected.length === 0 && <p className="text-sm text-muted-foreground">Pick a link to see its pose.</p>}
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {selected.map((name) => (
+          <PoseCard
+            key={name}
+            name={name}
+            pose={poses[name] ?? null}
+            onRemove={() => onSelectedChange(selected.filter((n) => n !== name))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
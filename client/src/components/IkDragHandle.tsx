@@ -0,0 +1,65 @@
+import { useRef } from "react";
+import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
+import { TransformControls } from "@react-three/drei";
+import type { URDFRobot } from "urdf-loader";
+import { solveIkCcd, type IkChain, type IkResult } from "@/lib/kinematics";
+
+/**
+ * Translate gizmo parked on the chain's tip link. Dragging it runs CCD IK
+ * and reports the solved joint values; the caller feeds them back into its
+ * joint state so sliders and drag stay in sync. Needs the scene's
+ * OrbitControls to be `makeDefault` so orbiting pauses while dragging.
+ */
+export default function IkDragHandle({
+  robot,
+  chain,
+  onSolve,
+  size = 0.6,
+}: {
+  robot: URDFRobot | null;
+  chain: IkChain;
+  onSolve: (result: IkResult) => void;
+  size?: number;
+}) {
+  const handleRef = useRef<THREE.Mesh>(null!);
+  const draggingRef = useRef(false);
+  const [solvedColor, unsolvedColor] = ["#2563eb", "#dc2626"];
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  // Follow the tip whenever the user is not dragging (sliders, clips, resets)
+  useFrame(() => {
+    const tip = robot?.links?.[chain.tip];
+    if (!tip || draggingRef.current || !handleRef.current) return;
+    tip.getWorldPosition(handleRef.current.position);
+    materialRef.current?.color.set(solvedColor);
+  });
+
+  if (!robot?.links?.[chain.tip]) return null;
+
+  return (
+    <>
+      <mesh ref={handleRef} renderOrder={1000}>
+        <sphereGeometry args={[0.025, 16, 16]} />
+        <meshBasicMaterial ref={materialRef} color={solvedColor} depthTest={false} transparent opacity={0.85} />
+      </mesh>
+      <TransformControls
+        object={handleRef}
+        mode="translate"
+        size={size}
+        onMouseDown={() => {
+          draggingRef.current = true;
+        }}
+        onMouseUp={() => {
+          draggingRef.current = false;
+        }}
+        onObjectChange={() => {
+          if (!draggingRef.current || !handleRef.current) return;
+          const result = solveIkCcd(robot, chain, handleRef.current.position);
+          materialRef.current?.color.set(result.status === "converged" ? solvedColor : unsolvedColor);
+          onSolve(result);
+        }}
+      />
+    </>
+  );
+}
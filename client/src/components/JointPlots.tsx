@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  analyzeMotion,
+  trajectoryDuration,
+  type MotionIssue,
+  type MotionIssueKind,
+  type Trajectory,
+} from "@/lib/trajectory";
+import type { UrdfJointInfo } from "@/lib/urdf";
+
+// Recharts slows down badly past a few hundred points per line, and these redraw with the playhead
+const MAX_CHART_POINTS = 300;
+const MAX_PLOTTED = 5;
+const LINE_COLORS = ["#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2"];
+const ISSUE_COLORS: Record<MotionIssueKind, string> = { limit: "#dc2626", velocity: "#dc2626", spike: "#f59e0b" };
+const ISSUE_LABELS: Record<MotionIssueKind, string> = {
+  limit: "outside joint limits",
+  velocity: "over velocity limit",
+  spike: "velocity spike",
+};
+
+type Row = Record<string, number>;
+
+/**
+ * Position, velocity and acceleration charts for a trajectory (recorded, or a
+ * Clip sampled with clipTrajectory). A cursor follows `playhead`, clicking a
+ * chart seeks, and limit violations and velocity spikes are shaded.
+ */
+export default function JointPlots({
+  traj,
+  joints,
+  playhead,
+  onSeek,
+}: {
+  traj: Trajectory;
+  /** The robot's joints; provides limits and decides which tracks can be plotted */
+  joints: UrdfJointInfo[];
+  playhead: number;
+  onSeek: (t: number) => void;
+}) {
+  const plottable = useMemo(() => {
+    const known = new Set(joints.map((j) => j.name));
+    return traj.joints.filter((j) => known.has(j));
+  }, [traj, joints]);
+  const [plotted, setPlotted] = useState<string[]>([]);
+
+  // Keep the selection when the data changes under it (editing a clip); reset when none survive
+  useEffect(() => {
+    setPlotted((prev) => {
+      const kept = prev.filter((j) => plottable.includes(j));
+      return kept.length ? kept : plottable.slice(0, 3);
+    });
+  }, [plottable]);
+
+  const analysis = useMemo(() => analyzeMotion(traj, joints), [traj, joints]);
+  const issuesByJoint = useMemo(() => {
+    const out = new Map<string, MotionIssue[]>();
+    analysis.issues.forEach((issue) => out.set(issue.joint, [...(out.get(issue.joint) ?? []), issue]));
+    return out;
+  }, [analysis]);
+
+  const { config, rows } = useMemo(() => {
+    const ks = plotted.map((j) => traj.joints.indexOf(j)).filter((k) => k >= 0);
+    const stride = Math.max(1, Math.ceil(traj.times.length / MAX_CHART_POINTS));
+    const rows: { position: Row[]; velocity: Row[]; acceleration: Row[] } = { position: [], velocity: [], acceleration: [] };
+    for (let i = 0; i < traj.times.length; i += stride) {
+      const t = traj.times[i];
+      const p: Row = { t };
+      const v: Row = { t };
+      const a: Row = { t };
+      ks.forEach((k) => {
+        p[traj.joints[k]] = traj.positions[k][i];
+        v[traj.joints[k]] = analysis.velocities[k][i];
+        a[traj.joints[k]] = analysis.accelerations[k][i];
+      });
+      rows.position.push(p);
+      rows.velocity.push(v);
+      rows.acceleration.push(a);
+    }
+    const config: ChartConfig = {};
+    ks.forEach((k, n) => (config[traj.joints[k]] = { label: traj.joints[k], color: LINE_COLORS[n % LINE_COLORS.length] }));
+    return { config, rows };
+  }, [traj, plotted, analysis]);
+
+  const duration = trajectoryDuration(traj);
+  const infoByName = new Map(joints.map((j) => [j.name, j]));
+  const issues = analysis.issues.filter((issue) => plottable.includes(issue.joint));
+  const plottedIssues = issues.filter((issue) => plotted.includes(issue.joint));
+  // Single-sample issues still need a visible band
+  const minWidth = duration / 200;
+
+  const chart = (title: string, data: Row[], kinds: MotionIssueKind[], limits: boolean) => (
+    <div>
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground mb-1">{title}</h3>
+      <ChartContainer config={config} className="aspect-auto h-44 w-full cursor-crosshair">
+        <LineChart
+          data={data}
+          margin={{ left: 4, right: 12, top: 8, bottom: 0 }}
+          onClick={(state) => {
+            if (state?.activeLabel !== undefined) onSeek(Number(state.activeLabel));
+          }}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="t"
+            type="number"
+            domain={[0, duration]}
+            tickFormatter={(t: number) => `${t.toFixed(1)} s`}
+            tickLine={false}
+          />
+          <YAxis width={48} tickFormatter={(v: number) => v.toFixed(2)} tickLine={false} />
+          <ChartTooltip
+            isAnimationActive={false}
+            content={<ChartTooltipContent labelFormatter={(_, payload) => `${Number(payload?.[0]?.payload?.t ?? 0).toFixed(2)} s`} />}
+          />
+          {plottedIssues
+            .filter((issue) => kinds.includes(issue.kind))
+            .map((issue, i) => (
+              <ReferenceArea
+                key={`${issue.joint}-${issue.kind}-${i}`}
+                x1={Math.max(0, issue.start - minWidth / 2)}
+                x2={Math.min(duration, issue.end + minWidth / 2)}
+                fill={ISSUE_COLORS[issue.kind]}
+                fillOpacity={0.15}
+                ifOverflow="hidden"
+              />
+            ))}
+          {limits &&
+            Object.keys(config).flatMap((joint) => {
+              const limit = infoByName.get(joint)?.limit;
+              if (!limit || infoByName.get(joint)?.type === "continuous") return [];
+              return [limit.lower, limit.upper].map((y) => (
+                <ReferenceLine key={`${joint}-${y}`} y={y} stroke={`var(--color-${joint})`} strokeDasharray="4 4" />
+              ));
+            })}
+          {Object.keys(config).map((joint) => (
+            <Line
+              key={joint}
+              dataKey={joint}
+              stroke={`var(--color-${joint})`}
+              dot={false}
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          ))}
+          <ReferenceLine x={playhead} stroke="#ef4444" ifOverflow="hidden" />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+
+  const togglePlotted = (joint: string) =>
+    setPlotted((prev) =>
+      prev.includes(joint) ? prev.filter((j) => j !== joint) : prev.length < MAX_PLOTTED ? [...prev, joint] : prev
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className="text-muted-foreground self-center">Plot (up to {MAX_PLOTTED}):</span>
+        {plottable.map((joint) => (
+          <button
+            key={joint}
+            title={issuesByJoint.has(joint) ? "Has limit violations or velocity spikes" : undefined}
+            className={`px-2 py-1 rounded border ${issuesByJoint.has(joint) ? "border-red-400" : "border-border"} ${
+              plotted.includes(joint) ? "bg-foreground text-background" : "bg-white"
+            }`}
+            onClick={() => togglePlotted(joint)}
+          >
+            {joint}
+            {issuesByJoint.has(joint) && " ⚠"}
+          </button>
+        ))}
+      </div>
+
+      {plotted.length > 0 && (
+        <div className="grid gap-4 lg:grid-cols-3">
+          {chart("Position (rad / m)", rows.position, ["limit"], true)}
+          {chart("Velocity (rad/s / m/s)", rows.velocity, ["velocity", "spike"], false)}
+          {chart("Acceleration (rad/s² / m/s²)", rows.acceleration, ["spike"], false)}
+        </div>
+      )}
+
+      {issues.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No limit violations or velocity spikes.</p>
+      ) : (
+        <ul className="text-xs space-y-1">
+          {issues.slice(0, 8).map((issue, i) => (
+            <li key={i}>
+              <button className="underline tabular-nums text-left" onClick={() => onSeek(issue.start)}>
+                <span style={{ color: ISSUE_COLORS[issue.kind] }}>●</span> {issue.joint} {ISSUE_LABELS[issue.kind]} at{" "}
+                {issue.start.toFixed(2)}
+                {issue.end > issue.start ? `–${issue.end.toFixed(2)}` : ""} s (peak {issue.peak.toFixed(2)})
+              </button>
+            </li>
+          ))}
+          {issues.length > 8 && (
+            <li className="text-muted-foreground">…and {issues.length - 8} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
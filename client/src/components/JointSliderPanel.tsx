@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import type { JointGroup } from "@/lib/robots";
+import {
+  clampJointValue,
+  fromDisplayUnit,
+  jointRange,
+  jointUnit,
+  toDisplayUnit,
+  type AngleUnit,
+  type JointValues,
+  type UrdfJointInfo,
+} from "@/lib/urdf";
+
+const formatValue = (value: number, unit: string) =>
+  value.toFixed(unit === "deg" ? 1 : unit === "m" ? 3 : 2);
+
+/** Text box that commits on Enter/blur so partial input like "-" or "0." survives typing. */
+function JointNumberInput({
+  value,
+  unit,
+  onCommit,
+}: {
+  value: number;
+  unit: string;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(formatValue(value, unit));
+
+  useEffect(() => {
+    setDraft(formatValue(value, unit));
+  }, [value, unit]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed)) onCommit(parsed);
+    else setDraft(formatValue(value, unit));
+  };
+
+  return (
+    <input
+      type="number"
+      inputMode="decimal"
+      step={unit === "deg" ? 0.1 : 0.001}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      className="w-24 px-2 py-1 rounded border border-border bg-white text-right text-sm tabular-nums"
+    />
+  );
+}
+
+function JointRow({
+  info,
+  value,
+  angleUnit,
+  onChange,
+}: {
+  info: UrdfJointInfo;
+  value: number;
+  angleUnit: AngleUnit;
+  onChange: (value: number) => void;
+}) {
+  const unit = jointUnit(info, angleUnit);
+  const { lower, upper } = jointRange(info);
+  const shown = toDisplayUnit(info, value, angleUnit);
+  const min = toDisplayUnit(info, lower, angleUnit);
+  const max = toDisplayUnit(info, upper, angleUnit);
+  const set = (display: number) => onChange(clampJointValue(info, fromDisplayUnit(info, display, angleUnit)));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-medium truncate" title={`${info.name} (${info.type})`}>
+          {info.name}
+        </span>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <JointNumberInput value={shown} unit={unit} onCommit={set} />
+          <span className="w-7">{unit}</span>
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={(max - min) / 1000}
+        value={shown}
+        onChange={(e) => set(parseFloat(e.target.value))}
+        className="w-full"
+      />
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>{formatValue(min, unit)}</span>
+        <span>{info.type === "continuous" ? "continuous" : info.type}</span>
+        <span>{formatValue(max, unit)}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Joint controls driven by the URDF: slider ranges and clamping come from
+ * each joint's limits, units from its type (prismatic in metres).
+ */
+export default function JointSliderPanel({
+  joints,
+  groups,
+  values,
+  onChange,
+}: {
+  joints: UrdfJointInfo[];
+  groups: JointGroup[];
+  values: JointValues;
+  onChange: (name: string, value: number) => void;
+}) {
+  const [angleUnit, setAngleUnit] = useState<AngleUnit>("rad");
+  const byName = new Map(joints.map((j) => [j.name, j]));
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Angles in</span>
+        {(["rad", "deg"] as const).map((u) => (
+          <button
+            key={u}
+            className={`px-2 py-1 rounded border border-border ${u === angleUnit ? "bg-foreground text-background" : "bg-white"}`}
+            onClick={() => setAngleUnit(u)}
+          >
+            {u}
+          </button>
+        ))}
+      </div>
+      {groups.map((group) => (
+        <div key={group.name} className="space-y-2">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{group.name}</h3>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {group.joints.map((name) => {
+              const info = byName.get(name);
+              if (!info) return null;
+              return (
+                <JointRow
+                  key={name}
+                  info={info}
+                  value={values[name] ?? 0}
+                  angleUnit={angleUnit}
+                  onChange={(v) => onChange(name, v)}
+                />
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
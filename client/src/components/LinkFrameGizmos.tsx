@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import * as THREE from "three";
+import type { URDFRobot } from "urdf-loader";
+
+/**
+ * Axis triads (X red, Y green, Z blue) parented to the given URDF links, so
+ * they follow the links through any joint motion. Drawn on top of the meshes.
+ */
+export default function LinkFrameGizmos({
+  robot,
+  links,
+  size = 0.15,
+}: {
+  robot: URDFRobot | null;
+  links: string[];
+  size?: number;
+}) {
+  useEffect(() => {
+    if (!robot) return;
+    const helpers: THREE.AxesHelper[] = [];
+    links.forEach((name) => {
+      const link = robot.links?.[name] ?? robot.frames?.[name];
+      if (!link) return;
+      const axes = new THREE.AxesHelper(size);
+      const material = axes.material as THREE.LineBasicMaterial;
+      material.depthTest = false;
+      material.transparent = true;
+      axes.renderOrder = 999;
+      link.add(axes);
+      helpers.push(axes);
+    });
+    return () => {
+      helpers.forEach((axes) => {
+        axes.removeFromParent();
+        axes.dispose();
+      });
+    };
+  }, [robot, links, size]);
+
+  return null;
+}
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from "react";
+import type * as THREE from "three";
+import {
+  RosbridgeClient,
+  TfBuffer,
+  jointStateValues,
+  type RosbridgeStatus,
+} from "@/lib/rosbridge";
+import type { JointValues } from "@/lib/urdf";
+
+const STATUS_STYLES: Record<RosbridgeStatus, { label: string; dot: string }> = {
+  idle: { label: "Not connected", dot: "bg-gray-400" },
+  connecting: { label: "Connecting…", dot: "bg-amber-500" },
+  open: { label: "Connected", dot: "bg-green-600" },
+  reconnecting: { label: "Reconnecting…", dot: "bg-amber-500" },
+  closed: { label: "Disconnected", dot: "bg-gray-400" },
+};
+
+const DEFAULT_URL = "ws://localhost:9090";
+
+// The mock endpoint in server/index.ts, on whatever host serves this page
+const mockUrl = () => `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.host}/rosbridge`;
+
+/**
+ * Mirrors a live robot over rosbridge v2: joint states drive the joints and,
+ * optionally, /tf drives the base. Messages are coalesced to one update per
+ * animation frame, however fast the robot publishes.
+ */
+export default function LiveMirrorPanel({
+  baseFrame,
+  onJointState,
+  onBasePose,
+}: {
+  /** Frame whose /tf pose moves the robot (the URDF root link) */
+  baseFrame: string;
+  onJointState: (values: JointValues) => void;
+  /** Pose of baseFrame in the tf root, in ROS axes; null when not mirroring */
+  onBasePose: (pose: THREE.Matrix4 | null) => void;
+}) {
+  const [url, setUrl] = useState(DEFAULT_URL);
+  const [client, setClient] = useState<RosbridgeClient | null>(null);
+  const [status, setStatus] = useState<RosbridgeStatus>("idle");
+  const [detail, setDetail] = useState<string | undefined>();
+  const [topics, setTopics] = useState<{ topic: string; type: string }[]>([]);
+  const [jointTopic, setJointTopic] = useState("/joint_states");
+  const [tfTopic, setTfTopic] = useState("/tf");
+  const [followBase, setFollowBase] = useState(true);
+  const [rate, setRate] = useState(0);
+
+  const onJointStateRef = useRef(onJointState);
+  onJointStateRef.current = onJointState;
+  const onBasePoseRef = useRef(onBasePose);
+  onBasePoseRef.current = onBasePose;
+
+  const connect = (target: string) => {
+    client?.close();
+    const next = new RosbridgeClient(target, {
+      onStatus: (s, d) => {
+        setStatus(s);
+        setDetail(d);
+      },
+    });
+    setUrl(target);
+    setClient(next);
+    next.connect();
+  };
+
+  const disconnect = () => {
+    client?.close();
+    setClient(null);
+    setTopics([]);
+    onBasePoseRef.current(null);
+  };
+
+  useEffect(() => () => client?.close(), [client]);
+
+  // rosapi is optional; without it the pickers still take typed topic names
+  useEffect(() => {
+    if (!client || status !== "open") return;
+    let cancelled = false;
+    client
+      .listTopics()
+      .then((list) => !cancelled && setTopics(list))
+      .catch(() => !cancelled && setTopics([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, status]);
+
+  // Latest joint values, flushed once per frame
+  useEffect(() => {
+    if (!client || !jointTopic) return;
+    let pending: JointValues | null = null;
+    let count = 0;
+    let raf = 0;
+    const unsubscribe = client.subscribe(jointTopic, "sensor_msgs/JointState", (msg) => {
+      pending = { ...pending, ...jointStateValues(msg) };
+      count++;
+    });
+    const flush = () => {
+      if (pending) onJointStateRef.current(pending);
+      pending = null;
+      raf = requestAnimationFrame(flush);
+    };
+    raf = requestAnimationFrame(flush);
+    const meter = setInterval(() => {
+      setRate(count);
+      count = 0;
+    }, 1000);
+    return () => {
+      unsubscribe();
+      cancelAnimationFrame(raf);
+      clearInterval(meter);
+      setRate(0);
+    };
+  }, [client, jointTopic]);
+
+  useEffect(() => {
+    if (!client || !tfTopic || !followBase) return;
+    const buffer = new TfBuffer();
+    let dirty = false;
+    let raf = 0;
+    const unsubscribe = client.subscribe(tfTopic, "tf2_msgs/TFMessage", (msg) => {
+      buffer.update(msg);
+      dirty = true;
+    });
+    const flush = () => {
+      if (dirty) {
+        const pose = buffer.lookup(baseFrame);
+        if (pose) onBasePoseRef.current(pose);
+        dirty = false;
+      }
+      raf = requestAnimationFrame(flush);
+    };
+    raf = requestAnimationFrame(flush);
+    return () => {
+      unsubscribe();
+      cancelAnimationFrame(raf);
+      onBasePoseRef.current(null);
+    };
+  }, [client, tfTopic, followBase, baseFrame]);
+
+  const style = STATUS_STYLES[status];
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+  const topicsOfType = (suffix: string) => topics.filter((t) => t.type.endsWith(suffix)).map((t) => t.topic);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") connect(url);
+          }}
+          placeholder={DEFAULT_URL}
+          className="w-64 px-2 py-1.5 rounded border border-border bg-white"
+        />
+        {client ? (
+          <button className={button} onClick={disconnect}>
+            Disconnect
+          </button>
+        ) : (
+          <>
+            <button className={button} onClick={() => connect(url)} disabled={!url.trim()}>
+              Connect
+            </button>
+            <button className={button} onClick={() => connect(mockUrl())}>
+              Use mock server
+            </button>
+          </>
+        )}
+        <span className="flex items-center gap-2">
+          <span className={`size-2.5 rounded-full ${style.dot}`} />
+          {style.label}
+          {status === "open" && <span className="text-muted-foreground tabular-nums">· {rate} msg/s</span>}
+        </span>
+      </div>
+      {detail && status !== "open" && <p className="text-xs text-muted-foreground">{detail}</p>}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Joint states
+          <input
+            list="rosbridge-joint-topics"
+            value={jointTopic}
+            onChange={(e) => setJointTopic(e.target.value.trim())}
+            className="w-44 px-2 py-1 rounded border border-border bg-white"
+          />
+          <datalist id="rosbridge-joint-topics">
+            {topicsOfType("JointState").map((t) => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={followBase} onChange={(e) => setFollowBase(e.target.checked)} />
+          Move base from
+          <input
+            list="rosbridge-tf-topics"
+            value={tfTopic}
+            disabled={!followBase}
+            onChange={(e) => setTfTopic(e.target.value.trim())}
+            className="w-32 px-2 py-1 rounded border border-border bg-white disabled:opacity-50"
+          />
+          <datalist id="rosbridge-tf-topics">
+            {topicsOfType("TFMessage").map((t) => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Run <code>rosbridge_server</code> (and <code>rosapi</code> for the topic list) next to the robot. Without
+        hardware, start the site server with <code>MOCK_ROSBRIDGE=1</code> to replay a recorded log at{" "}
+        <code>/rosbridge</code>.
+      </p>
+    </div>
+  );
+}
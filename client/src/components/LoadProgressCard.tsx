@@ -0,0 +1,67 @@
+import { Progress } from "@/components/ui/progress";
+import { formatBytes, progressFraction, type LoadProgress } from "@/lib/loadProgress";
+
+/**
+ * Determinate loading status for a robot: a bar over files loaded, a byte
+ * count when the server reports one, and any failed assets by URL with a
+ * retry button. Callers position it (overlay, loading screen, ...).
+ */
+export default function LoadProgressCard({
+  label,
+  progress,
+  error,
+  onRetry,
+  className = "",
+}: {
+  label: string;
+  progress: LoadProgress;
+  /** The robot description itself failed; shown instead of the bar */
+  error?: string | null;
+  onRetry?: () => void;
+  className?: string;
+}) {
+  const percent = Math.round(progressFraction(progress) * 100);
+  const bytes =
+    progress.bytesLoaded > 0
+      ? progress.bytesTotal
+        ? `${formatBytes(progress.bytesLoaded)} of ${formatBytes(progress.bytesTotal)}`
+        : formatBytes(progress.bytesLoaded)
+      : null;
+
+  return (
+    <div className={`bg-white rounded-lg shadow border border-border p-4 w-80 max-w-full space-y-3 text-sm ${className}`}>
+      {error ? (
+        <p className="text-red-700">{error}</p>
+      ) : (
+        <>
+          <div className="flex items-baseline justify-between gap-3">
+            <span className="font-semibold text-foreground">{label}</span>
+            <span className="tabular-nums text-muted-foreground">{percent}%</span>
+          </div>
+          <Progress value={percent} aria-label={label} />
+          <p className="text-xs text-muted-foreground tabular-nums">
+            {progress.total > 0 ? `${progress.loaded} of ${progress.total} files` : "Starting…"}
+            {bytes && ` · ${bytes}`}
+          </p>
+        </>
+      )}
+      {progress.failed.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-red-700">
+            {progress.failed.length === 1 ? "1 file failed to load:" : `${progress.failed.length} files failed to load:`}
+          </p>
+          <ul className="max-h-28 overflow-y-auto text-xs text-muted-foreground font-mono break-all space-y-0.5">
+            {progress.failed.map((url, i) => (
+              <li key={i}>{url}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {onRetry && (error || progress.failed.length > 0) && (
+        <button className="px-3 py-2 rounded bg-white shadow text-sm border border-border" onClick={onRetry}>
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import type * as THREE from "three";
+import type { MapLayerSettings } from "@/components/OccupancyMapLayer";
+import {
+  loadOccupancyMap,
+  loadPath,
+  parseMapYaml,
+  parseOccupancyMap,
+  parsePath,
+  pathPoseMatrix,
+  pathStations,
+  samplePath,
+  type PlannedPath,
+} from "@/lib/occupancyMap";
+import type { MapSample } from "@/lib/robots";
+import { resolvePublic } from "@/lib/urdf";
+
+// Base speeds in m/s; Fetch tops out around 1 m/s
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+/**
+ * Picks an occupancy map and planned path (a robot sample or local map.yaml +
+ * PGM and path JSON files) and drives the robot base along the path.
+ */
+export default function MapNavigationPanel({
+  samples,
+  value,
+  onChange,
+  onBasePose,
+}: {
+  samples: MapSample[];
+  value: MapLayerSettings;
+  onChange: (value: MapLayerSettings) => void;
+  /** Base pose in the map frame (ROS axes); null puts the robot back at the origin */
+  onBasePose: (pose: THREE.Matrix4 | null) => void;
+}) {
+  const [source, setSource] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [distance, setDistance] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(0.5);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const { path } = value;
+  const stations = useMemo(() => (path ? pathStations(path) : [0]), [path]);
+  const length = stations[stations.length - 1];
+
+  // The rAF loop reads these without restarting on every change
+  const pathRef = useRef(path);
+  pathRef.current = path;
+  const stationsRef = useRef(stations);
+  stationsRef.current = stations;
+  const distanceRef = useRef(distance);
+  distanceRef.current = distance;
+  const onBasePoseRef = useRef(onBasePose);
+  onBasePoseRef.current = onBasePose;
+
+  const moveTo = (current: PlannedPath, at: number) => {
+    setDistance(at);
+    onBasePoseRef.current(pathPoseMatrix(samplePath(current, stationsRef.current, at)));
+  };
+  const moveToRef = useRef(moveTo);
+  moveToRef.current = moveTo;
+
+  useEffect(() => {
+    if (!playing || !pathRef.current) return;
+    let raf = 0;
+    const start = performance.now();
+    // Restarting from the goal drives the path again
+    const from = distanceRef.current >= length ? 0 : distanceRef.current;
+    const tick = (now: number) => {
+      const current = pathRef.current;
+      if (!current) return;
+      const d = Math.min(from + ((now - start) / 1000) * speed, length);
+      moveToRef.current(current, d);
+      if (d >= length) {
+        setPlaying(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, speed, length]);
+
+  // A new path starts with the robot on its first pose
+  useEffect(() => {
+    setPlaying(false);
+    setDistance(0);
+    onBasePoseRef.current(path ? pathPoseMatrix(path.poses[0]) : null);
+  }, [path]);
+
+  useEffect(() => () => onBasePoseRef.current(null), []);
+
+  const loadSample = async (name: string) => {
+    setSource(name);
+    const sample = samples.find((s) => s.name === name);
+    if (!sample) {
+      onChange({ ...value, grid: null, path: null });
+      return;
+    }
+    setLoading(true);
+    try {
+      const [grid, plannedPath] = await Promise.all([
+        loadOccupancyMap(resolvePublic(sample.map)),
+        sample.path ? loadPath(resolvePublic(sample.path)) : null,
+      ]);
+      onChange({ ...value, grid, path: plannedPath });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load map");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A map needs its yaml and image picked together; a path JSON can come alone
+  const loadFiles = async (files: File[]) => {
+    const byExt = (...exts: string[]) => files.filter((f) => exts.includes(f.name.split(".").pop()?.toLowerCase() ?? ""));
+    const [yamlFile] = byExt("yaml", "yml");
+    const images = byExt("pgm");
+    const [pathFile] = byExt("json");
+    try {
+      const next = { ...value };
+      if (yamlFile) {
+        const yaml = await yamlFile.text();
+        const imageName = parseMapYaml(yaml).image.replace(/^.*\//, "");
+        const image = images.find((f) => f.name === imageName) ?? (images.length === 1 ? images[0] : undefined);
+        if (!image) throw new Error(`Select ${imageName} together with ${yamlFile.name}`);
+        next.grid = parseOccupancyMap(yaml, await image.arrayBuffer(), yamlFile.name.replace(/\.ya?ml$/i, ""));
+      } else if (images.length) {
+        throw new Error("Select the map.yaml together with its image");
+      }
+      if (pathFile) next.path = parsePath(await pathFile.text(), pathFile.name);
+      if (!yamlFile && !pathFile) throw new Error("Expected a map.yaml + PGM pair or a path JSON file");
+      setSource("file");
+      onChange(next);
+      const parts = [
+        yamlFile && next.grid && `${next.grid.width}×${next.grid.height} map`,
+        pathFile && next.path && `${next.path.poses.length}-pose path`,
+      ].filter(Boolean);
+      toast.success(`Loaded ${parts.join(" and ")}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load map files");
+    }
+  };
+
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+  const { grid } = value;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={source}
+          onChange={(e) => loadSample(e.target.value)}
+          disabled={loading}
+          className="px-2 py-1.5 rounded border border-border bg-white"
+        >
+          <option value="">No map</option>
+          {samples.map((s) => (
+            <option key={s.name} value={s.name}>
+              {s.name}
+            </option>
+          ))}
+          {source === "file" && <option value="file">{grid?.name ?? path?.name ?? "Local files"}</option>}
+        </select>
+        <button className={button} onClick={() => fileRef.current?.click()}>
+          Load map / path…
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          accept=".yaml,.yml,.pgm,.json"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length) loadFiles(files);
+            e.target.value = "";
+          }}
+        />
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value.walls}
+            disabled={!grid}
+            onChange={(e) => onChange({ ...value, walls: e.target.checked })}
+          />
+          3D walls
+        </label>
+        {loading && <span className="text-muted-foreground">Loading…</span>}
+        {grid && (
+          <span className="text-muted-foreground">
+            {grid.width}×{grid.height} cells · {grid.resolution} m/cell
+          </span>
+        )}
+      </div>
+
+      {path && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <button className={button} onClick={() => setPlaying((p) => !p)}>
+            {playing ? "Pause" : distance >= length ? "Drive again" : "Drive path"}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={length}
+            step={0.01}
+            value={distance}
+            onChange={(e) => {
+              setPlaying(false);
+              moveTo(path, parseFloat(e.target.value));
+            }}
+            className="w-64"
+          />
+          <span className="tabular-nums text-muted-foreground">
+            {distance.toFixed(2)} / {length.toFixed(2)} m
+          </span>
+          <label className="flex items-center gap-2">
+            Speed
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(parseFloat(e.target.value))}
+              className="px-2 py-1 rounded border border-border bg-white"
+            >
+              {SPEEDS.map((s) => (
+                <option key={s} value={s}>
+                  {s} m/s
+                </option>
+              ))}
+            </select>
+          </label>
+          {path.frame && path.frame !== "map" && (
+            <span className="text-amber-700">Path is in "{path.frame}"; drawn as if it were the map frame</span>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Pick a map.yaml and its PGM image together (as written by <code>map_saver</code>), and optionally a{" "}
+        <code>nav_msgs/Path</code>, <code>PoseArray</code> or <code>[x, y, yaw]</code> waypoint JSON.
+      </p>
+    </div>
+  );
+}
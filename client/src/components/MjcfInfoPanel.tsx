@@ -0,0 +1,110 @@
+import * as THREE from "three";
+import { mjcfBodies, type MjcfModel } from "@/lib/mjcf";
+
+const fmt = (v: number | null | undefined, digits = 3) =>
+  v === null || v === undefined ? "—" : Number(v.toFixed(digits)).toString();
+
+const fmtRange = (r: [number, number] | null, deg = false) =>
+  r ? `${fmt(deg ? THREE.MathUtils.radToDeg(r[0]) : r[0], deg ? 1 : 3)} … ${fmt(deg ? THREE.MathUtils.radToDeg(r[1]) : r[1], deg ? 1 : 3)}` : "—";
+
+/**
+ * What the MJCF says beyond kinematics: actuators with their gains and
+ * limits, per-joint dynamics, and the default classes they came from.
+ */
+export default function MjcfInfoPanel({ model }: { model: MjcfModel }) {
+  const joints = mjcfBodies(model).flatMap((b) => b.joints);
+  const classes = Object.entries(model.defaults).filter(([, c]) => Object.keys(c.attrs).length > 0);
+  const cell = "px-2 py-1 text-left";
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h3 className="font-medium mb-1">Actuators</h3>
+        {model.actuators.length === 0 ? (
+          <p className="text-muted-foreground">No actuators defined.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full tabular-nums">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className={cell}>Name</th>
+                  <th className={cell}>Type</th>
+                  <th className={cell}>Joint</th>
+                  <th className={cell}>Class</th>
+                  <th className={cell}>kp</th>
+                  <th className={cell}>Ctrl range (°)</th>
+                  <th className={cell}>Force range (N·m)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {model.actuators.map((a) => (
+                  <tr key={a.name} className="border-t border-border">
+                    <td className={cell}>{a.name}</td>
+                    <td className={cell}>{a.type}</td>
+                    <td className={cell}>{a.joint}</td>
+                    <td className={cell}>{a.className}</td>
+                    <td className={cell}>{fmt(a.kp)}</td>
+                    <td className={cell}>{fmtRange(a.ctrlrange, true)}</td>
+                    <td className={cell}>{fmtRange(a.forcerange)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium mb-1">Joint dynamics</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full tabular-nums">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className={cell}>Joint</th>
+                <th className={cell}>Class</th>
+                <th className={cell}>Range (°)</th>
+                <th className={cell}>Damping</th>
+                <th className={cell}>Friction loss</th>
+                <th className={cell}>Armature</th>
+              </tr>
+            </thead>
+            <tbody>
+              {joints.map((j) => (
+                <tr key={j.name} className="border-t border-border">
+                  <td className={cell}>{j.name}</td>
+                  <td className={cell}>{j.className}</td>
+                  <td className={cell}>{fmtRange(j.range, j.type === "hinge")}</td>
+                  <td className={cell}>{fmt(j.damping)}</td>
+                  <td className={cell}>{fmt(j.frictionloss)}</td>
+                  <td className={cell}>{fmt(j.armature)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-medium mb-1">Default classes</h3>
+        <ul className="space-y-1">
+          {classes.map(([name, c]) => (
+            <li key={name}>
+              <span className="font-mono">{name}</span>
+              {c.parent && <span className="text-muted-foreground"> ← {c.parent}</span>}
+              <span className="text-muted-foreground">
+                {": "}
+                {Object.entries(c.attrs)
+                  .map(([tag, attrs]) =>
+                    `${tag} ${Object.entries(attrs)
+                      .map(([k, v]) => `${k}=${v}`)
+                      .join(" ")}`
+                  )
+                  .join("; ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
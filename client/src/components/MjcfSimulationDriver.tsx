@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import type { URDFRobot } from "urdf-loader";
+import type { MjcfModel } from "@/lib/mjcf";
+import { MjcfSimulation } from "@/lib/mjcfSim";
+import { applyJointValues, readJointValues, type JointValues } from "@/lib/urdf";
+
+/**
+ * Steps an MjcfSimulation in real time while mounted and writes the
+ * simulated pose onto the robot. `targets` go to the position actuators;
+ * the simulation starts from whatever pose the robot shows on mount, and
+ * actuators without a target hold that pose rather than heading for zero.
+ */
+export default function MjcfSimulationDriver({
+  model,
+  robot,
+  targets,
+  motorsEnabled = true,
+}: {
+  model: MjcfModel;
+  robot: URDFRobot;
+  targets: JointValues;
+  motorsEnabled?: boolean;
+}) {
+  const simRef = useRef<MjcfSimulation | null>(null);
+
+  useEffect(() => {
+    const sim = new MjcfSimulation(model);
+    const start = readJointValues(robot);
+    sim.setState(start);
+    // The targets effect below then applies the caller's targets over these
+    sim.setTargets(start);
+    simRef.current = sim;
+    return () => {
+      simRef.current = null;
+    };
+  }, [model, robot]);
+
+  useEffect(() => {
+    simRef.current?.setTargets(targets);
+  }, [targets, model, robot]);
+
+  useEffect(() => {
+    if (simRef.current) simRef.current.motorsEnabled = motorsEnabled;
+  }, [motorsEnabled, model, robot]);
+
+  useFrame((_, delta) => {
+    const sim = simRef.current;
+    if (!sim) return;
+    if (sim.advance(delta) > 0) applyJointValues(robot, sim.pose());
+  });
+
+  return null;
+}
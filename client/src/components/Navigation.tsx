@@ -58,6 +58,18 @@ export default function Navigation() {
             >
               Fetch Demo
             </Link>
+            <Link
+              href="/pose-lab"
+              className={`nav-link ${isActive("/pose-lab") ? "active" : ""}`}
+            >
+              Pose Lab
+            </Link>
+            <Link
+              href="/planner"
+              className={`nav-link ${isActive("/planner") ? "active" : ""}`}
+            >
+              Path Planner
+            </Link>
           </div>
         </div>
       </div>
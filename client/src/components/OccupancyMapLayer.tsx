@@ -0,0 +1,89 @@
+import { useEffect, useMemo } from "react";
+import { Line } from "@react-three/drei";
+import * as THREE from "three";
+import { occupancyTexture, occupiedRuns, type OccupancyGrid, type PlannedPath } from "@/lib/occupancyMap";
+import type { UpAxis } from "@/lib/urdf";
+
+export type MapLayerSettings = {
+  grid: OccupancyGrid | null;
+  path: PlannedPath | null;
+  /** Extrude occupied cells into walls */
+  walls: boolean;
+};
+
+const WALL_HEIGHT = 0.35;
+const WALL_COLOR = "#64748b";
+const PATH_COLOR = "#2563eb";
+// Just under the robot's wheels, clear of the contact shadows
+const FLOOR_Z = -0.02;
+
+function Walls({ grid }: { grid: OccupancyGrid }) {
+  const runs = useMemo(() => occupiedRuns(grid), [grid]);
+  const mesh = useMemo(() => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    const material = new THREE.MeshStandardMaterial({ color: WALL_COLOR, roughness: 0.8 });
+    const instanced = new THREE.InstancedMesh(geometry, material, runs.length);
+    const matrix = new THREE.Matrix4();
+    const r = grid.resolution;
+    runs.forEach(({ row, col, length }, i) => {
+      matrix.makeScale(length * r, r, WALL_HEIGHT).setPosition((col + length / 2) * r, (row + 0.5) * r, FLOOR_Z + WALL_HEIGHT / 2);
+      instanced.setMatrixAt(i, matrix);
+    });
+    instanced.castShadow = true;
+    return instanced;
+  }, [grid, runs]);
+
+  useEffect(
+    () => () => {
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+      mesh.dispose();
+    },
+    [mesh]
+  );
+
+  return <primitive object={mesh} />;
+}
+
+/**
+ * A map_server occupancy grid laid on the floor, with an optional planned
+ * path. Children are in the map frame with ROS axes; the map origin is the
+ * scene origin, where the robot starts.
+ */
+export default function OccupancyMapLayer({ settings, upAxis }: { settings: MapLayerSettings; upAxis: UpAxis }) {
+  const { grid, path, walls } = settings;
+  const texture = useMemo(() => (grid ? occupancyTexture(grid) : null), [grid]);
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  const points = useMemo(
+    () => path?.poses.map((p) => [p.x, p.y, FLOOR_Z + 0.01] as [number, number, number]) ?? [],
+    [path]
+  );
+
+  const goal = path?.poses[path.poses.length - 1];
+
+  return (
+    <group rotation={upAxis === "z" ? [-Math.PI / 2, 0, 0] : [0, 0, 0]}>
+      {grid && texture && (
+        // Origin is the pose of the grid's lower-left corner
+        <group position={[grid.origin[0], grid.origin[1], 0]} rotation={[0, 0, grid.origin[2]]}>
+          <mesh
+            position={[(grid.width * grid.resolution) / 2, (grid.height * grid.resolution) / 2, FLOOR_Z]}
+            receiveShadow
+          >
+            <planeGeometry args={[grid.width * grid.resolution, grid.height * grid.resolution]} />
+            <meshStandardMaterial map={texture} roughness={0.95} metalness={0} />
+          </mesh>
+          {walls && <Walls grid={grid} />}
+        </group>
+      )}
+      {points.length > 1 && <Line points={points} color={PATH_COLOR} lineWidth={3} />}
+      {goal && (
+        <mesh position={[goal.x, goal.y, FLOOR_Z + 0.01]} rotation={[Math.PI / 2, 0, 0]}>
+          <cylinderGeometry args={[0.12, 0.12, 0.01, 32]} />
+          <meshBasicMaterial color={PATH_COLOR} transparent opacity={0.5} />
+        </mesh>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Canvas } from "@react-three/fiber";
+import { OrbitControls, Environment } from "@react-three/drei";
+import type * as THREE from "three";
+import OccupancyMapLayer from "@/components/OccupancyMapLayer";
+import UrdfRobot from "@/components/UrdfRobot";
+import {
+  faceAlongPath,
+  pathPoseMatrix,
+  pathStations,
+  samplePath,
+  type OccupancyGrid,
+  type PlannedPath,
+} from "@/lib/occupancyMap";
+import type { GridPoint, PlanningGrid } from "@/lib/planners";
+import { getRobot, resolveRobotAssets } from "@/lib/robots";
+import { placeInRosFrame } from "@/lib/urdf";
+
+const fetchRobot = getRobot("fetch")!;
+const DRIVE_SPEED = 0.5; // m/s
+
+/**
+ * The planner grid as a map under Fetch, with the planned path driven by the
+ * base. The grid is centred on the scene origin; the planner treats the robot
+ * as a point, so tight gaps can look tighter in 3D than on the grid.
+ */
+export default function PlannerFetchScene({
+  grid,
+  path,
+  cellSize,
+}: {
+  grid: PlanningGrid;
+  /** Planner path in cells; empty when nothing has been found */
+  path: GridPoint[];
+  /** Metres per cell */
+  cellSize: number;
+}) {
+  const assets = useMemo(() => resolveRobotAssets(fetchRobot), []);
+  const baseRef = useRef<THREE.Group>(null);
+  const [distance, setDistance] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const origin = useMemo(
+    (): [number, number, number] => [(-grid.width * cellSize) / 2, (-grid.height * cellSize) / 2, 0],
+    [grid, cellSize]
+  );
+  const map: OccupancyGrid = useMemo(
+    () => ({
+      name: "planner",
+      width: grid.width,
+      height: grid.height,
+      resolution: cellSize,
+      origin,
+      data: Int8Array.from(grid.blocked, (b) => (b ? 100 : 0)),
+    }),
+    [grid, cellSize, origin]
+  );
+  const planned: PlannedPath | null = useMemo(
+    () =>
+      path.length > 1
+        ? {
+            name: "plan",
+            poses: faceAlongPath(path.map((p) => ({ x: origin[0] + p.x * cellSize, y: origin[1] + p.y * cellSize }))),
+          }
+        : null,
+    [path, cellSize, origin]
+  );
+  const stations = useMemo(() => (planned ? pathStations(planned) : [0]), [planned]);
+  const length = stations[stations.length - 1];
+
+  const place = (at: number) => {
+    setDistance(at);
+    if (!baseRef.current) return;
+    placeInRosFrame(baseRef.current, planned ? pathPoseMatrix(samplePath(planned, stations, at)) : null, fetchRobot.upAxis);
+  };
+  const placeRef = useRef(place);
+  placeRef.current = place;
+  const distanceRef = useRef(distance);
+  distanceRef.current = distance;
+
+  // A new plan parks the robot on its start
+  useEffect(() => {
+    setPlaying(false);
+    placeRef.current(0);
+  }, [planned]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    const begin = performance.now();
+    const from = distanceRef.current >= length ? 0 : distanceRef.current;
+    const tick = (now: number) => {
+      const d = Math.min(from + ((now - begin) / 1000) * DRIVE_SPEED, length);
+      placeRef.current(d);
+      if (d >= length) {
+        setPlaying(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, length]);
+
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+
+  return (
+    <div className="space-y-3">
+      <div className="relative h-[420px] rounded-lg border border-border overflow-hidden">
+        <Canvas shadows camera={{ position: [0, 6, 6], fov: 45, near: 0.01, far: 100 }}>
+          <color attach="background" args={["#ffffff"]} />
+          <ambientLight intensity={0.35} color={0xffffff} />
+          <directionalLight position={[6, 10, 6]} intensity={1.1} color={0xffffff} castShadow />
+          <directionalLight position={[-5, 5, -5]} intensity={0.5} color={0xffffff} />
+          <Environment preset="studio" background={false} blur={0.3} />
+          <OccupancyMapLayer settings={{ grid: map, path: planned, walls: true }} upAxis={fetchRobot.upAxis} />
+          <group ref={baseRef}>
+            <UrdfRobot
+              url={assets.url}
+              packages={assets.packages}
+              upAxis={fetchRobot.upAxis}
+              pose={fetchRobot.defaultPose}
+              onLoad={() => placeRef.current(distanceRef.current)}
+            />
+          </group>
+          <OrbitControls makeDefault target={[0, 0, 0]} enableDamping dampingFactor={0.1} maxPolarAngle={Math.PI * 0.48} />
+        </Canvas>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button className={button} onClick={() => setPlaying((p) => !p)} disabled={!planned}>
+          {playing ? "Pause" : distance >= length && planned ? "Drive again" : "Drive Fetch"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={length}
+          step={0.01}
+          value={distance}
+          disabled={!planned}
+          onChange={(e) => {
+            setPlaying(false);
+            place(parseFloat(e.target.value));
+          }}
+          className="w-64"
+        />
+        <span className="tabular-nums text-muted-foreground">
+          {planned ? `${distance.toFixed(2)} / ${length.toFixed(2)} m` : "Plan a path to drive it"}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef } from "react";
+import {
+  CELL_EXPANDED,
+  CELL_FRONTIER,
+  GridSearchPlanner,
+  RrtPlanner,
+  type GridPoint,
+  type Planner,
+  type PlanningGrid,
+} from "@/lib/planners";
+
+export type GridTool = "wall" | "erase" | "start" | "goal";
+
+const CELL_PX = 16;
+const COLORS = {
+  free: "#ffffff",
+  wall: "#334155",
+  frontier: "#bfdbfe",
+  expanded: "#fde68a",
+  gridLine: "#e5e7eb",
+  tree: "#94a3b8",
+  path: "#2563eb",
+  start: "#16a34a",
+  goal: "#dc2626",
+};
+
+/**
+ * Obstacle grid editor that also draws a planner's progress: expanded and
+ * frontier cells for grid search, the tree for RRT/RRT*, and the best path.
+ * Grid y runs up, so row 0 is drawn at the bottom.
+ */
+export default function PlannerGridCanvas({
+  grid,
+  start,
+  goal,
+  planner,
+  frame,
+  tool,
+  onPaint,
+  onPlace,
+}: {
+  grid: PlanningGrid;
+  start: GridPoint;
+  goal: GridPoint;
+  planner: Planner | null;
+  /** Bumped by the caller whenever the planner has stepped, to trigger a redraw */
+  frame: number;
+  tool: GridTool;
+  onPaint: (cell: GridPoint, blocked: boolean) => void;
+  onPlace: (which: "start" | "goal", cell: GridPoint) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const painting = useRef(false);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const { width, height } = grid;
+    const toPx = (p: GridPoint) => [p.x * CELL_PX, (height - p.y) * CELL_PX] as const;
+    const fillCell = (x: number, y: number, color: string) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(x * CELL_PX, (height - 1 - y) * CELL_PX, CELL_PX, CELL_PX);
+    };
+
+    ctx.fillStyle = COLORS.free;
+    ctx.fillRect(0, 0, width * CELL_PX, height * CELL_PX);
+    const searched = planner instanceof GridSearchPlanner ? planner.cellState : null;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (grid.blocked[i]) fillCell(x, y, COLORS.wall);
+        else if (searched?.[i] === CELL_EXPANDED) fillCell(x, y, COLORS.expanded);
+        else if (searched?.[i] === CELL_FRONTIER) fillCell(x, y, COLORS.frontier);
+      }
+    }
+
+    ctx.strokeStyle = COLORS.gridLine;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 0; x <= width; x++) {
+      ctx.moveTo(x * CELL_PX + 0.5, 0);
+      ctx.lineTo(x * CELL_PX + 0.5, height * CELL_PX);
+    }
+    for (let y = 0; y <= height; y++) {
+      ctx.moveTo(0, y * CELL_PX + 0.5);
+      ctx.lineTo(width * CELL_PX, y * CELL_PX + 0.5);
+    }
+    ctx.stroke();
+
+    if (planner instanceof RrtPlanner) {
+      ctx.strokeStyle = COLORS.tree;
+      ctx.beginPath();
+      planner.nodes.forEach((node) => {
+        if (node.parent < 0) return;
+        ctx.moveTo(...toPx(planner.nodes[node.parent]));
+        ctx.lineTo(...toPx(node));
+      });
+      ctx.stroke();
+    }
+
+    const path = planner?.result().path ?? [];
+    if (path.length > 1) {
+      ctx.strokeStyle = COLORS.path;
+      ctx.lineWidth = 3;
+      ctx.lineJoin = "round";
+      ctx.beginPath();
+      ctx.moveTo(...toPx(path[0]));
+      path.slice(1).forEach((p) => ctx.lineTo(...toPx(p)));
+      ctx.stroke();
+    }
+
+    const marker = (cell: GridPoint, color: string) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(...toPx({ x: cell.x + 0.5, y: cell.y + 0.5 }), CELL_PX * 0.4, 0, Math.PI * 2);
+      ctx.fill();
+    };
+    marker(start, COLORS.start);
+    marker(goal, COLORS.goal);
+  }, [grid, start, goal, planner, frame]);
+
+  const cellAt = (e: React.PointerEvent<HTMLCanvasElement>): GridPoint | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * grid.width);
+    const y = grid.height - 1 - Math.floor(((e.clientY - rect.top) / rect.height) * grid.height);
+    return x >= 0 && y >= 0 && x < grid.width && y < grid.height ? { x, y } : null;
+  };
+
+  const apply = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cell = cellAt(e);
+    if (!cell) return;
+    if (tool === "start" || tool === "goal") onPlace(tool, cell);
+    else onPaint(cell, tool === "wall");
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={grid.width * CELL_PX}
+      height={grid.height * CELL_PX}
+      className="w-full max-w-[640px] h-auto rounded border border-border touch-none cursor-crosshair"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        painting.current = tool === "wall" || tool === "erase";
+        apply(e);
+      }}
+      onPointerMove={(e) => {
+        if (painting.current) apply(e);
+      }}
+      onPointerUp={() => (painting.current = false)}
+      onPointerCancel={() => (painting.current = false)}
+    />
+  );
+}
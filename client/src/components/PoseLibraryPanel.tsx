@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  encodePose,
+  loadPoseLibrary,
+  parsePoseLibrary,
+  savePoseLibrary,
+  serializePoseLibrary,
+  upsertPose,
+  type SavedPose,
+} from "@/lib/poses";
+import { downloadBlob } from "@/lib/sceneExport";
+import type { JointValues } from "@/lib/urdf";
+
+/** Shareable link to the current page with the pose in `?pose=`. */
+export function poseShareUrl(values: JointValues, order: string[]) {
+  const url = new URL(window.location.href);
+  url.searchParams.set("pose", encodePose(values, order));
+  return url.toString();
+}
+
+/**
+ * Named poses for one robot, persisted to localStorage: save the current
+ * joint values, step through or apply saved ones, round-trip the library as
+ * JSON, and copy a `?pose=` link for any pose.
+ */
+export default function PoseLibraryPanel({
+  robotId,
+  jointOrder,
+  currentPose,
+  onApply,
+}: {
+  robotId: string;
+  /** Joint order for URL encoding; must match between sender and receiver */
+  jointOrder: string[];
+  currentPose: JointValues;
+  onApply: (values: JointValues) => void;
+}) {
+  const [poses, setPoses] = useState<SavedPose[]>(() => loadPoseLibrary(robotId));
+  const [name, setName] = useState("");
+  const [active, setActive] = useState<number | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    savePoseLibrary(robotId, poses);
+  }, [robotId, poses]);
+
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+
+  const savePose = () => {
+    const trimmed = name.trim() || `Pose ${poses.length + 1}`;
+    const next = upsertPose(poses, { name: trimmed, joints: { ...currentPose }, savedAt: Date.now() });
+    setPoses(next);
+    setActive(next.findIndex((p) => p.name === trimmed));
+    setName("");
+  };
+
+  const applyPose = (index: number) => {
+    const pose = poses[index];
+    if (!pose) return;
+    setActive(index);
+    onApply(pose.joints);
+  };
+
+  const step = (delta: number) => {
+    if (!poses.length) return;
+    const from = active ?? (delta > 0 ? -1 : 0);
+    applyPose((from + delta + poses.length) % poses.length);
+  };
+
+  const copyLink = async (values: JointValues) => {
+    const url = poseShareUrl(values, jointOrder);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Pose link copied to clipboard");
+    } catch {
+      toast.message("Copy this link", { description: url });
+    }
+  };
+
+  const exportPoses = () => {
+    const blob = new Blob([serializePoseLibrary(robotId, poses)], { type: "application/json" });
+    downloadBlob(blob, `${robotId}-poses.json`);
+  };
+
+  const importPoses = async (file: File) => {
+    try {
+      const imported = parsePoseLibrary(await file.text(), robotId);
+      setPoses((prev) => imported.reduce(upsertPose, prev));
+      toast.success(`Imported ${imported.length} pose${imported.length === 1 ? "" : "s"}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not import poses");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          placeholder="Pose name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") savePose();
+          }}
+          className="px-2 py-1.5 rounded border border-border bg-white text-sm"
+        />
+        <button className={button} onClick={savePose}>
+          Save current pose
+        </button>
+        <button className={button} onClick={() => copyLink(currentPose)}>
+          Copy link to current pose
+        </button>
+        <span className="flex-1" />
+        <button className={button} onClick={() => step(-1)} disabled={!poses.length}>
+          ← Previous
+        </button>
+        <button className={button} onClick={() => step(1)} disabled={!poses.length}>
+          Next →
+        </button>
+      </div>
+
+      {poses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved poses yet. Pose the robot, name it and save.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded border border-border bg-white text-sm">
+          {poses.map((pose, i) => (
+            <li key={pose.name} className={`flex items-center gap-2 px-3 py-2 ${i === active ? "bg-muted" : ""}`}>
+              <button className="flex-1 text-left font-medium" onClick={() => applyPose(i)}>
+                {pose.name}
+              </button>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {Object.keys(pose.joints).length} joints · {new Date(pose.savedAt).toLocaleDateString()}
+              </span>
+              <button className="text-xs underline" onClick={() => copyLink(pose.joints)}>
+                Link
+              </button>
+              <button
+                className="text-xs text-red-700 underline"
+                onClick={() => {
+                  setPoses((prev) => prev.filter((_, j) => j !== i));
+                  setActive(null);
+                }}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button className={button} onClick={exportPoses} disabled={!poses.length}>
+          Export JSON
+        </button>
+        <button className={button} onClick={() => fileRef.current?.click()}>
+          Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importPoses(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import { Html } from "@react-three/drei/web/Html";
 import { useGLTF } from "@react-three/drei/core/useGLTF";
 import * as THREE from "three";
 import { ACESFilmicToneMapping, SRGBColorSpace } from "three";
+import CameraBookmarkBar from "@/components/CameraBookmarkBar";
+import CameraRig from "@/components/CameraRig";
+import { STANDARD_BOOKMARKS, type CameraController } from "@/lib/cameraController";
 
 type Props = {
   modelPath?: string;
@@ -150,9 +153,12 @@ export default function RobotFiberViewer({
   interactive = false,
 }: Props) {
   const style = useMemo(() => ({ height }), [height]);
+  const cameraRef = useRef<CameraController | null>(null);
+  // Bookmarks frame the model, not the lights and environment around it
+  const [model, setModel] = useState<THREE.Group | null>(null);
 
   return (
-    <div className="w-full rounded-lg border border-border bg-card overflow-hidden" style={style}>
+    <div className="relative w-full rounded-lg border border-border bg-card overflow-hidden" style={style}>
       <Canvas
         dpr={[1, 2]}
         gl={{ antialias: true, powerPreference: "high-performance", alpha: false }}
@@ -182,12 +188,14 @@ export default function RobotFiberViewer({
             </Html>
           }
         >
-          <Center top>
+          <Center top ref={setModel}>
             <GLBModel url={modelPath} autoRotate={autoRotate} interactive={interactive} />
           </Center>
-          <OrbitControls enableDamping dampingFactor={0.06} minDistance={0.6} maxDistance={10} />
+          <OrbitControls makeDefault enableDamping dampingFactor={0.06} minDistance={0.6} maxDistance={10} />
+          <CameraRig controllerRef={cameraRef} subject={model} />
         </Suspense>
       </Canvas>
+      <CameraBookmarkBar controllerRef={cameraRef} bookmarks={STANDARD_BOOKMARKS} className="absolute left-3 top-3" />
     </div>
   );
 }
@@ -8,6 +8,9 @@ import { useGLTF } from "@react-three/drei/core/useGLTF";
 import { Box } from "@react-three/drei/core/shapes";
 import * as THREE from "three";
 import { ACESFilmicToneMapping, SRGBColorSpace } from "three";
+import CameraBookmarkBar from "@/components/CameraBookmarkBar";
+import CameraRig from "@/components/CameraRig";
+import { STANDARD_BOOKMARKS, type CameraController } from "@/lib/cameraController";
 
 /** Describe a joint we can rotate */
 type Joint = {
@@ -158,10 +161,13 @@ export default function RobotViewer({
   height?: string | number;
 }) {
   const style = useMemo(() => ({ height }), [height]);
+  const cameraRef = useRef<CameraController | null>(null);
+  // Bookmarks frame the model, not the lights and environment around it
+  const [model, setModel] = useState<THREE.Group | null>(null);
 
   return (
     <div
-      className="w-full rounded-lg border border-border bg-card overflow-hidden"
+      className="relative w-full rounded-lg border border-border bg-card overflow-hidden"
       style={style}
     >
       <Canvas
@@ -195,15 +201,17 @@ export default function RobotViewer({
           }
         >
           {/* Center keeps the model framed nicely */}
-          <Center top>
+          <Center top ref={setModel}>
             <RobotModel url={modelPath} />
           </Center>
 
           {/* nice studio image-based lighting */}
           <Environment preset="studio" />
-          <OrbitControls enableDamping dampingFactor={0.06} minDistance={0.6} maxDistance={10} />
+          <OrbitControls makeDefault enableDamping dampingFactor={0.06} minDistance={0.6} maxDistance={10} />
+          <CameraRig controllerRef={cameraRef} subject={model} />
         </Suspense>
       </Canvas>
+      <CameraBookmarkBar controllerRef={cameraRef} bookmarks={STANDARD_BOOKMARKS} className="absolute left-3 top-3" />
     </div>
   );
 }
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+import { useThree } from "@react-three/fiber";
+import { toast } from "sonner";
+import * as THREE from "three";
+import type { URDFRobot } from "urdf-loader";
+import { clipDuration, sampleClip, type Clip } from "@/lib/clips";
+import {
+  captureImage,
+  downloadBlob,
+  recordWebm,
+  turntable,
+  webmMimeType,
+  type SceneHandle,
+} from "@/lib/sceneExport";
+import { applyJointValues, type JointValues } from "@/lib/urdf";
+
+/** Mount inside a <Canvas> to expose its renderer, scene, camera and controls to SceneExportPanel. */
+export function SceneExportBridge({ handleRef }: { handleRef: React.MutableRefObject<SceneHandle | null> }) {
+  const gl = useThree((s) => s.gl);
+  const scene = useThree((s) => s.scene);
+  const camera = useThree((s) => s.camera);
+  const controls = useThree((s) => s.controls) as SceneHandle["controls"];
+
+  useEffect(() => {
+    handleRef.current = { gl, scene, camera, controls };
+    return () => {
+      handleRef.current = null;
+    };
+  }, [handleRef, gl, scene, camera, controls]);
+
+  return null;
+}
+
+const SCALES = [1, 2, 4];
+const FRAME_RATES = [30, 60];
+
+type VideoMode = "turntable" | "clip";
+
+/**
+ * Stills and short clips of the scene for slides and papers: a supersampled
+ * PNG (optionally transparent) and a WebM turntable or clip recording.
+ */
+export default function SceneExportPanel({
+  handleRef,
+  fileName,
+  robot,
+  pose,
+  clip,
+}: {
+  handleRef: React.MutableRefObject<SceneHandle | null>;
+  /** Download name without extension */
+  fileName: string;
+  /** Needed to record a clip; the clip is applied to it directly, frame by frame */
+  robot?: URDFRobot | null;
+  /** Pose to put back after recording a clip */
+  pose?: JointValues;
+  /** Clip offered as "Current clip" */
+  clip?: Clip | null;
+}) {
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [mode, setMode] = useState<VideoMode>("turntable");
+  const [turntableSeconds, setTurntableSeconds] = useState(8);
+  const [fps, setFps] = useState(30);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const canRecord = webmMimeType() !== null;
+  const clipPlayable = !!robot && !!clip && clip.frames.length >= 2 && clipDuration(clip) > 0;
+  const videoMode: VideoMode = mode === "clip" && !clipPlayable ? "turntable" : mode;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const saveImage = async () => {
+    const handle = handleRef.current;
+    if (!handle) return;
+    setBusy(true);
+    try {
+      const blob = await captureImage(handle, { scale, transparent });
+      downloadBlob(blob, `${fileName}.png`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not save the image");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const recordVideo = async () => {
+    const handle = handleRef.current;
+    if (!handle) return;
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setBusy(true);
+    setProgress(0);
+
+    const { camera, controls } = handle;
+    const cameraPosition = camera.position.clone();
+    const cameraQuaternion = camera.quaternion.clone();
+    const controlsEnabled = controls?.enabled;
+    if (controls) controls.enabled = false;
+
+    let duration: number;
+    let update: (t: number) => void;
+    if (videoMode === "clip" && clip && robot) {
+      duration = clipDuration(clip);
+      update = (t) => applyJointValues(robot, sampleClip(clip, Math.min(t, duration)));
+    } else {
+      duration = turntableSeconds;
+      update = turntable(camera, controls?.target ?? new THREE.Vector3(), duration);
+    }
+
+    try {
+      const blob = await recordWebm(handle, { duration, fps, update, onProgress: setProgress, signal: abort.signal });
+      downloadBlob(blob, `${fileName}-${videoMode}.webm`);
+    } catch (err) {
+      if (!abort.signal.aborted) toast.error(err instanceof Error ? err.message : "Could not record the video");
+    } finally {
+      camera.position.copy(cameraPosition);
+      camera.quaternion.copy(cameraQuaternion);
+      if (controls) {
+        controls.enabled = controlsEnabled;
+        controls.update?.();
+      }
+      if (robot && pose) applyJointValues(robot, pose);
+      abortRef.current = null;
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button className={button} onClick={saveImage} disabled={busy}>
+          Save PNG
+        </button>
+        <label className="flex items-center gap-2">
+          Size
+          <select
+            value={scale}
+            onChange={(e) => setScale(parseFloat(e.target.value))}
+            className="px-2 py-1 rounded border border-border bg-white"
+          >
+            {SCALES.map((s) => (
+              <option key={s} value={s}>
+                {s}× view
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+          Transparent background
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {progress === null ? (
+          <button className={button} onClick={recordVideo} disabled={busy || !canRecord}>
+            Record WebM
+          </button>
+        ) : (
+          <button className={button} onClick={() => abortRef.current?.abort()}>
+            Cancel ({Math.round(progress * 100)}%)
+          </button>
+        )}
+        <select
+          value={videoMode}
+          onChange={(e) => setMode(e.target.value as VideoMode)}
+          disabled={busy}
+          className="px-2 py-1 rounded border border-border bg-white"
+        >
+          <option value="turntable">Turntable</option>
+          <option value="clip" disabled={!clipPlayable}>
+            Current clip{clip && clipPlayable ? ` (${clipDuration(clip).toFixed(1)} s)` : ""}
+          </option>
+        </select>
+        {videoMode === "turntable" && (
+          <label className="flex items-center gap-2">
+            Length
+            <input
+              type="number"
+              min={2}
+              max={30}
+              step={1}
+              value={turntableSeconds}
+              disabled={busy}
+              onChange={(e) => setTurntableSeconds(Math.min(30, Math.max(2, parseFloat(e.target.value) || 8)))}
+              className="w-16 px-2 py-1 rounded border border-border bg-white"
+            />
+            s
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          Frame rate
+          <select
+            value={fps}
+            onChange={(e) => setFps(parseInt(e.target.value, 10))}
+            disabled={busy}
+            className="px-2 py-1 rounded border border-border bg-white"
+          >
+            {FRAME_RATES.map((r) => (
+              <option key={r} value={r}>
+                {r} fps
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {!canRecord && <p className="text-xs text-muted-foreground">This browser cannot record WebM; PNG export still works.</p>}
+      <p className="text-xs text-muted-foreground">
+        Recording runs in real time with a fixed step per frame, so keep this tab in front until it finishes.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import type { URDFRobot } from "urdf-loader";
+import { colorizePoints, decimatePoints, type PointCloud, type PointColorMode } from "@/lib/pointCloud";
+
+export type SensorOverlaySettings = {
+  cloud: PointCloud;
+  /** URDF link the points are expressed in */
+  frame: string;
+  colorMode: PointColorMode;
+  /** Screen-space point size in pixels */
+  pointSize: number;
+  /** Draw every n-th point */
+  decimation: number;
+};
+
+const SOLID_COLOR = 0x0ea5e9;
+
+/**
+ * Draws a point cloud or laser scan parented to its sensor's link, so it
+ * moves with the head, torso or base like the real data would. Colours are
+ * computed when the cloud, frame or mode changes, not per frame.
+ */
+export default function SensorOverlay({
+  robot,
+  overlay,
+}: {
+  robot: URDFRobot | null;
+  overlay: SensorOverlaySettings | null;
+}) {
+  const cloud = overlay?.cloud ?? null;
+  const decimation = overlay?.decimation ?? 1;
+
+  const geometry = useMemo(() => (cloud ? decimatePoints(cloud.geometry, decimation) : null), [cloud, decimation]);
+
+  useEffect(() => {
+    if (!cloud || !geometry || geometry === cloud.geometry) return;
+    return () => geometry.dispose();
+  }, [cloud, geometry]);
+
+  useEffect(() => {
+    if (!cloud) return;
+    return () => cloud.geometry.dispose();
+  }, [cloud]);
+
+  const frame = overlay?.frame;
+  const colorMode = overlay?.colorMode ?? "height";
+  const pointSize = overlay?.pointSize ?? 2;
+
+  useEffect(() => {
+    if (!robot || !geometry || !frame) return;
+    const link = robot.links?.[frame] ?? robot.frames?.[frame];
+    if (!link) return;
+    link.updateWorldMatrix(true, false);
+    if (colorMode !== "solid") colorizePoints(geometry, colorMode, link.matrixWorld);
+    const material = new THREE.PointsMaterial({
+      size: pointSize,
+      sizeAttenuation: false,
+      vertexColors: colorMode !== "solid",
+      color: colorMode === "solid" ? SOLID_COLOR : 0xffffff,
+    });
+    const points = new THREE.Points(geometry, material);
+    link.add(points);
+    return () => {
+      points.removeFromParent();
+      material.dispose();
+    };
+  }, [robot, geometry, frame, colorMode, pointSize]);
+
+  return null;
+}
@@ -0,0 +1,177 @@
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import type { SensorOverlaySettings } from "@/components/SensorOverlay";
+import { loadPointCloud, parsePointCloud, type PointCloud, type PointColorMode } from "@/lib/pointCloud";
+import type { SensorSample } from "@/lib/robots";
+import { resolvePublic } from "@/lib/urdf";
+
+const DECIMATION_STEPS = [1, 2, 4, 8, 16, 32];
+// Above this many drawn points, a freshly loaded cloud starts decimated
+const AUTO_DECIMATE_POINTS = 200_000;
+
+const COLOR_MODES: { mode: PointColorMode; label: string }[] = [
+  { mode: "height", label: "Height" },
+  { mode: "intensity", label: "Intensity" },
+  { mode: "rgb", label: "RGB" },
+  { mode: "solid", label: "Solid" },
+];
+
+/**
+ * Picks a sensor capture (one of the robot's samples or a local PCD/PLY/
+ * LaserScan JSON file), the link it is anchored to, and how it is drawn.
+ */
+export default function SensorOverlayPanel({
+  samples,
+  frames,
+  value,
+  onChange,
+}: {
+  samples: SensorSample[];
+  /** Link names the cloud can be anchored to */
+  frames: string[];
+  value: SensorOverlaySettings | null;
+  onChange: (value: SensorOverlaySettings | null) => void;
+}) {
+  const [loading, setLoading] = useState(false);
+  const [source, setSource] = useState("");
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const show = (cloud: PointCloud, frame: string) => {
+    const count = cloud.geometry.getAttribute("position").count;
+    const decimation = DECIMATION_STEPS.find((step) => count / step <= AUTO_DECIMATE_POINTS) ?? 32;
+    const colorMode: PointColorMode = cloud.geometry.getAttribute("rgb") ? "rgb" : value?.colorMode ?? "height";
+    onChange({ cloud, frame, colorMode, pointSize: value?.pointSize ?? 2, decimation });
+  };
+
+  const loadSample = async (name: string) => {
+    setSource(name);
+    const sample = samples.find((s) => s.name === name);
+    if (!sample) {
+      onChange(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      show(await loadPointCloud(resolvePublic(sample.source)), sample.frame);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load sensor data");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      const cloud = parsePointCloud(await file.arrayBuffer(), file.name);
+      const frame = cloud.frame && frames.includes(cloud.frame) ? cloud.frame : value?.frame ?? frames[0];
+      setSource("file");
+      show(cloud, frame);
+      toast.success(`Loaded ${cloud.name}: ${cloud.geometry.getAttribute("position").count.toLocaleString()} points`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not load point cloud");
+    }
+  };
+
+  const update = (patch: Partial<SensorOverlaySettings>) => value && onChange({ ...value, ...patch });
+  const total = value?.cloud.geometry.getAttribute("position").count ?? 0;
+  const has = (attr: string) => !!value?.cloud.geometry.getAttribute(attr);
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={source}
+          onChange={(e) => loadSample(e.target.value)}
+          disabled={loading}
+          className="px-2 py-1.5 rounded border border-border bg-white"
+        >
+          <option value="">No overlay</option>
+          {samples.map((s) => (
+            <option key={s.name} value={s.name}>
+              {s.name}
+            </option>
+          ))}
+          {source === "file" && value && <option value="file">{value.cloud.name}</option>}
+        </select>
+        <button className={button} onClick={() => fileRef.current?.click()} disabled={!frames.length}>
+          Load PCD / PLY / scan…
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".pcd,.ply,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = "";
+          }}
+        />
+        {loading && <span className="text-muted-foreground">Loading…</span>}
+      </div>
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Frame
+            <select
+              value={value.frame}
+              onChange={(e) => update({ frame: e.target.value })}
+              className="px-2 py-1 rounded border border-border bg-white max-w-56"
+            >
+              {frames.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Colour
+            <select
+              value={value.colorMode}
+              onChange={(e) => update({ colorMode: e.target.value as PointColorMode })}
+              className="px-2 py-1 rounded border border-border bg-white"
+            >
+              {COLOR_MODES.map(({ mode, label }) => (
+                <option key={mode} value={mode} disabled={(mode === "intensity" || mode === "rgb") && !has(mode)}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Point size
+            <input
+              type="range"
+              min={1}
+              max={8}
+              step={0.5}
+              value={value.pointSize}
+              onChange={(e) => update({ pointSize: parseFloat(e.target.value) })}
+            />
+            <span className="tabular-nums w-10">{value.pointSize} px</span>
+          </label>
+          <label className="flex items-center gap-2">
+            Decimate
+            <select
+              value={value.decimation}
+              onChange={(e) => update({ decimation: parseInt(e.target.value, 10) })}
+              className="px-2 py-1 rounded border border-border bg-white"
+            >
+              {DECIMATION_STEPS.map((step) => (
+                <option key={step} value={step}>
+                  {step === 1 ? "Off" : `1 in ${step}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className="text-muted-foreground tabular-nums">
+            {Math.ceil(total / value.decimation).toLocaleString()} of {total.toLocaleString()} points
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
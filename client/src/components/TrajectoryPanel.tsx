@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import JointPlots from "@/components/JointPlots";
+import {
+  parseTrajectory,
+  sampleTrajectory,
+  trajectoryDuration,
+  type Trajectory,
+} from "@/lib/trajectory";
+import type { JointValues, UrdfJointInfo } from "@/lib/urdf";
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Plays back a recorded joint log (CSV or JSON, JointState-compatible) on the
+ * robot: play/pause, scrub, speed and loop, with joint plots that follow the
+ * playhead. Joints the robot does not have are ignored.
+ */
+export default function TrajectoryPanel({
+  joints,
+  onPose,
+}: {
+  /** The loaded robot's joints; trajectory columns are matched by name */
+  joints: UrdfJointInfo[];
+  /** Called while playing or scrubbing with the sampled pose */
+  onPose: (values: JointValues) => void;
+}) {
+  const [traj, setTraj] = useState<Trajectory | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const duration = traj ? trajectoryDuration(traj) : 0;
+
+  // The rAF loop reads these without restarting on every change
+  const trajRef = useRef(traj);
+  trajRef.current = traj;
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+  const playheadRef = useRef(playhead);
+  playheadRef.current = playhead;
+  const onPoseRef = useRef(onPose);
+  onPoseRef.current = onPose;
+
+  const poseAt = (current: Trajectory, t: number) => {
+    const sampled = sampleTrajectory(current, t);
+    const out: JointValues = {};
+    joints.forEach((j) => {
+      if (typeof sampled[j.name] === "number") out[j.name] = sampled[j.name];
+    });
+    return out;
+  };
+  const poseAtRef = useRef(poseAt);
+  poseAtRef.current = poseAt;
+
+  const seek = (t: number) => {
+    if (!traj) return;
+    const clamped = Math.min(Math.max(0, t), duration);
+    setPlayhead(clamped);
+    onPose(poseAt(traj, clamped));
+  };
+
+  useEffect(() => {
+    if (!playing || !trajRef.current) return;
+    let raf = 0;
+    const start = performance.now();
+    // Restarting from the end of a finished run plays it again
+    const end = trajectoryDuration(trajRef.current);
+    const from = playheadRef.current >= end ? 0 : playheadRef.current;
+    const tick = (now: number) => {
+      const current = trajRef.current;
+      if (!current) return;
+      const total = trajectoryDuration(current);
+      let t = from + ((now - start) / 1000) * speed;
+      // A single-sample log has nothing to loop over; it plays once and stops
+      const looping = loopRef.current && total > 0;
+      const finished = !looping && t >= total;
+      t = looping ? t % total : Math.min(t, total);
+      setPlayhead(t);
+      onPoseRef.current(poseAtRef.current(current, t));
+      if (finished) {
+        setPlaying(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, speed]);
+
+  const importTrajectory = async (file: File) => {
+    try {
+      const imported = parseTrajectory(await file.text(), file.name);
+      const known = new Set(joints.map((j) => j.name));
+      const matched = imported.joints.filter((j) => known.has(j));
+      if (!matched.length) {
+        throw new Error(`None of the logged joints (${imported.joints.slice(0, 4).join(", ")}…) exist on this robot`);
+      }
+      setPlaying(false);
+      setTraj(imported);
+      setPlayhead(0);
+      onPose(poseAt(imported, 0));
+      const skipped = imported.joints.length - matched.length;
+      toast.success(
+        `Loaded "${imported.name}": ${imported.times.length} samples, ${trajectoryDuration(imported).toFixed(1)} s` +
+          (skipped ? ` (${skipped} unknown joint${skipped === 1 ? "" : "s"} ignored)` : "")
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not import trajectory");
+    }
+  };
+
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button className={button} onClick={() => fileRef.current?.click()} disabled={!joints.length}>
+          Import CSV / JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importTrajectory(file);
+            e.target.value = "";
+          }}
+        />
+        {traj && (
+          <span className="text-muted-foreground">
+            {traj.name} · {traj.times.length} samples · {duration.toFixed(2)} s
+          </span>
+        )}
+      </div>
+
+      {!traj ? (
+        <p className="text-sm text-muted-foreground">
+          Load a joint log with a header row: <code>time, joint1, joint2, …</code> (seconds or ROS nanosecond stamps),
+          a <code>rostopic echo -p /joint_states</code> CSV, or JSON JointState messages.
+        </p>
+      ) : (
+        <>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.001}
+            value={playhead}
+            onChange={(e) => {
+              setPlaying(false);
+              seek(parseFloat(e.target.value));
+            }}
+            className="w-full"
+          />
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="tabular-nums w-28">
+              {playhead.toFixed(2)} / {duration.toFixed(2)} s
+            </span>
+            <button className={button} onClick={() => setPlaying((p) => !p)} disabled={duration <= 0}>
+              {playing ? "Pause" : "Play"}
+            </button>
+            <label className="flex items-center gap-2">
+              Speed
+              <select
+                value={speed}
+                onChange={(e) => setSpeed(parseFloat(e.target.value))}
+                className="px-2 py-1 rounded border border-border bg-white"
+              >
+                {SPEEDS.map((s) => (
+                  <option key={s} value={s}>
+                    {s}×
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+              Loop
+            </label>
+          </div>
+
+          <JointPlots
+            traj={traj}
+            joints={joints}
+            playhead={playhead}
+            onSeek={(t) => {
+              setPlaying(false);
+              seek(t);
+            }}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef } from "react";
+import * as THREE from "three";
+import { useThree } from "@react-three/fiber";
+import type { URDFRobot } from "urdf-loader";
+import { useUrdfRobot } from "@/hooks/useUrdfRobot";
+import type { LoadProgress } from "@/lib/loadProgress";
+import {
+  applyJointValues,
+  type JointValues,
+  type RobotFormat,
+  type UpAxis,
+  type UrdfJointInfo,
+  type UrdfPackages,
+} from "@/lib/urdf";
+
+/** Place the camera so the whole robot is in view, looking slightly down on it. */
+export function fitCameraToObject(camera: THREE.Camera, object: THREE.Object3D) {
+  object.updateMatrixWorld(true);
+  const box = new THREE.Box3().setFromObject(object);
+  if (box.isEmpty()) return;
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3()).length();
+  const dist = Math.max(2.5, size * 0.8);
+  camera.position.set(center.x + dist * 0.4, center.y + dist * 0.3, center.z + dist * 0.9);
+  camera.lookAt(center);
+  (camera as THREE.PerspectiveCamera).updateProjectionMatrix?.();
+}
+
+/**
+ * Drop-in URDF (or MJCF) robot for any R3F scene. Loading, caching and disposal live in
+ * useUrdfRobot; this component only mounts the instance and applies `pose`.
+ */
+export default function UrdfRobot({
+  url,
+  packages,
+  format = "urdf",
+  collision = false,
+  upAxis = "z",
+  pose,
+  fitCamera = false,
+  onLoad,
+  onStatus,
+  onProgress,
+}: {
+  url: string;
+  packages: UrdfPackages;
+  format?: RobotFormat;
+  /** Load URDF collision geometry too (hidden until shown via setGeometryDisplay) */
+  collision?: boolean;
+  upAxis?: UpAxis;
+  pose?: JointValues;
+  fitCamera?: boolean;
+  onLoad?: (robot: URDFRobot, joints: UrdfJointInfo[]) => void;
+  onStatus?: (loading: boolean, error: string | null) => void;
+  /** Asset progress and failures; `retry` reloads the robot from scratch */
+  onProgress?: (progress: LoadProgress, retry: () => void) => void;
+}) {
+  const { camera } = useThree();
+  const { robot, joints, loading, error, progress, retry } = useUrdfRobot(url, packages, { format, collision });
+
+  // Callbacks are usually inline arrows; keep the latest without re-running effects.
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+  const onStatusRef = useRef(onStatus);
+  onStatusRef.current = onStatus;
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+
+  useEffect(() => {
+    onStatusRef.current?.(loading, error);
+  }, [loading, error]);
+
+  useEffect(() => {
+    onProgressRef.current?.(progress, retry);
+  }, [progress, retry]);
+
+  useEffect(() => {
+    if (!robot) return;
+    robot.rotation.set(upAxis === "z" ? -Math.PI / 2 : 0, 0, 0);
+    if (pose) applyJointValues(robot, pose);
+    robot.updateMatrixWorld(true);
+    if (fitCamera) fitCameraToObject(camera, robot);
+    onLoadRef.current?.(robot, joints);
+    // Only when a new instance arrives; pose updates are handled below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [robot, joints]);
+
+  useEffect(() => {
+    if (robot && pose) applyJointValues(robot, pose);
+  }, [robot, pose]);
+
+  return robot ? <primitive object={robot} /> : null;
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { captionAt, cuesBetween, introDuration, type IntroCue, type IntroTimeline } from "@/lib/heroIntro";
+
+/**
+ * Plays an IntroTimeline in real time: each cue is handed to `onCue` once,
+ * on the first frame at or after its time, and the current overlay text is
+ * kept in state. Text cues are reported through `caption` only.
+ */
+export function useIntroTimeline(timeline: IntroTimeline, onCue: (cue: IntroCue) => void) {
+  const [running, setRunning] = useState(false);
+  const [caption, setCaption] = useState<string | null>(null);
+  const rafRef = useRef<number | null>(null);
+  const onCueRef = useRef(onCue);
+  onCueRef.current = onCue;
+
+  const stop = useCallback(() => {
+    if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+    rafRef.current = null;
+    setRunning(false);
+    setCaption(null);
+  }, []);
+
+  /** Play from `from` seconds; cues before it are skipped. */
+  const start = useCallback(
+    (from = 0) => {
+      if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+      const duration = introDuration(timeline);
+      const begin = performance.now() - from * 1000;
+      let last = from;
+      const tick = (now: number) => {
+        const t = (now - begin) / 1000;
+        // The final tick takes everything up to and including the end
+        const upTo = t >= duration ? Infinity : t;
+        cuesBetween(timeline, last, upTo).forEach((cue) => {
+          if (cue.type !== "text") onCueRef.current(cue);
+        });
+        last = upTo;
+        if (upTo === Infinity) {
+          rafRef.current = null;
+          setRunning(false);
+          setCaption(null);
+          return;
+        }
+        setCaption(captionAt(timeline, t));
+        rafRef.current = requestAnimationFrame(tick);
+      };
+      setRunning(true);
+      rafRef.current = requestAnimationFrame(tick);
+    },
+    [timeline]
+  );
+
+  useEffect(() => () => {
+    if (rafRef.current !== null) cancelAnimationFrame(rafRef.current);
+  }, []);
+
+  return { running, caption, start, stop };
+}
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { URDFRobot } from "urdf-loader";
+import { EMPTY_PROGRESS, type LoadProgress } from "@/lib/loadProgress";
+import { evictMjcfTemplate, loadMjcfTemplate } from "@/lib/mjcf";
+import {
+  applyJointValues,
+  cloneUrdfRobot,
+  disposeUrdfRobot,
+  evictUrdfTemplate,
+  listJoints,
+  loadUrdfTemplate,
+  readJointValues,
+  type JointValues,
+  type RobotFormat,
+  type UrdfJointInfo,
+  type UrdfLoadOptions,
+  type UrdfPackages,
+} from "@/lib/urdf";
+
+export interface UseUrdfRobotReturn {
+  /** This component's own instance; null until loaded */
+  robot: URDFRobot | null;
+  joints: UrdfJointInfo[];
+  loading: boolean;
+  error: string | null;
+  /** Files and bytes loaded so far, and any meshes that failed */
+  progress: LoadProgress;
+  /** Drop the cached template and load everything again, e.g. after failed meshes */
+  retry: () => void;
+  /** Apply a partial pose immediately (no React state involved) */
+  setPose: (values: JointValues) => void;
+  getPose: () => JointValues;
+}
+
+/**
+ * Load a URDF (or MJCF) through the shared template cache and hand back a
+ * private clone. The clone is disposed when the url/packages change or on
+ * unmount. MJCF files have no package map; `packages` is ignored for them.
+ */
+export function useUrdfRobot(
+  url: string,
+  packages: UrdfPackages,
+  { format = "urdf", collision = false }: UrdfLoadOptions & { format?: RobotFormat } = {}
+): UseUrdfRobotReturn {
+  const [robot, setRobot] = useState<URDFRobot | null>(null);
+  const [joints, setJoints] = useState<UrdfJointInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<LoadProgress>(EMPTY_PROGRESS);
+  const [attempt, setAttempt] = useState(0);
+  const robotRef = useRef<URDFRobot | null>(null);
+
+  // Object literals for packages are fine; only their contents matter.
+  const packagesKey = JSON.stringify(packages);
+
+  useEffect(() => {
+    let cancelled = false;
+    let instance: URDFRobot | null = null;
+    setLoading(true);
+    setError(null);
+    setProgress(EMPTY_PROGRESS);
+    const onProgress = (p: LoadProgress) => {
+      if (!cancelled) setProgress(p);
+    };
+
+    // MJCF robots implement URDFRobot's lookup maps and joint API with their own node classes
+    const pending: Promise<URDFRobot> =
+      format === "mjcf"
+        ? loadMjcfTemplate(url, onProgress)
+        : loadUrdfTemplate(url, JSON.parse(packagesKey), { collision }, onProgress);
+    pending
+      .then((template) => {
+        if (cancelled) return;
+        instance = cloneUrdfRobot(template);
+        robotRef.current = instance;
+        setRobot(instance);
+        setJoints(listJoints(instance));
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error(`Failed to load ${format.toUpperCase()}`, err);
+        setError(`Failed to load ${format.toUpperCase()}. Check asset paths.`);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (instance) disposeUrdfRobot(instance);
+      robotRef.current = null;
+      setRobot(null);
+      setJoints([]);
+    };
+  }, [url, packagesKey, format, collision, attempt]);
+
+  const retry = useCallback(() => {
+    if (format === "mjcf") evictMjcfTemplate(url);
+    else evictUrdfTemplate(url, JSON.parse(packagesKey), { collision });
+    setAttempt((a) => a + 1);
+  }, [url, packagesKey, format, collision]);
+
+  const setPose = useCallback((values: JointValues) => {
+    if (robotRef.current) applyJointValues(robotRef.current, values);
+  }, []);
+
+  const getPose = useCallback(
+    () => (robotRef.current ? readJointValues(robotRef.current) : {}),
+    []
+  );
+
+  return { robot, joints, loading, error, progress, retry, setPose, getPose };
+}
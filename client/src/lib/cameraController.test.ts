@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import {
+  CameraController,
+  frameBox,
+  linkBox,
+  type CameraBookmark,
+  type CameraView,
+  type OrbitControlsLike,
+} from "@/lib/cameraController";
+
+/** Stand-in for OrbitControls; `drag()` fires "start" the way a user drag does. */
+function fakeControls() {
+  const listeners = new Set<() => void>();
+  const controls: OrbitControlsLike & { drag: () => void } = {
+    target: new THREE.Vector3(),
+    update: () => {},
+    addEventListener: (_type, listener) => listeners.add(listener),
+    removeEventListener: (_type, listener) => listeners.delete(listener),
+    drag: () => listeners.forEach((listener) => listener()),
+  };
+  return controls;
+}
+
+function rig() {
+  const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 100);
+  const controls = fakeControls();
+  const controller = new CameraController(camera, controls);
+  controller.jumpTo(view([4, 0, 0], [0, 0, 0]));
+  return { camera, controls, controller };
+}
+
+const view = (position: [number, number, number], target: [number, number, number]): CameraView => ({
+  position: new THREE.Vector3(...position),
+  target: new THREE.Vector3(...target),
+});
+
+/** A 1 m cube centred at `center`. */
+function cube(center: [number, number, number]) {
+  const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+  mesh.position.set(...center);
+  return mesh;
+}
+
+describe("CameraController flights", () => {
+  it("arrives at the view on time and resolves true", async () => {
+    const { camera, controls, controller } = rig();
+    const arrived = controller.flyTo(view([0, 0, 4], [0, 1, 0]), { duration: 1 });
+    controller.update(10);
+    expect(camera.position.toArray()).toEqual([4, 0, 0]);
+    controller.update(11);
+    await expect(arrived).resolves.toBe(true);
+    expect(camera.position.distanceTo(new THREE.Vector3(0, 0, 4))).toBeLessThan(1e-9);
+    expect(controls.target.toArray()).toEqual([0, 1, 0]);
+  });
+
+  it("follows the easing curve", () => {
+    const linear = rig();
+    linear.controller.flyTo(view([4, 2, 0], [0, 2, 0]), { duration: 1, easing: "linear" });
+    linear.controller.update(0);
+    linear.controller.update(0.25);
+    expect(linear.controls.target.y).toBeCloseTo(0.5);
+
+    const eased = rig();
+    eased.controller.flyTo(view([4, 2, 0], [0, 2, 0]), { duration: 1 });
+    eased.controller.update(0);
+    eased.controller.update(0.25);
+    // cubicInOut starts slowly
+    expect(eased.controls.target.y).toBeCloseTo(2 * 4 * 0.25 ** 3);
+  });
+
+  it("swings around the target instead of cutting through it", () => {
+    const { camera, controller } = rig();
+    controller.flyTo(view([-4, 0, 0], [0, 0, 0]), { duration: 1, easing: "linear" });
+    controller.update(0);
+    for (let t = 0.1; t < 1; t += 0.1) {
+      controller.update(t);
+      expect(camera.position.length()).toBeCloseTo(4);
+    }
+  });
+
+  it("is cancelled by a user drag", async () => {
+    const { camera, controls, controller } = rig();
+    const arrived = controller.flyTo(view([0, 0, 4], [0, 0, 0]), { duration: 1 });
+    controller.update(0);
+    controls.drag();
+    await expect(arrived).resolves.toBe(false);
+    const before = camera.position.clone();
+    controller.update(0.5);
+    expect(camera.position.equals(before)).toBe(true);
+  });
+
+  it("cancels the previous flight when a new one starts", async () => {
+    const { controller } = rig();
+    const first = controller.flyTo(view([0, 0, 4], [0, 0, 0]));
+    controller.flyTo(view([0, 4, 0.01], [0, 0, 0]));
+    await expect(first).resolves.toBe(false);
+  });
+
+  it("jumps straight there with a zero duration", async () => {
+    const { camera, controller } = rig();
+    await expect(controller.flyTo(view([1, 2, 3], [0, 0, 0]), { duration: 0 })).resolves.toBe(true);
+    expect(camera.position.toArray()).toEqual([1, 2, 3]);
+  });
+});
+
+describe("CameraController bookmarks", () => {
+  it("resolves a fixed view as given", () => {
+    const { controller } = rig();
+    const resolved = controller.resolve({ name: "Door", kind: "view", position: [1, 2, 3], target: [0, 1, 0] });
+    expect(resolved?.position.toArray()).toEqual([1, 2, 3]);
+    expect(resolved?.target.toArray()).toEqual([0, 1, 0]);
+  });
+
+  it("frames the whole subject for a fit bookmark", () => {
+    const { camera, controller } = rig();
+    const subject = new THREE.Group();
+    subject.add(cube([2, 0, 0]));
+    controller.subject = subject;
+    const resolved = controller.resolve({ name: "Front", kind: "fit", direction: [0, 0, 1] })!;
+    expect(resolved.target.toArray()).toEqual([2, 0, 0]);
+    expect(resolved.position.x).toBeCloseTo(2);
+    expect(resolved.position.z).toBeGreaterThan(0);
+    expect(resolved).toEqual(frameBox(new THREE.Box3().setFromObject(subject), camera, [0, 0, 1]));
+  });
+
+  it("cannot resolve framed bookmarks without a subject", async () => {
+    const { controller } = rig();
+    const fit = { name: "Front", kind: "fit", direction: [0, 0, 1] } as const;
+    expect(controller.resolve(fit)).toBeNull();
+    await expect(controller.goTo(fit)).resolves.toBe(false);
+  });
+
+  it("frames one link's own geometry, not the links below its joints", () => {
+    const { controller } = rig();
+    const robot = new THREE.Group();
+    const hand = new THREE.Group();
+    hand.name = "hand";
+    hand.add(cube([0, 0, 0]));
+    const joint = Object.assign(new THREE.Group(), { isURDFJoint: true });
+    joint.add(cube([5, 0, 0]));
+    hand.add(joint);
+    robot.add(hand);
+    controller.subject = robot;
+
+    expect(linkBox(hand).getCenter(new THREE.Vector3()).toArray()).toEqual([0, 0, 0]);
+    const resolved = controller.resolve({ name: "Hand", kind: "link", link: "hand", direction: [1, 0, 0] });
+    expect(resolved?.target.toArray()).toEqual([0, 0, 0]);
+    expect(controller.resolve({ name: "Foot", kind: "link", link: "foot", direction: [1, 0, 0] })).toBeNull();
+  });
+
+  it("backs off further for a wider subject", () => {
+    const camera = new THREE.PerspectiveCamera(45, 1);
+    const small = frameBox(new THREE.Box3().setFromObject(cube([0, 0, 0])), camera, [0, 0, 1]);
+    const big = new THREE.Box3(new THREE.Vector3(-2, -2, -2), new THREE.Vector3(2, 2, 2));
+    expect(frameBox(big, camera, [0, 0, 1]).position.z).toBeGreaterThan(small.position.z * 3);
+  });
+});
+
+describe("CameraController tours", () => {
+  it("orbits about the vertical axis at the given speed", () => {
+    const { camera, controller } = rig();
+    controller.startTour({ speed: 0.5 });
+    controller.update(0);
+    for (let t = 0.05; t <= 1 + 1e-9; t += 0.05) controller.update(t);
+    const angle = Math.atan2(-camera.position.z, camera.position.x);
+    expect(angle).toBeCloseTo(0.5);
+    expect(camera.position.length()).toBeCloseTo(4);
+  });
+
+  it("calls onEnd once when stopped or interrupted", () => {
+    const { controls, controller } = rig();
+    let ended = 0;
+    controller.startTour({ onEnd: () => ended++ });
+    controls.drag();
+    controller.stopTour();
+    expect(ended).toBe(1);
+    expect(controller.touring).toBe(false);
+  });
+
+  it("flies to each stop in turn after dwelling", () => {
+    const { controls, controller } = rig();
+    const stops: CameraBookmark[] = [
+      { name: "A", kind: "view", position: [0, 0, 4], target: [1, 0, 0] },
+      { name: "B", kind: "view", position: [0, 0, 4], target: [2, 0, 0] },
+    ];
+    controller.startTour({ stops, dwell: 1 });
+    let t = 0;
+    const run = (seconds: number) => {
+      for (const end = t + seconds; t < end - 1e-9; t += 0.05) controller.update(t);
+    };
+    run(2.5);
+    expect(controls.target.x).toBeCloseTo(1);
+    run(3);
+    expect(controls.target.x).toBeCloseTo(2);
+    expect(controller.touring).toBe(true);
+  });
+});
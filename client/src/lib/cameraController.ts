@@ -0,0 +1,249 @@
+import * as THREE from "three";
+import { ease, type Easing } from "@/lib/clips";
+
+type Vec3 = [number, number, number];
+
+/** Where the camera sits and what it orbits, in three.js world coordinates. */
+export type CameraView = { position: THREE.Vector3; target: THREE.Vector3 };
+
+/**
+ * Named camera position. "view" is fixed; "fit" frames the whole subject and
+ * "link" one link's own geometry, looking along -`direction`. Framed
+ * bookmarks are worked out when used, so they follow the robot's current pose.
+ */
+export type CameraBookmark =
+  | { name: string; kind: "view"; position: Vec3; target: Vec3 }
+  | { name: string; kind: "fit"; direction: Vec3 }
+  | { name: string; kind: "link"; link: string; direction: Vec3 };
+
+/** The parts of drei's OrbitControls (three-stdlib) the controller drives. */
+export type OrbitControlsLike = {
+  target: THREE.Vector3;
+  update: () => void;
+  addEventListener: (type: "start", listener: () => void) => void;
+  removeEventListener: (type: "start", listener: () => void) => void;
+};
+
+export type FlightOptions = {
+  /** Seconds; default 1.2 */
+  duration?: number;
+  /** Default cubicInOut */
+  easing?: Easing;
+};
+
+export type TourOptions = {
+  /** Orbit speed about the vertical axis, rad/s. Default 0.25 */
+  speed?: number;
+  /** Bookmarks to fly between; the tour orbits at each for `dwell` seconds. Empty orbits in place. */
+  stops?: CameraBookmark[];
+  /** Seconds spent orbiting each stop. Default 6 */
+  dwell?: number;
+  /** Called once when the tour ends, whether stopped or interrupted by the user */
+  onEnd?: () => void;
+};
+
+/** Views framing the whole subject from the usual sides, for viewers with no presets of their own. */
+export const STANDARD_BOOKMARKS: CameraBookmark[] = [
+  { name: "Three-quarter", kind: "fit", direction: [1, 0.5, 1] },
+  { name: "Front", kind: "fit", direction: [1, 0.15, 0] },
+  { name: "Side", kind: "fit", direction: [0, 0.15, 1] },
+  // Slightly off vertical so "up" stays defined
+  { name: "Top", kind: "fit", direction: [0, 1, 0.01] },
+];
+
+const FIT_MARGIN = 1.15;
+// Single links are small; leave room around them
+const LINK_MARGIN = 1.6;
+const MIN_LINK_RADIUS = 0.05;
+const UP = new THREE.Vector3(0, 1, 0);
+
+/** Bounding box of a link's own geometry, without the links hanging off its joints. */
+export function linkBox(link: THREE.Object3D) {
+  link.updateWorldMatrix(true, true);
+  const box = new THREE.Box3();
+  link.children.forEach((child) => {
+    if (!(child as { isURDFJoint?: boolean }).isURDFJoint) box.expandByObject(child);
+  });
+  if (box.isEmpty()) {
+    const at = link.getWorldPosition(new THREE.Vector3());
+    box.setFromCenterAndSize(at, new THREE.Vector3().setScalar(MIN_LINK_RADIUS * 2));
+  }
+  return box;
+}
+
+/**
+ * View that fits `box` in a perspective camera's frustum from `direction`
+ * (camera position minus target), using the narrower of the two fields of view.
+ */
+export function frameBox(box: THREE.Box3, camera: THREE.Camera, direction: Vec3 | THREE.Vector3, margin = FIT_MARGIN): CameraView {
+  const sphere = box.getBoundingSphere(new THREE.Sphere());
+  const perspective = camera as THREE.PerspectiveCamera;
+  const vertical = THREE.MathUtils.degToRad(perspective.fov ?? 45) / 2;
+  const horizontal = Math.atan(Math.tan(vertical) * (perspective.aspect ?? 1));
+  const distance = (Math.max(sphere.radius, MIN_LINK_RADIUS) / Math.sin(Math.min(vertical, horizontal))) * margin;
+  const dir = (Array.isArray(direction) ? new THREE.Vector3(...direction) : direction.clone()).normalize();
+  return { position: sphere.center.clone().addScaledVector(dir, distance), target: sphere.center.clone() };
+}
+
+/**
+ * Tweens and tours for a camera under OrbitControls. Time is passed to
+ * update() (seconds), as with ClipPlayer. Any user drag on the controls
+ * cancels the current flight or tour, so the user always wins.
+ */
+export class CameraController {
+  /** What "fit" bookmarks frame and "link" bookmarks look up links in */
+  subject: THREE.Object3D | null = null;
+  private flight: {
+    from: CameraView;
+    to: CameraView;
+    start: number | null;
+    duration: number;
+    easing: Easing;
+    resolve: (arrived: boolean) => void;
+  } | null = null;
+  private tour: (Required<Omit<TourOptions, "onEnd">> & { onEnd?: () => void; stop: number; orbitUntil: number | null }) | null = null;
+  private last: number | null = null;
+
+  constructor(
+    private camera: THREE.Camera,
+    private controls: OrbitControlsLike | null
+  ) {
+    controls?.addEventListener("start", this.stop);
+  }
+
+  dispose() {
+    this.stop();
+    this.controls?.removeEventListener("start", this.stop);
+  }
+
+  get touring() {
+    return this.tour !== null;
+  }
+
+  view(): CameraView {
+    const target = this.controls?.target.clone() ?? this.camera.position.clone().add(this.camera.getWorldDirection(new THREE.Vector3()));
+    return { position: this.camera.position.clone(), target };
+  }
+
+  /** The concrete view for a bookmark, or null if its link or subject is missing. */
+  resolve(bookmark: CameraBookmark): CameraView | null {
+    if (bookmark.kind === "view") {
+      return { position: new THREE.Vector3(...bookmark.position), target: new THREE.Vector3(...bookmark.target) };
+    }
+    if (!this.subject) return null;
+    if (bookmark.kind === "fit") {
+      this.subject.updateWorldMatrix(true, true);
+      const box = new THREE.Box3().setFromObject(this.subject);
+      return box.isEmpty() ? null : frameBox(box, this.camera, bookmark.direction);
+    }
+    const links = (this.subject as { links?: Record<string, THREE.Object3D> }).links;
+    const link = links?.[bookmark.link] ?? this.subject.getObjectByName(bookmark.link);
+    return link ? frameBox(linkBox(link), this.camera, bookmark.direction, LINK_MARGIN) : null;
+  }
+
+  jumpTo(view: CameraView) {
+    this.cancelFlight();
+    this.apply(view.position, view.target);
+  }
+
+  /** Animate to `view`; resolves true on arrival, false if interrupted. */
+  flyTo(view: CameraView, { duration = 1.2, easing = "cubicInOut" }: FlightOptions = {}): Promise<boolean> {
+    this.cancelFlight();
+    if (duration <= 0) {
+      this.apply(view.position, view.target);
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      this.flight = { from: this.view(), to: { position: view.position.clone(), target: view.target.clone() }, start: null, duration, easing, resolve };
+    });
+  }
+
+  /** flyTo a bookmark; resolves false straight away if it cannot be resolved. */
+  goTo(bookmark: CameraBookmark, options?: FlightOptions) {
+    const view = this.resolve(bookmark);
+    return view ? this.flyTo(view, options) : Promise.resolve(false);
+  }
+
+  startTour({ speed = 0.25, stops = [], dwell = 6, onEnd }: TourOptions = {}) {
+    this.stopTour();
+    this.tour = { speed, stops, dwell, onEnd, stop: -1, orbitUntil: null };
+    this.nextStop();
+  }
+
+  stopTour() {
+    const tour = this.tour;
+    this.tour = null;
+    tour?.onEnd?.();
+  }
+
+  /** Cancel any flight and tour (bound, so it can be used as the controls' start listener). */
+  stop = () => {
+    this.cancelFlight();
+    this.stopTour();
+  };
+
+  update(now: number) {
+    const dt = this.last === null ? 0 : Math.min(now - this.last, 0.1);
+    this.last = now;
+
+    const flight = this.flight;
+    if (flight) {
+      flight.start ??= now;
+      const a = Math.min(1, (now - flight.start) / flight.duration);
+      this.applyBetween(flight.from, flight.to, ease(flight.easing, a));
+      if (a >= 1) {
+        this.flight = null;
+        flight.resolve(true);
+      }
+      return;
+    }
+
+    const tour = this.tour;
+    if (!tour) return;
+    tour.orbitUntil ??= tour.stops.length > 1 ? now + tour.dwell : null;
+    const { position, target } = this.view();
+    const offset = position.sub(target).applyAxisAngle(UP, tour.speed * dt);
+    this.apply(target.clone().add(offset), target);
+    if (tour.orbitUntil !== null && now >= tour.orbitUntil) this.nextStop();
+  }
+
+  private nextStop() {
+    const tour = this.tour;
+    if (!tour || tour.stops.length === 0) return;
+    tour.stop = (tour.stop + 1) % tour.stops.length;
+    tour.orbitUntil = null;
+    const view = this.resolve(tour.stops[tour.stop]);
+    if (!view) return;
+    const current = tour;
+    // A flight pauses the orbit; the tour carries on from the stop unless it was stopped meanwhile
+    this.flyTo(view, { duration: 2 }).then((arrived) => {
+      if (!arrived && this.tour === current) this.stopTour();
+    });
+  }
+
+  private cancelFlight() {
+    const flight = this.flight;
+    this.flight = null;
+    flight?.resolve(false);
+  }
+
+  /** Target moves straight; the camera swings around it, so moves between sides arc instead of cutting through the robot. */
+  private applyBetween(from: CameraView, to: CameraView, e: number) {
+    const target = from.target.clone().lerp(to.target, e);
+    const fromOffset = from.position.clone().sub(from.target);
+    const toOffset = to.position.clone().sub(to.target);
+    const radius = THREE.MathUtils.lerp(fromOffset.length(), toOffset.length(), e);
+    const turn = new THREE.Quaternion().setFromUnitVectors(fromOffset.normalize(), toOffset.normalize());
+    const dir = fromOffset.applyQuaternion(new THREE.Quaternion().slerp(turn, e));
+    this.apply(target.clone().addScaledVector(dir, radius), target);
+  }
+
+  private apply(position: THREE.Vector3, target: THREE.Vector3) {
+    this.camera.position.copy(position);
+    this.camera.lookAt(target);
+    if (this.controls) {
+      this.controls.target.copy(target);
+      this.controls.update();
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { ClipPlayer } from "@/lib/clipPlayer";
+import type { Clip } from "@/lib/clips";
+
+/** Holds every joint at `joints` for `duration` seconds. */
+const hold = (joints: Record<string, number>, duration = 10, loop = false): Clip => ({
+  name: "hold",
+  loop,
+  frames: [
+    { time: 0, joints },
+    { time: duration, joints },
+  ],
+});
+
+/** Ramps joint `a` from `from` to `to` over `duration` seconds. */
+const ramp = (from: number, to: number, duration = 1): Clip => ({
+  name: "ramp",
+  frames: [
+    { time: 0, joints: { a: from } },
+    { time: duration, joints: { a: to } },
+  ],
+});
+
+describe("ClipPlayer base track", () => {
+  it("plays a clip from the first update", () => {
+    const player = new ClipPlayer();
+    player.play(ramp(0, 1));
+    expect(player.update(100).a).toBe(0);
+    expect(player.update(100.5).a).toBeCloseTo(0.5);
+  });
+
+  it("fires onComplete once and then goes idle", () => {
+    const player = new ClipPlayer();
+    let completed = 0;
+    player.play(ramp(0, 1), { onComplete: () => completed++ });
+    player.update(0);
+    expect(player.update(2).a).toBe(1);
+    expect(player.update(3)).toEqual({});
+    expect(completed).toBe(1);
+    expect(player.isPlaying).toBe(false);
+  });
+
+  it("crossfades from the pose at the switch", () => {
+    const player = new ClipPlayer();
+    player.play(hold({ a: 0 }));
+    player.update(0);
+    player.play(hold({ a: 1 }), { crossfade: 1 });
+    expect(player.update(1).a).toBe(0);
+    expect(player.update(1.5).a).toBeCloseTo(0.5);
+    expect(player.update(2).a).toBe(1);
+  });
+
+  it("plays queued clips after the current one", () => {
+    const player = new ClipPlayer();
+    player.play(ramp(0, 1));
+    player.enqueue(hold({ a: 5 }));
+    player.update(0);
+    expect(player.update(1.5).a).toBe(5);
+  });
+});
+
+describe("ClipPlayer layers", () => {
+  it("blends an override layer over the base by its weight", () => {
+    const player = new ClipPlayer();
+    player.play(hold({ a: 0 }));
+    player.playLayer("wave", hold({ a: 1 }), { weight: 0.25 });
+    expect(player.update(0).a).toBeCloseTo(0.25);
+  });
+
+  it("adds an additive layer's motion relative to its first keyframe", () => {
+    const player = new ClipPlayer();
+    player.play(hold({ a: 2 }));
+    player.playLayer("nod", ramp(1, 2), { mode: "additive", weight: 0.5 });
+    player.update(0);
+    expect(player.update(1).a).toBeCloseTo(2.5);
+  });
+
+  it("weights joints the base does not drive from their current pose", () => {
+    const player = new ClipPlayer();
+    player.playLayer("wave", hold({ a: 1 }), { weight: 0.5 });
+    expect(player.update(0, () => ({ a: -1 })).a).toBeCloseTo(0);
+    // The rest value is kept, so a steady weight gives a steady pose
+    expect(player.update(1, () => ({ a: 0 })).a).toBeCloseTo(0);
+  });
+
+  it("ramps the weight in over fadeIn", () => {
+    const player = new ClipPlayer();
+    player.play(hold({ a: 0 }));
+    player.playLayer("wave", hold({ a: 1 }), { fadeIn: 1 });
+    expect(player.update(0).a).toBeCloseTo(0);
+    expect(player.update(0.5).a).toBeCloseTo(0.5);
+    expect(player.update(1).a).toBeCloseTo(1);
+  });
+
+  it("fades out back to the rest pose and then drops the layer", () => {
+    const player = new ClipPlayer();
+    player.playLayer("wave", hold({ a: 1 }));
+    expect(player.update(0, () => ({ a: 0 })).a).toBe(1);
+    player.stopLayer("wave", 1);
+    expect(player.update(1).a).toBeCloseTo(1);
+    expect(player.update(1.5).a).toBeCloseTo(0.5);
+    expect(player.update(2)).toEqual({});
+    expect(player.isPlaying).toBe(false);
+  });
+
+  it("hands a joint over to its last base value when the base clip ends", () => {
+    const player = new ClipPlayer();
+    player.play(ramp(0, 2));
+    player.playLayer("wave", hold({ a: 4 }, 10), { weight: 0.5 });
+    player.update(0);
+    expect(player.update(1).a).toBeCloseTo(3);
+    // Base is idle now; the layer keeps blending from where the base left the joint
+    expect(player.update(2, () => ({ a: 3 })).a).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,221 @@
+import * as THREE from "three";
+import { clipDuration, clipTime, sampleClip, type Clip } from "@/lib/clips";
+import type { JointValues } from "@/lib/urdf";
+
+export type PlayOptions = {
+  /** Seconds to blend from the pose at the moment of switching into the new clip */
+  crossfade?: number;
+  /** Fires once when a non-looping clip reaches its last keyframe */
+  onComplete?: (clip: Clip) => void;
+};
+
+export type LayerMode = "override" | "additive";
+
+export type LayerOptions = {
+  /**
+   * override: blend toward the layer's values by `weight`.
+   * additive: add the layer's motion relative to its first keyframe on top of
+   * the base track. Joints the base does not drive blend from the pose they
+   * had when the layer took them over, so weight and fades still apply.
+   */
+  mode?: LayerMode;
+  weight?: number;
+  /** Seconds to ramp the layer weight in */
+  fadeIn?: number;
+  onComplete?: (clip: Clip) => void;
+};
+
+type Track = {
+  clip: Clip;
+  /** null until the next update(), so play() never needs to know the clock */
+  start: number | null;
+  onComplete?: (clip: Clip) => void;
+  completed: boolean;
+};
+
+type Crossfade = { from: JointValues; start: number | null; duration: number };
+
+type Layer = Track & {
+  mode: LayerMode;
+  weight: number;
+  reference: JointValues;
+  /** What the layer blends from on joints the base track is not driving */
+  rest: JointValues;
+  fadeIn: number;
+  /** Set while fading out; the layer is dropped once it reaches zero */
+  fadeOut: { start: number | null; duration: number } | null;
+};
+
+/**
+ * Small animation state machine for robot Clips: one base track with a queue
+ * and crossfades, plus named layers on top. Time is passed in (seconds), so it
+ * runs the same under useFrame, a fixed-step exporter or a test.
+ */
+export class ClipPlayer {
+  private base: Track | null = null;
+  private queue: { clip: Clip; options: PlayOptions }[] = [];
+  private crossfade: Crossfade | null = null;
+  private layers = new Map<string, Layer>();
+  private lastBase: JointValues = {};
+
+  /** Replace the base clip immediately (optionally crossfading) and clear the queue. */
+  play(clip: Clip, options: PlayOptions = {}) {
+    this.queue = [];
+    this.startBase(clip, options);
+  }
+
+  /** Play after the current (non-looping) clip completes; plays now if idle. */
+  enqueue(clip: Clip, options: PlayOptions = {}) {
+    if (!this.base || this.base.completed) this.startBase(clip, options);
+    else this.queue.push({ clip, options });
+  }
+
+  /** Start or replace a named layer. Non-looping layers hold their last pose until stopped. */
+  playLayer(name: string, clip: Clip, options: LayerOptions = {}) {
+    this.layers.set(name, {
+      clip,
+      start: null,
+      onComplete: options.onComplete,
+      completed: false,
+      mode: options.mode ?? "override",
+      weight: options.weight ?? 1,
+      reference: sampleClip(clip, 0),
+      rest: {},
+      fadeIn: options.fadeIn ?? 0,
+      fadeOut: null,
+    });
+  }
+
+  setLayerWeight(name: string, weight: number) {
+    const layer = this.layers.get(name);
+    if (layer) layer.weight = weight;
+  }
+
+  /** Fade a layer out (or drop it immediately with fadeOut = 0). */
+  stopLayer(name: string, fadeOut = 0) {
+    const layer = this.layers.get(name);
+    if (!layer) return;
+    if (fadeOut <= 0) this.layers.delete(name);
+    else layer.fadeOut = { start: null, duration: fadeOut };
+  }
+
+  /** Drop everything; joints keep whatever pose they were last given. */
+  stop() {
+    this.base = null;
+    this.queue = [];
+    this.crossfade = null;
+    this.layers.clear();
+  }
+
+  get isPlaying() {
+    return (!!this.base && !this.base.completed) || this.queue.length > 0 || this.layers.size > 0;
+  }
+
+  get currentClip() {
+    return this.base?.clip ?? null;
+  }
+
+  /**
+   * Advance to `now` (seconds) and return the blended pose; empty when idle.
+   * `currentPose` reads the robot's joints; it is only called when a layer
+   * takes over a joint the base track is not driving, to find its rest value.
+   */
+  update(now: number, currentPose?: () => JointValues): JointValues {
+    const pose = this.updateBase(now);
+    this.applyLayers(now, pose, currentPose);
+    return pose;
+  }
+
+  private startBase(clip: Clip, options: PlayOptions, now: number | null = null) {
+    const duration = options.crossfade ?? 0;
+    this.crossfade =
+      duration > 0 && Object.keys(this.lastBase).length
+        ? { from: { ...this.lastBase }, start: now, duration }
+        : null;
+    this.base = { clip, start: now, onComplete: options.onComplete, completed: false };
+  }
+
+  private updateBase(now: number): JointValues {
+    if (!this.base) return {};
+    let track = this.base;
+    track.start ??= now;
+    let elapsed = now - track.start;
+
+    if (!track.clip.loop && !track.completed && elapsed >= clipDuration(track.clip)) {
+      track.completed = true;
+      // Crossfades into the next clip start from the exact final pose
+      this.lastBase = { ...this.lastBase, ...sampleClip(track.clip, clipDuration(track.clip)) };
+      track.onComplete?.(track.clip);
+      const next = this.queue.shift();
+      // onComplete may have started a clip itself; only advance the queue if not
+      if (next && this.base === track) {
+        this.startBase(next.clip, next.options, now);
+      }
+      track = this.base!;
+      track.start ??= now;
+      elapsed = now - track.start;
+    }
+
+    const pose = sampleClip(track.clip, clipTime(track.clip, elapsed));
+    // Finished with nothing queued: emit the final pose once, then go idle so
+    // the joints are free for other inputs.
+    if (track.completed) this.base = null;
+
+    if (this.crossfade) {
+      this.crossfade.start ??= now;
+      const { from, start, duration } = this.crossfade;
+      const a = THREE.MathUtils.clamp((now - start) / duration, 0, 1);
+      // Smoothstep so the blend itself has no velocity jump
+      const w = a * a * (3 - 2 * a);
+      Object.entries(from).forEach(([name, v]) => {
+        pose[name] = name in pose ? THREE.MathUtils.lerp(v, pose[name], w) : v;
+      });
+      if (a >= 1) this.crossfade = null;
+    }
+
+    this.lastBase = { ...this.lastBase, ...pose };
+    return pose;
+  }
+
+  private applyLayers(now: number, pose: JointValues, currentPose?: () => JointValues) {
+    let current: JointValues | null = null;
+    this.layers.forEach((layer, name) => {
+      layer.start ??= now;
+      const elapsed = now - layer.start;
+      if (!layer.clip.loop && !layer.completed && elapsed >= clipDuration(layer.clip)) {
+        layer.completed = true;
+        layer.onComplete?.(layer.clip);
+      }
+
+      let weight = layer.weight;
+      if (layer.fadeIn > 0) weight *= THREE.MathUtils.clamp(elapsed / layer.fadeIn, 0, 1);
+      if (layer.fadeOut) {
+        layer.fadeOut.start ??= now;
+        const out = 1 - (now - layer.fadeOut.start) / layer.fadeOut.duration;
+        if (out <= 0) {
+          this.layers.delete(name);
+          return;
+        }
+        weight *= out;
+      }
+
+      const values = sampleClip(layer.clip, clipTime(layer.clip, elapsed));
+      Object.entries(values).forEach(([joint, v]) => {
+        let base = pose[joint];
+        if (base === undefined) {
+          // Read lazily, at most once per update
+          current ??= currentPose?.() ?? {};
+          base = layer.rest[joint] ??= current[joint] ?? layer.reference[joint];
+        } else {
+          // Tracks the base, so a base clip ending hands over its last value
+          layer.rest[joint] = base;
+        }
+        if (layer.mode === "additive") {
+          pose[joint] = base + weight * (v - (layer.reference[joint] ?? 0));
+        } else {
+          pose[joint] = THREE.MathUtils.lerp(base, v, weight);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { clipDuration, introPoseClip, sampleClip, type Clip } from "@/lib/clips";
+
+// Three keyframes rising then falling, so the middle one is a turning point
+const frames = [
+  { time: 0, joints: { a: 0 } },
+  { time: 1, joints: { a: 1 } },
+  { time: 2, joints: { a: 3 } },
+  { time: 3, joints: { a: 3 } },
+];
+
+describe("sampleClip", () => {
+  it("interpolates linearly when the clip does not ask for anything else", () => {
+    const clip: Clip = { name: "linear", frames };
+    expect(sampleClip(clip, 0.5).a).toBeCloseTo(0.5);
+    expect(sampleClip(clip, 1.5).a).toBeCloseTo(2);
+  });
+
+  it("clamps to the first and last keyframes", () => {
+    const clip: Clip = { name: "linear", frames };
+    expect(sampleClip(clip, -1).a).toBe(0);
+    expect(sampleClip(clip, 10).a).toBe(3);
+  });
+
+  it("passes through every keyframe with hermite interpolation", () => {
+    const clip: Clip = { name: "smooth", interpolation: "hermite", frames };
+    frames.forEach((f) => expect(sampleClip(clip, f.time).a).toBeCloseTo(f.joints.a));
+  });
+
+  it("carries velocity through interior keyframes with hermite interpolation", () => {
+    const clip: Clip = { name: "smooth", interpolation: "hermite", frames };
+    // Linear would be 0.5; the tangent at t=1 bends the first segment
+    expect(sampleClip(clip, 0.5).a).not.toBeCloseTo(0.5);
+    // Monotone data stays monotone
+    const samples = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2].map((t) => sampleClip(clip, t).a);
+    samples.slice(1).forEach((v, i) => expect(v).toBeGreaterThanOrEqual(samples[i] - 1e-9));
+  });
+
+  it("does not overshoot a held value with hermite interpolation", () => {
+    const clip: Clip = { name: "smooth", interpolation: "hermite", frames };
+    [2.25, 2.5, 2.75].forEach((t) => expect(sampleClip(clip, t).a).toBeCloseTo(3));
+  });
+
+  it("holds joints a keyframe leaves out at their previous value", () => {
+    const clip: Clip = {
+      name: "held",
+      frames: [
+        { time: 0, joints: { a: 0, b: 2 } },
+        { time: 1, joints: { a: 1 } },
+        { time: 2, joints: { a: 2, b: 4 } },
+      ],
+    };
+    expect(sampleClip(clip, 0.5).b).toBe(2);
+    expect(sampleClip(clip, 1.5).b).toBeCloseTo(3);
+  });
+
+  it("uses a joint's first keyed value before it appears", () => {
+    const clip: Clip = {
+      name: "late",
+      frames: [
+        { time: 0, joints: { a: 0 } },
+        { time: 1, joints: { a: 1, b: 5 } },
+      ],
+    };
+    expect(sampleClip(clip, 0).b).toBe(5);
+  });
+
+  it("applies the keyframe's easing to its segment", () => {
+    const clip: Clip = {
+      name: "eased",
+      frames: [
+        { time: 0, joints: { a: 0 }, easing: "step" },
+        { time: 1, joints: { a: 1 } },
+      ],
+    };
+    expect(sampleClip(clip, 0.99).a).toBe(0);
+    expect(sampleClip(clip, 1).a).toBe(1);
+  });
+});
+
+describe("introPoseClip", () => {
+  it("rolls the upper arm back to zero by the end", () => {
+    const end = sampleClip(introPoseClip, clipDuration(introPoseClip));
+    expect(end.upperarm_roll_joint).toBe(0);
+  });
+});
@@ -0,0 +1,198 @@
+import * as THREE from "three";
+import { z } from "zod";
+import type { JointValues } from "@/lib/urdf";
+
+/** Easing for the segment that starts at a keyframe */
+export type Easing = "linear" | "cubicIn" | "cubicOut" | "cubicInOut" | "step";
+/** How values are joined across keyframes; "hermite" uses Catmull-Rom tangents. Clips without one are linear. */
+export type Interpolation = "linear" | "hermite";
+
+export type Keyframe = { time: number; joints: Record<string, number>; easing?: Easing };
+export type Clip = { name: string; loop?: boolean; interpolation?: Interpolation; frames: Keyframe[] };
+
+export const EASINGS: Easing[] = ["linear", "cubicIn", "cubicOut", "cubicInOut", "step"];
+
+/** Hero intro: arm unfolds from the stowed pose, torso rises slightly. */
+export const introPoseClip: Clip = {
+  name: "intro-pose",
+  frames: [
+    { time: 0, joints: { shoulder_pan_joint: 1.81, shoulder_lift_joint: 2, elbow_flex_joint: 1.71, wrist_flex_joint: 1.5, wrist_roll_joint: 0.05, torso_lift_joint: 0.03, upperarm_roll_joint: 0.12 } },
+    { time: 0.8, joints: { shoulder_pan_joint: 1.81, shoulder_lift_joint: 2, elbow_flex_joint: 1.71, wrist_flex_joint: 1.5, wrist_roll_joint: 0.05, torso_lift_joint: 0.1, upperarm_roll_joint: -3.07 } },
+    { time: 5.0, joints: { shoulder_pan_joint: -0.3, shoulder_lift_joint: -0.7, elbow_flex_joint: -0.9, wrist_flex_joint: 0.4, wrist_roll_joint: -0.6, torso_lift_joint: 0.05, upperarm_roll_joint: 0 } },
+  ],
+};
+
+export const clipDuration = (clip: Clip) =>
+  clip.frames.length ? clip.frames[clip.frames.length - 1].time : 0;
+
+/** Map elapsed time onto clip time, wrapping for looping clips. */
+export function clipTime(clip: Clip, elapsed: number) {
+  const duration = clipDuration(clip);
+  if (duration <= 0) return 0;
+  return clip.loop ? elapsed % duration : Math.min(elapsed, duration);
+}
+
+const easingFns: Record<Easing, (a: number) => number> = {
+  linear: (a) => a,
+  cubicIn: (a) => a * a * a,
+  cubicOut: (a) => 1 - Math.pow(1 - a, 3),
+  cubicInOut: (a) => (a < 0.5 ? 4 * a * a * a : 1 - Math.pow(-2 * a + 2, 3) / 2),
+  step: () => 0,
+};
+
+/** Shape a 0..1 progress with one of the clip easings; also used for camera moves. */
+export const ease = (easing: Easing, a: number) => easingFns[easing](a);
+
+/** Per-clip lookup tables, built once and reused every frame. */
+type CompiledClip = {
+  times: number[];
+  easings: Easing[];
+  joints: string[];
+  /** values[k][i]: joint k at keyframe i, with gaps filled */
+  values: number[][];
+  /** Tangents (units per second) for Hermite interpolation */
+  tangents: number[][];
+};
+
+const compiled = new WeakMap<Clip, CompiledClip>();
+
+/**
+ * Fill joints missing from a keyframe with the value they held at the previous
+ * keyframe (or, before their first appearance, their first known value).
+ */
+function fillTrack(frames: Keyframe[], joint: string): number[] {
+  const track: (number | undefined)[] = frames.map((f) => f.joints[joint]);
+  let last: number | undefined;
+  for (let i = 0; i < track.length; i++) {
+    if (track[i] === undefined) track[i] = last;
+    else last = track[i];
+  }
+  const first = track.find((v) => v !== undefined) ?? 0;
+  return track.map((v) => v ?? first);
+}
+
+const secant = (times: number[], values: number[], a: number, b: number) => {
+  const dt = times[b] - times[a];
+  return dt > 0 ? (values[b] - values[a]) / dt : 0;
+};
+
+/**
+ * Catmull-Rom tangents, limited Fritsch-Carlson style so held values and
+ * turning points do not overshoot (a joint that holds still between two
+ * keyframes stays still).
+ */
+function catmullRomTangents(times: number[], values: number[], loop: boolean): number[] {
+  const n = values.length;
+  const limit = (m: number, d0: number, d1: number) => {
+    if (d0 * d1 <= 0) return 0;
+    const bound = 3 * Math.min(Math.abs(d0), Math.abs(d1));
+    return THREE.MathUtils.clamp(m, -bound, bound);
+  };
+  return values.map((_, i) => {
+    if (n < 3) return 0;
+    if (i === 0 || i === n - 1) {
+      if (!loop) return 0; // ease out of / into the clip's end poses
+      // Wrap across the loop seam: last frame and first frame are the same instant
+      const d0 = secant(times, values, n - 2, n - 1);
+      const d1 = secant(times, values, 0, 1);
+      const dt = times[n - 1] - times[n - 2] + (times[1] - times[0]);
+      return limit(dt > 0 ? (values[1] - values[n - 2]) / dt : 0, d0, d1);
+    }
+    const d0 = secant(times, values, i - 1, i);
+    const d1 = secant(times, values, i, i + 1);
+    return limit(secant(times, values, i - 1, i + 1), d0, d1);
+  });
+}
+
+function compileClip(clip: Clip): CompiledClip {
+  const cached = compiled.get(clip);
+  if (cached) return cached;
+  const frames = clip.frames;
+  const times = frames.map((f) => f.time);
+  const joints = Array.from(new Set(frames.flatMap((f) => Object.keys(f.joints))));
+  const values = joints.map((j) => fillTrack(frames, j));
+  const tangents = values.map((v) => catmullRomTangents(times, v, !!clip.loop));
+  const result = { times, easings: frames.map((f) => f.easing ?? "linear"), joints, values, tangents };
+  compiled.set(clip, result);
+  return result;
+}
+
+/** Index of the last keyframe at or before t (binary search; times are sorted). */
+function segmentIndex(times: number[], t: number): number {
+  let lo = 0;
+  let hi = times.length - 1;
+  if (t <= times[0]) return 0;
+  if (t >= times[hi]) return hi;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function hermite(p0: number, p1: number, m0: number, m1: number, dt: number, s: number) {
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (
+    (2 * s3 - 3 * s2 + 1) * p0 +
+    (s3 - 2 * s2 + s) * dt * m0 +
+    (-2 * s3 + 3 * s2) * p1 +
+    (s3 - s2) * dt * m1
+  );
+}
+
+/** Joint values at time t (seconds into the clip). */
+export function sampleClip(clip: Clip, t: number): JointValues {
+  const out: JointValues = {};
+  if (clip.frames.length === 0) return out;
+  const { times, easings, joints, values, tangents } = compileClip(clip);
+  const i = segmentIndex(times, t);
+  const j = Math.min(i + 1, times.length - 1);
+  const dt = times[j] - times[i];
+  const alpha = dt > 0 ? THREE.MathUtils.clamp((t - times[i]) / dt, 0, 1) : 0;
+  const s = easingFns[easings[i]](alpha);
+  const smooth = clip.interpolation === "hermite";
+
+  joints.forEach((name, k) => {
+    const v = values[k];
+    out[name] = smooth
+      ? hermite(v[i], v[j], tangents[k][i], tangents[k][j], dt, s)
+      : THREE.MathUtils.lerp(v[i], v[j], s);
+  });
+  return out;
+}
+
+/** Keep frames ordered by time; every clip helper assumes this. */
+export const sortFrames = (frames: Keyframe[]) => [...frames].sort((a, b) => a.time - b.time);
+
+const keyframeSchema = z.object({
+  time: z.number().min(0),
+  joints: z.record(z.string(), z.number()),
+  easing: z.enum(EASINGS).optional(),
+});
+
+const clipSchema = z.object({
+  name: z.string(),
+  loop: z.boolean().optional(),
+  interpolation: z.enum(["linear", "hermite"]).optional(),
+  frames: z.array(keyframeSchema).min(1),
+});
+
+/** Parse clip JSON as exported by the timeline editor; throws with a readable message. */
+export function parseClip(json: string): Clip {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Clip file is not valid JSON");
+  }
+  const result = clipSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid clip at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  return { ...result.data, frames: sortFrames(result.data.frames) };
+}
+
+export const serializeClip = (clip: Clip) => JSON.stringify(clip, null, 2);
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { URDFCollider } from "urdf-loader/src/URDFClasses.js";
+import {
+  buildCollisionModel,
+  checkSelfCollision,
+  convexIntersect,
+  pairKey,
+  persistentPairs,
+} from "@/lib/collision";
+import { buildChain } from "@/lib/testRobots";
+
+/** Corners of an axis-aligned box. */
+const box = (center: [number, number, number], size: [number, number, number]) =>
+  [0, 1, 2, 3, 4, 5, 6, 7].map(
+    (i) =>
+      new THREE.Vector3(
+        center[0] + (i & 1 ? 0.5 : -0.5) * size[0],
+        center[1] + (i & 2 ? 0.5 : -0.5) * size[1],
+        center[2] + (i & 4 ? 0.5 : -0.5) * size[2]
+      )
+  );
+
+const unit: [number, number, number] = [1, 1, 1];
+
+describe("convexIntersect", () => {
+  it("detects overlapping boxes", () => {
+    expect(convexIntersect(box([0, 0, 0], unit), box([0.5, 0.5, 0.5], unit))).toBe(true);
+  });
+
+  it("detects one shape inside another", () => {
+    expect(convexIntersect(box([0, 0, 0], [4, 4, 4]), box([0.5, 0, 0], unit))).toBe(true);
+  });
+
+  it("detects a rotated shape sharing the other's centre", () => {
+    for (let k = 0; k < 20; k++) {
+      const turn = new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(k * 0.37, k * 0.11, k * 0.3));
+      const inner = box([0, 0, 0], [0.2, 0.2, 0.2]).map((p) => p.applyMatrix4(turn));
+      expect(convexIntersect(box([0, 0, 0], [0.4, 0.4, 0.4]), inner)).toBe(true);
+    }
+  });
+
+  it("separates boxes apart along any axis", () => {
+    expect(convexIntersect(box([0, 0, 0], unit), box([2, 0, 0], unit))).toBe(false);
+    expect(convexIntersect(box([0, 0, 0], unit), box([1.1, 1.1, 1.1], unit))).toBe(false);
+  });
+
+  it("does not count faces resting flush", () => {
+    expect(convexIntersect(box([0, 0, 0], unit), box([1, 0, 0], unit))).toBe(false);
+  });
+
+  it("handles a tetrahedron poking into a box corner", () => {
+    const tetra = [
+      new THREE.Vector3(0.4, 0.4, 0.4),
+      new THREE.Vector3(2, 0.4, 0.4),
+      new THREE.Vector3(0.4, 2, 0.4),
+      new THREE.Vector3(0.4, 0.4, 2),
+    ];
+    expect(convexIntersect(box([0, 0, 0], unit), tetra)).toBe(true);
+    expect(convexIntersect(box([-0.5, -0.5, -0.5], unit), tetra)).toBe(false);
+  });
+});
+
+describe("persistentPairs", () => {
+  it("keeps only pairs in contact in every pose, in either order", () => {
+    const pairs = persistentPairs([
+      [
+        ["a", "b"],
+        ["a", "c"],
+      ],
+      [["b", "a"]],
+      [
+        ["c", "d"],
+        ["a", "b"],
+      ],
+    ]);
+    expect(Array.from(pairs)).toEqual([pairKey("a", "b")]);
+  });
+
+  it("is empty without poses", () => {
+    expect(persistentPairs([]).size).toBe(0);
+  });
+});
+
+/**
+ * Planar arm on a base box: shoulder (at the base origin) and elbow rotate
+ * about Z. The hand folds back over the base in the zero pose, and a small
+ * cover hangs off the upper arm at the shoulder, inside the base in any pose.
+ */
+function foldedArm() {
+  const robot = buildChain([
+    { joint: "shoulder", link: "arm" },
+    { joint: "elbow", link: "hand", origin: [1, 0, 0] },
+    { joint: "cover_joint", link: "cover", parent: "arm" },
+  ]);
+  const addCollider = (link: string, center: [number, number, number], size: [number, number, number]) => {
+    const collider = new URDFCollider();
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(...size));
+    mesh.position.set(...center);
+    collider.add(mesh);
+    robot.links[link].add(collider);
+  };
+  addCollider("base", [0, 0, 0], [0.4, 0.4, 0.4]);
+  addCollider("arm", [0.6, 0, 0], [0.6, 0.1, 0.1]);
+  addCollider("hand", [-0.7, 0, 0], [0.4, 0.1, 0.1]);
+  addCollider("cover", [0, 0, 0], [0.2, 0.2, 0.2]);
+  robot.updateMatrixWorld(true);
+  return robot;
+}
+
+describe("buildCollisionModel", () => {
+  it("allows parent/child links and pairs touching in every sampled pose", () => {
+    const model = buildCollisionModel(foldedArm());
+    expect(model.allowed.has(pairKey("base", "arm"))).toBe(true);
+    expect(model.allowed.has(pairKey("arm", "hand"))).toBe(true);
+    expect(model.allowed.has(pairKey("base", "cover"))).toBe(true);
+  });
+
+  it("still reports a pair that only overlaps in the reference pose", () => {
+    const model = buildCollisionModel(foldedArm());
+    expect(model.allowed.has(pairKey("base", "hand"))).toBe(false);
+    expect(checkSelfCollision(model).pairs).toEqual([["base", "hand"]]);
+  });
+
+  it("restores the robot's pose after sampling", () => {
+    const robot = foldedArm();
+    robot.setJointValue("elbow", 2);
+    buildCollisionModel(robot);
+    expect(robot.joints.elbow.angle).toBe(2);
+    expect(robot.joints.shoulder.angle).toBe(0);
+  });
+});
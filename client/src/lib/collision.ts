@@ -0,0 +1,387 @@
+import * as THREE from "three";
+import { ConvexHull } from "three/examples/jsm/math/ConvexHull.js";
+import type { URDFCollider, URDFJoint, URDFLink, URDFRobot, URDFVisual } from "urdf-loader";
+import { seededRandom } from "@/lib/random";
+import {
+  applyJointValues,
+  jointRange,
+  jointTypeOf,
+  listJoints,
+  readJointValues,
+  type JointValues,
+} from "@/lib/urdf";
+
+export type GeometryDisplay = "visual" | "collision" | "both";
+
+// MJCF robots build their bodies and geoms from classes carrying the same flags
+const isLink = (node: THREE.Object3D): node is URDFLink => (node as URDFLink).isURDFLink === true;
+const isCollider = (node: THREE.Object3D): node is URDFCollider => (node as URDFCollider).isURDFCollider === true;
+const isVisual = (node: THREE.Object3D): node is URDFVisual => (node as URDFVisual).isURDFVisual === true;
+const isJoint = (node: THREE.Object3D): node is URDFJoint => (node as URDFJoint).isURDFJoint === true;
+
+/** Show visual meshes, collision meshes, or both (URDF and MJCF robots). */
+export function setGeometryDisplay(robot: THREE.Object3D, mode: GeometryDisplay) {
+  robot.traverse((node) => {
+    if (isVisual(node)) node.visible = mode !== "collision";
+    else if (isCollider(node)) node.visible = mode !== "visual";
+  });
+}
+
+/** Name of the link a node belongs to (its nearest link ancestor, or the robot root). */
+function owningLink(robot: THREE.Object3D, node: THREE.Object3D): string {
+  let cur: THREE.Object3D | null = node.parent;
+  while (cur && cur !== robot && !isLink(cur)) cur = cur.parent;
+  return cur?.name ?? robot.name;
+}
+
+/** Convex piece of one link's collision geometry. */
+type Shape = {
+  link: string;
+  mesh: THREE.Mesh;
+  /** Hull vertices in the mesh's local frame */
+  local: THREE.Vector3[];
+  world: THREE.Vector3[];
+  box: THREE.Box3;
+};
+
+export type CollisionModel = {
+  robot: URDFRobot;
+  shapes: Shape[];
+  /** "a|b" (sorted) link pairs never reported: neighbours and contacts present in every sampled pose */
+  allowed: Set<string>;
+};
+
+export type CollisionResult = {
+  pairs: [string, string][];
+  links: Set<string>;
+};
+
+export const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function hullPoints(geometry: THREE.BufferGeometry): THREE.Vector3[] {
+  const position = geometry.getAttribute("position");
+  if (!position) return [];
+  // STL geometry repeats every vertex per face; dedupe before building the hull
+  const unique = new Map<string, THREE.Vector3>();
+  for (let i = 0; i < position.count; i++) {
+    const v = new THREE.Vector3().fromBufferAttribute(position, i);
+    unique.set(`${v.x.toFixed(5)},${v.y.toFixed(5)},${v.z.toFixed(5)}`, v);
+  }
+  const points = Array.from(unique.values());
+  if (points.length < 4) return points;
+  try {
+    const hull = new ConvexHull().setFromPoints(points);
+    const out = new Set<THREE.Vector3>();
+    hull.faces.forEach((face) => {
+      let edge = face.edge;
+      do {
+        out.add(edge.head().point);
+        edge = edge.next;
+      } while (edge !== face.edge);
+    });
+    if (out.size >= 4) return Array.from(out);
+  } catch {
+    // Flat or degenerate input; the box corners below are a fine stand-in
+  }
+  geometry.computeBoundingBox();
+  const { min, max } = geometry.boundingBox!;
+  return [0, 1, 2, 3, 4, 5, 6, 7].map(
+    (i) => new THREE.Vector3(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z)
+  );
+}
+
+// --- GJK boolean intersection test on convex point sets -------------------
+
+const _d = new THREE.Vector3();
+const _neg = new THREE.Vector3();
+
+function farthest(points: THREE.Vector3[], dir: THREE.Vector3) {
+  let best = points[0];
+  let bestDot = -Infinity;
+  for (const p of points) {
+    const d = p.dot(dir);
+    if (d > bestDot) {
+      bestDot = d;
+      best = p;
+    }
+  }
+  return best;
+}
+
+/** Point of the Minkowski difference A − B farthest along dir. */
+const support = (a: THREE.Vector3[], b: THREE.Vector3[], dir: THREE.Vector3) =>
+  new THREE.Vector3().subVectors(farthest(a, dir), farthest(b, _neg.copy(dir).negate()));
+
+const triple = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) =>
+  new THREE.Vector3().crossVectors(a, b).cross(c);
+
+/**
+ * True when the convex hulls of the two point sets overlap. Touching
+ * surfaces do not count, so parts resting exactly flush are not reported.
+ */
+export function convexIntersect(a: THREE.Vector3[], b: THREE.Vector3[], maxIterations = 64): boolean {
+  if (!a.length || !b.length) return false;
+  // Shrink B a hair about its centroid so faces resting flush come out apart
+  const centroid = b.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(b.length);
+  const inset = b.map((p) => p.clone().lerp(centroid, 1e-6));
+  const dir = _d.copy(a[0]).sub(inset[0]);
+  if (dir.lengthSq() < 1e-12) dir.set(1, 0, 0);
+
+  // Simplex of Minkowski-difference points, newest first
+  const simplex = [support(a, inset, dir)];
+  dir.copy(simplex[0]).negate();
+  for (let i = 0; i < maxIterations; i++) {
+    if (dir.lengthSq() < 1e-20) return false;
+    const next = support(a, inset, dir);
+    if (next.dot(dir) <= 0) return false;
+    simplex.unshift(next);
+    if (nearestSimplex(simplex, dir)) return true;
+  }
+  return false;
+}
+
+/**
+ * True when the origin (ao from the newest point) is strictly on v's side. An
+ * origin on the plane counts as inside; shapes sharing a centre put it there,
+ * and rounding would otherwise flip between faces forever.
+ */
+const sameSide = (v: THREE.Vector3, ao: THREE.Vector3) => v.dot(ao) > 1e-9 * v.length() * ao.length();
+
+/**
+ * Direction from an edge towards the origin, perpendicular to the edge. When
+ * the origin lies on the edge any perpendicular will do.
+ */
+function edgeNormal(edge: THREE.Vector3, toOrigin: THREE.Vector3, out: THREE.Vector3) {
+  out.copy(triple(edge, toOrigin, edge));
+  if (out.lengthSq() > 1e-12 * edge.lengthSq() ** 2) return;
+  out.crossVectors(edge, new THREE.Vector3(1, 0, 0));
+  if (out.lengthSq() < 1e-12) out.crossVectors(edge, new THREE.Vector3(0, 1, 0));
+}
+
+/**
+ * Reduce the simplex to the feature nearest the origin and point dir at the
+ * origin from it. True once a tetrahedron encloses the origin.
+ */
+function nearestSimplex(simplex: THREE.Vector3[], dir: THREE.Vector3): boolean {
+  const line = (p: THREE.Vector3, q: THREE.Vector3) => {
+    const pq = new THREE.Vector3().subVectors(q, p);
+    const po = p.clone().negate();
+    if (sameSide(pq, po)) {
+      simplex.splice(0, simplex.length, p, q);
+      edgeNormal(pq, po, dir);
+    } else {
+      simplex.splice(0, simplex.length, p);
+      dir.copy(po);
+    }
+    return false;
+  };
+  const triangle = (p: THREE.Vector3, q: THREE.Vector3, r: THREE.Vector3) => {
+    const pq = new THREE.Vector3().subVectors(q, p);
+    const pr = new THREE.Vector3().subVectors(r, p);
+    const po = p.clone().negate();
+    const n = new THREE.Vector3().crossVectors(pq, pr);
+    if (sameSide(new THREE.Vector3().crossVectors(n, pr), po)) {
+      if (sameSide(pr, po)) {
+        simplex.splice(0, simplex.length, p, r);
+        edgeNormal(pr, po, dir);
+        return false;
+      }
+      return line(p, q);
+    }
+    if (sameSide(new THREE.Vector3().crossVectors(pq, n), po)) return line(p, q);
+    if (sameSide(n, po)) {
+      simplex.splice(0, simplex.length, p, q, r);
+      dir.copy(n);
+    } else {
+      simplex.splice(0, simplex.length, p, r, q);
+      dir.copy(n).negate();
+    }
+    return false;
+  };
+
+  const [p, q, r, t] = simplex;
+  if (simplex.length === 2) return line(p, q);
+  if (simplex.length === 3) return triangle(p, q, r);
+  // Tetrahedron: recurse into a face the origin is outside of, if any
+  const pq = new THREE.Vector3().subVectors(q, p);
+  const pr = new THREE.Vector3().subVectors(r, p);
+  const pt = new THREE.Vector3().subVectors(t, p);
+  const po = p.clone().negate();
+  if (sameSide(new THREE.Vector3().crossVectors(pq, pr), po)) return triangle(p, q, r);
+  if (sameSide(new THREE.Vector3().crossVectors(pr, pt), po)) return triangle(p, r, t);
+  if (sameSide(new THREE.Vector3().crossVectors(pt, pq), po)) return triangle(p, t, q);
+  return true;
+}
+
+// --------------------------------------------------------------------------
+
+function updateShapes(model: CollisionModel) {
+  model.robot.updateMatrixWorld(true);
+  model.shapes.forEach((s) => {
+    s.local.forEach((p, i) => s.world[i].copy(p).applyMatrix4(s.mesh.matrixWorld));
+    s.box.setFromPoints(s.world);
+  });
+}
+
+function findContacts(model: CollisionModel, skip: Set<string>): [string, string][] {
+  updateShapes(model);
+  const found = new Map<string, [string, string]>();
+  const { shapes } = model;
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      const a = shapes[i];
+      const b = shapes[j];
+      if (a.link === b.link) continue;
+      const key = pairKey(a.link, b.link);
+      if (skip.has(key) || found.has(key)) continue;
+      // Broadphase: world AABBs of the hulls; narrowphase: GJK on the hulls
+      if (!a.box.intersectsBox(b.box)) continue;
+      if (convexIntersect(a.world, b.world)) found.set(key, a.link < b.link ? [a.link, b.link] : [b.link, a.link]);
+    }
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Link pairs (as pairKey keys) in contact in every one of the given
+ * per-pose contact lists. Empty when there are no poses.
+ */
+export function persistentPairs(contactsPerPose: [string, string][][]): Set<string> {
+  if (contactsPerPose.length === 0) return new Set();
+  const [first, ...rest] = contactsPerPose.map((pairs) => new Set(pairs.map(([a, b]) => pairKey(a, b))));
+  return new Set(Array.from(first).filter((key) => rest.every((pose) => pose.has(key))));
+}
+
+/** The reference pose (unlisted joints at 0) followed by `count` random poses within the joint limits. */
+function samplePoses(robot: URDFRobot, referencePose: JointValues, count: number, seed: number): JointValues[] {
+  const joints = listJoints(robot);
+  const random = seededRandom(seed);
+  const reference: JointValues = {};
+  joints.forEach((j) => (reference[j.name] = referencePose[j.name] ?? 0));
+  const poses = [reference];
+  for (let i = 0; i < count; i++) {
+    const pose: JointValues = {};
+    joints.forEach((j) => {
+      const { lower, upper } = jointRange(j);
+      pose[j.name] = lower + random() * (upper - lower);
+    });
+    poses.push(pose);
+  }
+  return poses;
+}
+
+export type CollisionModelOptions = {
+  /** Random poses checked besides the reference pose when looking for designed contact. Default 16 */
+  samples?: number;
+  /** PRNG seed for those poses, so the allowlist is the same on every load */
+  seed?: number;
+};
+
+/**
+ * Prepare a robot's collision geometry for self-collision queries: one convex
+ * hull per collision mesh, plus the set of link pairs to ignore. Parent/child
+ * links (looking through fixed joints) always touch at the joint, and pairs
+ * that overlap in the reference pose and in every sampled pose are designed
+ * contact. A pair that merely touches in the reference pose is still checked.
+ * Requires colliders to be loaded (UrdfRobot `collision`).
+ */
+export function buildCollisionModel(
+  robot: URDFRobot,
+  referencePose: JointValues = {},
+  { samples = 16, seed = 1 }: CollisionModelOptions = {}
+): CollisionModel {
+  const shapes: Shape[] = [];
+  robot.traverse((node) => {
+    if (!(node instanceof THREE.Mesh) || !node.geometry) return;
+    let cur: THREE.Object3D | null = node;
+    while (cur && cur !== robot && !isCollider(cur)) cur = cur.parent;
+    if (!cur || cur === robot) return;
+    const local = hullPoints(node.geometry);
+    if (!local.length) return;
+    shapes.push({
+      link: owningLink(robot, cur),
+      mesh: node,
+      local,
+      world: local.map((p) => p.clone()),
+      box: new THREE.Box3(),
+    });
+  });
+
+  // Rigid groups: links joined by fixed joints move as one body
+  const parentLink = (name: string) => {
+    const link = robot.links?.[name];
+    if (!link || link === robot) return null;
+    let cur = link.parent;
+    let viaMovable = false;
+    while (cur && cur !== robot && !isLink(cur)) {
+      if (isJoint(cur) && jointTypeOf(cur) !== "fixed") viaMovable = true;
+      cur = cur.parent;
+    }
+    return cur ? { name: cur.name, viaMovable } : null;
+  };
+  const groupOf = new Map<string, string>();
+  const rootOf = (name: string): string => {
+    const cached = groupOf.get(name);
+    if (cached) return cached;
+    const parent = parentLink(name);
+    const root = parent && !parent.viaMovable ? rootOf(parent.name) : name;
+    groupOf.set(name, root);
+    return root;
+  };
+  const linkNames = Object.keys(robot.links ?? {});
+  const parentGroup = new Map<string, string | null>();
+  linkNames.forEach((n) => {
+    const root = rootOf(n);
+    const parent = parentLink(root);
+    parentGroup.set(root, parent ? rootOf(parent.name) : null);
+  });
+
+  const allowed = new Set<string>();
+  linkNames.forEach((a) =>
+    linkNames.forEach((b) => {
+      if (a >= b) return;
+      const ga = rootOf(a);
+      const gb = rootOf(b);
+      if (ga === gb || parentGroup.get(ga) === gb || parentGroup.get(gb) === ga) allowed.add(pairKey(a, b));
+    })
+  );
+
+  const model: CollisionModel = { robot, shapes, allowed };
+  const current = readJointValues(robot);
+  const contacts = samplePoses(robot, referencePose, samples, seed).map((pose) => {
+    applyJointValues(robot, pose);
+    return findContacts(model, allowed);
+  });
+  applyJointValues(robot, current);
+  persistentPairs(contacts).forEach((key) => allowed.add(key));
+  return model;
+}
+
+/** Colliding link pairs at the robot's current pose. */
+export function checkSelfCollision(model: CollisionModel): CollisionResult {
+  const pairs = findContacts(model, model.allowed);
+  const links = new Set<string>();
+  pairs.forEach(([a, b]) => {
+    links.add(a);
+    links.add(b);
+  });
+  return { pairs, links };
+}
+
+/**
+ * Tint the meshes of the given links (visual and collision) with an emissive
+ * colour; every other link gets its own emissive back.
+ */
+export function highlightLinks(robot: URDFRobot, links: Set<string>, color: THREE.ColorRepresentation = 0xdc2626) {
+  robot.traverse((node) => {
+    if (!(node instanceof THREE.Mesh)) return;
+    const on = links.has(owningLink(robot, node));
+    const mats: THREE.Material[] = Array.isArray(node.material) ? node.material : [node.material];
+    mats.forEach((material) => {
+      const m = material as THREE.MeshStandardMaterial;
+      if (!m?.emissive) return;
+      m.userData.baseEmissive ??= m.emissive.getHex();
+      m.emissive.set(on ? color : m.userData.baseEmissive);
+    });
+  });
+}
@@ -0,0 +1,89 @@
+import { clipDuration, introPoseClip, sampleClip, type Clip } from "@/lib/clips";
+import type { JointValues } from "@/lib/urdf";
+
+type Vec3 = [number, number, number];
+
+/** Home hero states: the loading screen, the robot filling the window, and the page layout beside the text. */
+export type HeroLayout = "loading" | "fullscreen" | "compact";
+
+/** Camera glide in three.js world coordinates (Y up), eased in and out. */
+export type CameraMove = { from: Vec3; to: Vec3; target: Vec3; duration: number };
+
+/** One timeline entry; `at` is seconds after the robot has loaded. */
+export type IntroCue =
+  | { at: number; type: "layout"; layout: HeroLayout }
+  | ({ at: number; type: "camera" } & CameraMove)
+  | { at: number; type: "clip"; clip: Clip }
+  | { at: number; type: "text"; text: string; duration: number };
+
+export type IntroTimeline = { cues: IntroCue[] };
+
+// The loading screen lifts as soon as every asset is in, and the arm starts unfolding
+const REVEAL_AT = 0;
+
+/** First-visit intro on the home page. */
+export const heroIntro: IntroTimeline = {
+  cues: [
+    { at: REVEAL_AT, type: "layout", layout: "fullscreen" },
+    { at: REVEAL_AT, type: "camera", from: [0.5, 1, 0], to: [2, 1, 0], target: [0, 1, 0], duration: 3.5 },
+    { at: REVEAL_AT, type: "clip", clip: introPoseClip },
+    { at: REVEAL_AT + 1, type: "text", text: "Hi, I'm Fetch.", duration: 2.5 },
+    { at: REVEAL_AT + 4, type: "text", text: "Planning, manipulation and human-robot interaction.", duration: 3 },
+    { at: REVEAL_AT + clipDuration(introPoseClip) + 3, type: "layout", layout: "compact" },
+  ],
+};
+
+/** When a cue stops having an effect. */
+function cueEnd(cue: IntroCue) {
+  if (cue.type === "camera" || cue.type === "text") return cue.at + cue.duration;
+  if (cue.type === "clip") return cue.at + clipDuration(cue.clip);
+  return cue.at;
+}
+
+export function introDuration(timeline: IntroTimeline) {
+  return timeline.cues.reduce((end, cue) => Math.max(end, cueEnd(cue)), 0);
+}
+
+/** Cues starting in [from, to), in timeline order. */
+export function cuesBetween(timeline: IntroTimeline, from: number, to: number) {
+  return timeline.cues.filter((cue) => cue.at >= from && cue.at < to).sort((a, b) => a.at - b.at);
+}
+
+/** Overlay text showing at time t, if any; a later cue replaces an earlier one. */
+export function captionAt(timeline: IntroTimeline, t: number): string | null {
+  let caption: string | null = null;
+  let since = -Infinity;
+  for (const cue of timeline.cues) {
+    if (cue.type === "text" && cue.at <= t && t < cueEnd(cue) && cue.at >= since) {
+      caption = cue.text;
+      since = cue.at;
+    }
+  }
+  return caption;
+}
+
+/** Time the robot first becomes visible; replays start here rather than on the loading screen. */
+export function revealTime(timeline: IntroTimeline) {
+  const reveal = timeline.cues.find((cue) => cue.type === "layout" && cue.layout !== "loading");
+  return reveal?.at ?? 0;
+}
+
+export type IntroEndState = {
+  layout: HeroLayout;
+  /** Last camera move, whose `to`/`target` is the resting view */
+  camera: CameraMove | null;
+  /** Final pose of every clip, later clips winning */
+  pose: JointValues;
+};
+
+/** Where the intro leaves everything, for skipping it or not playing it at all. */
+export function introEndState(timeline: IntroTimeline): IntroEndState {
+  const state: IntroEndState = { layout: "compact", camera: null, pose: {} };
+  const cues = [...timeline.cues].sort((a, b) => a.at - b.at);
+  for (const cue of cues) {
+    if (cue.type === "layout") state.layout = cue.layout;
+    else if (cue.type === "camera") state.camera = cue;
+    else if (cue.type === "clip") state.pose = { ...state.pose, ...sampleClip(cue.clip, clipDuration(cue.clip)) };
+  }
+  return state;
+}
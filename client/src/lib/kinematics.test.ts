@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { chainJoints, chainReach, solveIkCcd } from "@/lib/kinematics";
+import { buildChain } from "@/lib/testRobots";
+
+/**
+ * Planar two-link arm in the XY plane: two revolute joints about Z, each
+ * link 1 m long, with a fixed tip frame at the end. Reach is 2 m.
+ */
+function twoLinkArm(limit = { lower: -Math.PI, upper: Math.PI }) {
+  return buildChain([
+    { joint: "shoulder", link: "upper", limit },
+    { joint: "elbow", link: "fore", origin: [1, 0, 0], limit },
+    { joint: "tip_joint", link: "tip", type: "fixed", origin: [1, 0, 0] },
+  ]);
+}
+
+const chain = { base: "base", tip: "tip" };
+
+describe("chainJoints", () => {
+  it("lists movable joints base first, skipping fixed ones", () => {
+    expect(chainJoints(twoLinkArm(), chain).map((j) => j.name)).toEqual(["shoulder", "elbow"]);
+  });
+
+  it("is empty when the tip is not below the base", () => {
+    expect(chainJoints(twoLinkArm(), { base: "tip", tip: "upper" })).toEqual([]);
+  });
+
+  it("bounds the reach by the link lengths", () => {
+    const robot = twoLinkArm();
+    expect(chainReach(chainJoints(robot, chain), robot.links.tip)).toBeCloseTo(2);
+  });
+});
+
+describe("solveIkCcd", () => {
+  it("converges on a target inside the workspace", () => {
+    const robot = twoLinkArm();
+    const target = new THREE.Vector3(1, 1, 0);
+    const result = solveIkCcd(robot, chain, target);
+    expect(result.status).toBe("converged");
+    expect(result.error).toBeLessThanOrEqual(0.005);
+    expect(robot.links.tip.getWorldPosition(new THREE.Vector3()).distanceTo(target)).toBeLessThanOrEqual(0.005);
+    expect(Object.keys(result.values)).toEqual(["shoulder", "elbow"]);
+  });
+
+  it("reports a target beyond the stretched arm as out of reach", () => {
+    const result = solveIkCcd(twoLinkArm(), chain, new THREE.Vector3(0, 3, 0));
+    expect(result.status).toBe("outOfReach");
+    // The arm still points straight at it
+    expect(result.error).toBeCloseTo(1, 2);
+  });
+
+  it("reports running out of iterations separately from being out of reach", () => {
+    const result = solveIkCcd(twoLinkArm(), chain, new THREE.Vector3(-1, 0.5, 0), { maxIterations: 1 });
+    expect(result.status).toBe("notConverged");
+    expect(result.iterations).toBe(1);
+    expect(result.error).toBeGreaterThan(0.005);
+  });
+
+  it("keeps every joint inside its limits", () => {
+    const limit = { lower: -0.5, upper: 0.5 };
+    const result = solveIkCcd(twoLinkArm(limit), chain, new THREE.Vector3(0, 1.5, 0));
+    Object.values(result.values).forEach((v) => {
+      expect(v).toBeGreaterThanOrEqual(limit.lower);
+      expect(v).toBeLessThanOrEqual(limit.upper);
+    });
+    // Within the arm's length, but not within its limits
+    expect(result.status).toBe("notConverged");
+  });
+});
@@ -0,0 +1,168 @@
+import * as THREE from "three";
+import type { URDFJoint, URDFRobot } from "urdf-loader";
+import { clampJointValue, getJointValue, jointInfo, jointTypeOf, type JointValues } from "@/lib/urdf";
+
+export type LinkPose = {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  /** URDF convention: roll about X, pitch about Y, yaw about Z (R = Rz·Ry·Rx) */
+  rpy: { roll: number; pitch: number; yaw: number };
+};
+
+const _m = new THREE.Matrix4();
+
+/**
+ * Forward kinematics for one link: compose local transforms (joint origins and
+ * current joint motion, as maintained by urdf-loader) from the link up to the
+ * robot root. The result is in the robot base frame, i.e. URDF world (Z-up),
+ * independent of where the robot sits in the three.js scene.
+ */
+export function linkTransform(robot: URDFRobot, linkName: string, target = new THREE.Matrix4()) {
+  const link = robot.links?.[linkName] ?? robot.frames?.[linkName];
+  if (!link) return null;
+  target.identity();
+  let node: THREE.Object3D | null = link;
+  while (node && node !== robot) {
+    node.updateMatrix();
+    target.premultiply(_m.copy(node.matrix));
+    node = node.parent;
+  }
+  return node === robot ? target : null;
+}
+
+export function linkPose(robot: URDFRobot, linkName: string): LinkPose | null {
+  const m = linkTransform(robot, linkName);
+  if (!m) return null;
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  m.decompose(position, quaternion, new THREE.Vector3());
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, "ZYX");
+  return { position, quaternion, rpy: { roll: euler.x, pitch: euler.y, yaw: euler.z } };
+}
+
+/** Link names in tree order, for pickers. */
+export function linkNames(robot: URDFRobot): string[] {
+  return Object.keys(robot.links ?? {});
+}
+
+/** Serial chain for IK: every movable joint between base and tip link. */
+export type IkChain = { base: string; tip: string };
+
+/**
+ * "converged": the tip is within tolerance. "outOfReach": the target lies
+ * beyond the chain's fully stretched length, so no pose can get there.
+ * "notConverged": it may be reachable, but the solver ran out of iterations
+ * (or stalled against joint limits) first.
+ */
+export type IkStatus = "converged" | "outOfReach" | "notConverged";
+
+export type IkResult = {
+  values: JointValues;
+  /** Remaining tip-to-target distance in metres */
+  error: number;
+  status: IkStatus;
+  iterations: number;
+};
+
+/** Movable joints from the base link out to the tip link, base first. */
+export function chainJoints(robot: URDFRobot, chain: IkChain): URDFJoint[] {
+  const tip = robot.links?.[chain.tip];
+  const base = robot.links?.[chain.base];
+  if (!tip || !base) return [];
+  const joints: URDFJoint[] = [];
+  let node: THREE.Object3D | null = tip;
+  while (node && node !== base) {
+    const joint = node as URDFJoint;
+    if (joint.isURDFJoint && jointTypeOf(joint) !== "fixed") joints.unshift(joint);
+    node = node.parent;
+  }
+  return node === base ? joints : [];
+}
+
+/**
+ * Upper bound on how far the tip can get from the first joint's current
+ * pivot: the distances between successive pivots and out to the tip, plus the
+ * full travel of every prismatic joint.
+ */
+export function chainReach(joints: URDFJoint[], tipLink: THREE.Object3D) {
+  let reach = 0;
+  const from = new THREE.Vector3();
+  const to = new THREE.Vector3();
+  joints.forEach((joint, i) => {
+    joint.getWorldPosition(from);
+    (joints[i + 1] ?? tipLink).getWorldPosition(to);
+    reach += from.distanceTo(to);
+    if (jointTypeOf(joint) === "prismatic") {
+      const { limit } = jointInfo(joint);
+      reach += limit ? limit.upper - limit.lower : Infinity;
+    }
+  });
+  return reach;
+}
+
+const _tip = new THREE.Vector3();
+const _pivot = new THREE.Vector3();
+const _axis = new THREE.Vector3();
+const _toTip = new THREE.Vector3();
+const _toTarget = new THREE.Vector3();
+const _q = new THREE.Quaternion();
+
+/**
+ * Cyclic coordinate descent towards a world-space target position, clamped to
+ * joint limits at every step. Mutates the robot's joints (starting from its
+ * current pose) and returns the chain's solved values.
+ */
+export function solveIkCcd(
+  robot: URDFRobot,
+  chain: IkChain,
+  target: THREE.Vector3,
+  { maxIterations = 24, tolerance = 0.005, maxStep = 0.6 } = {}
+): IkResult {
+  const joints = chainJoints(robot, chain);
+  const tipLink = robot.links?.[chain.tip];
+  const values: JointValues = {};
+  if (!tipLink || joints.length === 0) {
+    return { values, error: Infinity, status: "outOfReach", iterations: 0 };
+  }
+  const infos = joints.map((j) => jointInfo(j));
+
+  robot.updateMatrixWorld(true);
+  const outOfReach = joints[0].getWorldPosition(_pivot).distanceTo(target) > chainReach(joints, tipLink) + tolerance;
+  let error = tipLink.getWorldPosition(_tip).distanceTo(target);
+  let iterations = 0;
+
+  while (iterations < maxIterations && error > tolerance) {
+    iterations++;
+    for (let i = joints.length - 1; i >= 0; i--) {
+      const joint = joints[i];
+      joint.getWorldPosition(_pivot);
+      joint.getWorldQuaternion(_q);
+      // Rotating about its own axis leaves the axis fixed, so the joint's
+      // current world rotation maps it correctly.
+      _axis.copy(joint.axis).applyQuaternion(_q).normalize();
+      tipLink.getWorldPosition(_tip);
+
+      const current = getJointValue(joint);
+      let next = current;
+      if (jointTypeOf(joint) === "prismatic") {
+        next = current + _toTarget.subVectors(target, _tip).dot(_axis);
+      } else {
+        _toTip.subVectors(_tip, _pivot).projectOnPlane(_axis);
+        _toTarget.subVectors(target, _pivot).projectOnPlane(_axis);
+        if (_toTip.lengthSq() < 1e-10 || _toTarget.lengthSq() < 1e-10) continue;
+        const angle = Math.atan2(_axis.dot(_toTip.clone().cross(_toTarget)), _toTip.dot(_toTarget));
+        next = current + THREE.MathUtils.clamp(angle, -maxStep, maxStep);
+      }
+      next = clampJointValue(infos[i], next);
+      if (next !== current) {
+        joint.setJointValue(next);
+        joint.updateMatrixWorld(true);
+      }
+    }
+    error = tipLink.getWorldPosition(_tip).distanceTo(target);
+  }
+
+  joints.forEach((j) => (values[j.name] = getJointValue(j)));
+  const status: IkStatus = error <= tolerance ? "converged" : outOfReach ? "outOfReach" : "notConverged";
+  return { values, error, status, iterations };
+}
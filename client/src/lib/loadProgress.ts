@@ -0,0 +1,88 @@
+import type * as THREE from "three";
+
+/** Asset loading state for one robot: file counts from its LoadingManager, bytes where servers report them. */
+export type LoadProgress = {
+  /** Files finished, including failed ones */
+  loaded: number;
+  total: number;
+  /** Bytes received so far, over requests that reported progress */
+  bytesLoaded: number;
+  /** Sum of Content-Length over those requests; null until every one of them has sent it */
+  bytesTotal: number | null;
+  /** URLs that failed to load, in order */
+  failed: string[];
+  done: boolean;
+};
+
+export const EMPTY_PROGRESS: LoadProgress = { loaded: 0, total: 0, bytesLoaded: 0, bytesTotal: null, failed: [], done: false };
+
+/** 0..1 for a progress bar. Files, not bytes: the byte total only covers requests that have started. */
+export function progressFraction(progress: LoadProgress) {
+  if (progress.done) return 1;
+  return progress.total > 0 ? progress.loaded / progress.total : 0;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Collects a LoadingManager's progress and failures, plus per-request byte
+ * counts from loaders' onProgress, and fans them out to subscribers. The
+ * owner calls finish() when the load settles (the manager's single onLoad
+ * slot stays with it); listeners are dropped then.
+ */
+export class LoadTracker {
+  private state: LoadProgress = EMPTY_PROGRESS;
+  private listeners = new Set<(progress: LoadProgress) => void>();
+  private bytes = new Map<string, { loaded: number; total: number | null }>();
+
+  constructor(manager: THREE.LoadingManager) {
+    manager.onProgress = (_url, loaded, total) => this.set({ loaded, total });
+    manager.onError = (url) => {
+      console.error("Asset failed to load", url);
+      this.set({ failed: [...this.state.failed, url] });
+    };
+  }
+
+  get progress() {
+    return this.state;
+  }
+
+  /** onProgress handler for one request, e.g. STLLoader.load(url, done, tracker.bytesFor(url)). */
+  bytesFor(url: string) {
+    return (event: ProgressEvent) => {
+      this.bytes.set(url, { loaded: event.loaded, total: event.lengthComputable ? event.total : null });
+      let bytesLoaded = 0;
+      let bytesTotal: number | null = 0;
+      this.bytes.forEach((b) => {
+        bytesLoaded += b.loaded;
+        bytesTotal = bytesTotal === null || b.total === null ? null : bytesTotal + b.total;
+      });
+      this.set({ bytesLoaded, bytesTotal });
+    };
+  }
+
+  /** Calls `listener` now with the current state and on every change until the load finishes. */
+  subscribe(listener: (progress: LoadProgress) => void) {
+    listener(this.state);
+    if (this.state.done) return () => {};
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  finish() {
+    this.set({ done: true });
+    this.listeners.clear();
+  }
+
+  private set(patch: Partial<LoadProgress>) {
+    if (this.state.done) return;
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import type { URDFRobot } from "urdf-loader";
+import { dampTowards, solveLookAt, type DampedValue } from "@/lib/lookAt";
+import { buildChain } from "@/lib/testRobots";
+
+/**
+ * Head on a 1 m post: pan about Z, tilt about Y 0.1 m in front of the pan
+ * axis, and a camera offset forward and up from the tilt axis, so neither
+ * joint turns the camera about its own origin.
+ */
+function panTiltHead(panLimit = Math.PI, tiltLimit = Math.PI / 2) {
+  return buildChain([
+    { joint: "pan_joint", link: "pan_link", origin: [0, 0, 1], limit: { lower: -panLimit, upper: panLimit } },
+    {
+      joint: "tilt_joint",
+      link: "tilt_link",
+      axis: [0, 1, 0],
+      origin: [0.1, 0, 0],
+      limit: { lower: -tiltLimit, upper: tiltLimit },
+    },
+    { joint: "camera_joint", link: "camera", type: "fixed", origin: [0.05, 0, 0.05] },
+  ]);
+}
+
+const unit = { pan: "pan_joint", tilt: "tilt_joint", sensor: "camera" };
+
+/** Angle between the camera's +X and the target once the solution is applied. */
+function aimError(robot: URDFRobot, pan: number, tilt: number, target: THREE.Vector3) {
+  robot.setJointValue("pan_joint", pan);
+  robot.setJointValue("tilt_joint", tilt);
+  robot.updateMatrixWorld(true);
+  const camera = robot.links.camera.matrixWorld;
+  const origin = new THREE.Vector3().setFromMatrixPosition(camera);
+  const forward = new THREE.Vector3(1, 0, 0).transformDirection(camera);
+  return forward.angleTo(target.clone().sub(origin));
+}
+
+describe("solveLookAt", () => {
+  it("points an offset sensor at a target within the limits", () => {
+    const robot = panTiltHead();
+    const target = new THREE.Vector3(1, 2, 0.3);
+    const result = solveLookAt(robot, unit, target)!;
+    expect(result.reachable).toBe(true);
+    expect(result.error).toBeLessThanOrEqual(1e-3);
+    expect(aimError(robot, result.pan, result.tilt, target)).toBeLessThanOrEqual(1e-3);
+  });
+
+  it("leaves the joints where they were", () => {
+    const robot = panTiltHead();
+    robot.setJointValue("pan_joint", 0.2);
+    solveLookAt(robot, unit, new THREE.Vector3(-1, 1, 2));
+    expect(robot.joints.pan_joint.angle).toBe(0.2);
+    expect(robot.joints.tilt_joint.angle).toBe(0);
+  });
+
+  it("holds pan at its limit for a target behind the head", () => {
+    const robot = panTiltHead(1);
+    const result = solveLookAt(robot, unit, new THREE.Vector3(-2, 0.5, 1))!;
+    expect(result.pan).toBeCloseTo(1);
+    expect(result.reachable).toBe(false);
+    expect(result.error).toBeGreaterThan(0.1);
+  });
+
+  it("holds tilt at its limit for a target almost overhead", () => {
+    const robot = panTiltHead(Math.PI, 0.5);
+    const result = solveLookAt(robot, unit, new THREE.Vector3(0.5, 0, 5))!;
+    expect(Math.abs(result.tilt)).toBeCloseTo(0.5);
+    expect(result.reachable).toBe(false);
+  });
+
+  it("is null when the unit's joints are missing", () => {
+    expect(solveLookAt(panTiltHead(), { pan: "nope", tilt: "tilt_joint" }, new THREE.Vector3(1, 0, 1))).toBeNull();
+  });
+});
+
+/** Run the follower at a fixed frame time; returns every value it passed through. */
+function follow(state: DampedValue, target: number, smoothTime: number, dt: number, duration: number) {
+  const values: number[] = [];
+  for (let t = 0; t < duration - 1e-9; t += dt) values.push(dampTowards(state, target, smoothTime, dt).value);
+  return values;
+}
+
+describe("dampTowards", () => {
+  it("settles on the target without overshooting", () => {
+    const values = follow({ value: 0, velocity: 0 }, 1, 0.2, 1 / 60, 2);
+    values.forEach((v) => expect(v).toBeLessThanOrEqual(1));
+    values.slice(1).forEach((v, i) => expect(v).toBeGreaterThanOrEqual(values[i]));
+    expect(values[values.length - 1]).toBeCloseTo(1, 3);
+  });
+
+  it("covers most of the distance in about smoothTime", () => {
+    const state = { value: 0, velocity: 0 };
+    follow(state, 1, 0.5, 1 / 60, 0.5);
+    expect(state.value).toBeGreaterThan(0.5);
+    expect(state.value).toBeLessThan(0.9);
+  });
+
+  it("gives nearly the same motion at different frame rates", () => {
+    const slow = { value: 0, velocity: 0 };
+    const fast = { value: 0, velocity: 0 };
+    follow(slow, 1, 0.3, 1 / 30, 0.4);
+    follow(fast, 1, 0.3, 1 / 240, 0.4);
+    expect(slow.value).toBeCloseTo(fast.value, 2);
+  });
+
+  it("stays stable with a frame time far above smoothTime", () => {
+    const state = dampTowards({ value: 0, velocity: 0 }, 1, 0.01, 1);
+    expect(state.value).toBeGreaterThan(0.99);
+    expect(state.value).toBeLessThanOrEqual(1);
+  });
+
+  it("brings a moving follower to rest without overshooting", () => {
+    const values = follow({ value: 0, velocity: 5 }, 0, 0.2, 1 / 60, 3);
+    const peak = Math.max(...values);
+    values.slice(values.indexOf(peak)).forEach((v) => expect(v).toBeGreaterThanOrEqual(-1e-6));
+    expect(values[values.length - 1]).toBeCloseTo(0, 3);
+  });
+});
@@ -0,0 +1,133 @@
+import * as THREE from "three";
+import type { URDFRobot } from "urdf-loader";
+import { clampJointValue, getJointValue, jointInfo } from "@/lib/urdf";
+
+/**
+ * A pan-tilt unit: two revolute joints in series (pan nearer the base) and the
+ * frame that should face the target. Axes and origins come from the URDF, so
+ * any head, turret or camera mount works, not just Fetch's.
+ */
+export type PanTiltUnit = {
+  pan: string;
+  tilt: string;
+  /** Link or frame to aim, e.g. the camera; defaults to the tilt joint's frame */
+  sensor?: string;
+  /** Viewing direction in the sensor frame. Default +X (ROS body convention) */
+  forward?: [number, number, number];
+};
+
+export type LookAtResult = {
+  pan: number;
+  tilt: number;
+  /** Angle between the sensor's forward axis and the target, in radians */
+  error: number;
+  /** False when joint limits stop the sensor from facing the target */
+  reachable: boolean;
+  iterations: number;
+};
+
+const _panFrame = new THREE.Matrix4();
+const _tiltFrame = new THREE.Matrix4();
+const _sensorFrame = new THREE.Matrix4();
+const _panToTilt = new THREE.Matrix4();
+const _tiltToSensor = new THREE.Matrix4();
+const _turn = new THREE.Matrix4();
+const _pivot = new THREE.Vector3();
+const _axis = new THREE.Vector3();
+const _origin = new THREE.Vector3();
+const _dir = new THREE.Vector3();
+const _aim = new THREE.Vector3();
+const _toAim = new THREE.Vector3();
+const _toTarget = new THREE.Vector3();
+
+/** Rotation about `axis` that carries the sensor ray's point nearest the target's range onto the target. */
+function stepAbout(frame: THREE.Matrix4, axis: THREE.Vector3, sensor: THREE.Matrix4, forward: THREE.Vector3, target: THREE.Vector3) {
+  _pivot.setFromMatrixPosition(frame);
+  _axis.copy(axis).transformDirection(frame);
+  _origin.setFromMatrixPosition(sensor);
+  _dir.copy(forward).transformDirection(sensor);
+  _aim.copy(_dir).multiplyScalar(_origin.distanceTo(target)).add(_origin);
+  _toAim.subVectors(_aim, _pivot).projectOnPlane(_axis);
+  _toTarget.subVectors(target, _pivot).projectOnPlane(_axis);
+  if (_toAim.lengthSq() < 1e-12 || _toTarget.lengthSq() < 1e-12) return 0;
+  const cos = _toAim.dot(_toTarget);
+  return Math.atan2(_axis.dot(_toAim.cross(_toTarget)), cos);
+}
+
+/**
+ * Pan and tilt angles that point the unit's sensor at a world-space target,
+ * clamped to joint limits. Neither joint is moved: frames at trial angles are
+ * built from the joints' current world matrices (urdf-loader applies the joint
+ * rotation after the origin, so turning by Δ post-multiplies a rotation about
+ * the axis). Alternates exact per-joint steps, which converges in a few
+ * iterations even with the sensor offset from both axes.
+ */
+export function solveLookAt(
+  robot: URDFRobot,
+  unit: PanTiltUnit,
+  target: THREE.Vector3,
+  { maxIterations = 8, tolerance = 1e-3 } = {}
+): LookAtResult | null {
+  const pan = robot.joints?.[unit.pan];
+  const tilt = robot.joints?.[unit.tilt];
+  const sensor = unit.sensor ? robot.links?.[unit.sensor] ?? robot.frames?.[unit.sensor] : tilt;
+  if (!pan || !tilt || !sensor) return null;
+
+  pan.updateWorldMatrix(true, true);
+  const panNow = getJointValue(pan);
+  const tiltNow = getJointValue(tilt);
+  const forward = new THREE.Vector3(...(unit.forward ?? [1, 0, 0])).normalize();
+  const panInfo = jointInfo(pan);
+  const tiltInfo = jointInfo(tilt);
+  _panToTilt.copy(pan.matrixWorld).invert().multiply(tilt.matrixWorld);
+  _tiltToSensor.copy(tilt.matrixWorld).invert().multiply(sensor.matrixWorld);
+
+  let panAngle = panNow;
+  let tiltAngle = tiltNow;
+  const frames = () => {
+    _panFrame.copy(pan.matrixWorld).multiply(_turn.makeRotationAxis(pan.axis, panAngle - panNow));
+    _tiltFrame.copy(_panFrame).multiply(_panToTilt).multiply(_turn.makeRotationAxis(tilt.axis, tiltAngle - tiltNow));
+    _sensorFrame.copy(_tiltFrame).multiply(_tiltToSensor);
+  };
+
+  let iterations = 0;
+  while (iterations < maxIterations) {
+    iterations++;
+    frames();
+    const nextTilt = clampJointValue(tiltInfo, tiltAngle + stepAbout(_tiltFrame, tilt.axis, _sensorFrame, forward, target));
+    const tiltStep = nextTilt - tiltAngle;
+    tiltAngle = nextTilt;
+    frames();
+    const nextPan = clampJointValue(panInfo, panAngle + stepAbout(_panFrame, pan.axis, _sensorFrame, forward, target));
+    const panStep = nextPan - panAngle;
+    panAngle = nextPan;
+    if (Math.abs(tiltStep) + Math.abs(panStep) < tolerance * 0.1) break;
+  }
+
+  frames();
+  _origin.setFromMatrixPosition(_sensorFrame);
+  _dir.copy(forward).transformDirection(_sensorFrame);
+  const error = _dir.angleTo(_toTarget.subVectors(target, _origin));
+  return { pan: panAngle, tilt: tiltAngle, error, reachable: error <= tolerance, iterations };
+}
+
+/** Position and velocity of a critically damped follower (see dampTowards). */
+export type DampedValue = { value: number; velocity: number };
+
+/**
+ * Critically damped step towards `target`: no overshoot, and a moving target
+ * is followed smoothly instead of with the lag-and-snap of a fixed lerp.
+ * `smoothTime` is roughly the time to cover most of the distance. Mutates and
+ * returns `state`.
+ */
+export function dampTowards(state: DampedValue, target: number, smoothTime: number, dt: number): DampedValue {
+  const omega = 2 / Math.max(1e-4, smoothTime);
+  const x = omega * dt;
+  // Padé approximation of exp(-x), stable for any frame time
+  const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+  const change = state.value - target;
+  const temp = (state.velocity + omega * change) * dt;
+  state.velocity = (state.velocity - omega * temp) * decay;
+  state.value = target + (change + temp) * decay;
+  return state;
+}
@@ -0,0 +1,764 @@
+import * as THREE from "three";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import type { URDFCollider, URDFJoint, URDFLink, URDFRobot, URDFVisual } from "urdf-loader";
+import { LoadTracker, type LoadProgress } from "@/lib/loadProgress";
+import { smoothMaterials } from "@/lib/urdf";
+
+type Vec3 = [number, number, number];
+/** MJCF quaternion order: w x y z */
+type Quat = [number, number, number, number];
+type Rgba = [number, number, number, number];
+
+export type MjcfJointType = "hinge" | "slide" | "ball" | "free";
+
+export type MjcfJoint = {
+  name: string;
+  type: MjcfJointType;
+  /** In the body frame */
+  pos: Vec3;
+  axis: Vec3;
+  /** Radians (hinge) or metres (slide); null when the joint is unlimited */
+  range: [number, number] | null;
+  damping: number;
+  frictionloss: number;
+  armature: number;
+  stiffness: number;
+  className: string;
+};
+
+export type MjcfGeomType = "mesh" | "box" | "sphere" | "cylinder" | "capsule" | "ellipsoid" | "plane";
+
+/** Whether a geom is drawn, collides, or both (see geomRoles). */
+export type MjcfGeomRole = "visual" | "collision" | "both";
+
+export type MjcfGeom = {
+  name: string;
+  type: MjcfGeomType;
+  size: number[];
+  pos: Vec3;
+  quat: Quat;
+  mesh?: string;
+  material?: string;
+  rgba?: Rgba;
+  /** null when neither the geom nor its classes set one */
+  group: number | null;
+  /** False for visual-only geoms (contype = conaffinity = 0) */
+  collides: boolean;
+  role: MjcfGeomRole;
+  className: string;
+};
+
+export type MjcfSite = { name: string; pos: Vec3; quat: Quat; group: number };
+
+export type MjcfInertial = {
+  pos: Vec3;
+  quat: Quat;
+  mass: number;
+  /** ixx iyy izz ixy ixz iyz in the inertial frame */
+  inertia: [number, number, number, number, number, number];
+};
+
+export type MjcfBody = {
+  name: string;
+  pos: Vec3;
+  quat: Quat;
+  childclass?: string;
+  joints: MjcfJoint[];
+  geoms: MjcfGeom[];
+  sites: MjcfSite[];
+  inertial: MjcfInertial | null;
+  children: MjcfBody[];
+};
+
+export type MjcfActuator = {
+  name: string;
+  /** Element name: position, motor, velocity, general, ... */
+  type: string;
+  joint: string;
+  className: string;
+  kp: number | null;
+  kv: number | null;
+  gear: number;
+  ctrlrange: [number, number] | null;
+  forcerange: [number, number] | null;
+};
+
+/** A default class with its attributes per element, already merged with its ancestors. */
+export type MjcfDefaultClass = {
+  parent: string | null;
+  attrs: Record<string, Record<string, string>>;
+};
+
+/** Plain-data MuJoCo model: everything the viewer (and anything headless) needs. */
+export type MjcfModel = {
+  name: string;
+  meshdir: string;
+  meshes: Record<string, { file: string; scale: Vec3 }>;
+  materials: Record<string, Rgba>;
+  defaults: Record<string, MjcfDefaultClass>;
+  /** The world body; its geoms are static scenery and its children the robot */
+  worldbody: MjcfBody;
+  actuators: MjcfActuator[];
+  gravity: Vec3;
+  timestep: number;
+};
+
+const ROOT_CLASS = "main";
+const ACTUATOR_TAGS = ["position", "velocity", "motor", "general", "intvelocity"];
+
+const childElements = (el: Element, tag?: string) =>
+  Array.from(el.children).filter((c) => !tag || c.tagName === tag);
+
+const numbers = (s: string | undefined) =>
+  (s ?? "").trim().split(/\s+/).filter(Boolean).map(Number);
+
+function ownAttrs(el: Element): Record<string, string> {
+  const out: Record<string, string> = {};
+  Array.from(el.attributes).forEach((a) => {
+    if (a.name !== "class") out[a.name] = a.value;
+  });
+  return out;
+}
+
+function parseDefault(el: Element, parent: string | null, out: Record<string, MjcfDefaultClass>) {
+  const name = el.getAttribute("class") ?? ROOT_CLASS;
+  // A class can be declared in several <default> blocks (the top level often is)
+  const inherited = out[name]?.attrs ?? (parent ? out[parent].attrs : {});
+  const attrs: MjcfDefaultClass["attrs"] = {};
+  Object.entries(inherited).forEach(([tag, a]) => (attrs[tag] = { ...a }));
+  childElements(el)
+    .filter((c) => c.tagName !== "default")
+    .forEach((c) => (attrs[c.tagName] = { ...attrs[c.tagName], ...ownAttrs(c) }));
+  out[name] = { parent: out[name]?.parent ?? parent, attrs };
+  childElements(el, "default").forEach((c) => parseDefault(c, name, out));
+}
+
+type Context = {
+  defaults: Record<string, MjcfDefaultClass>;
+  degrees: boolean;
+  eulerseq: string;
+};
+
+/** Element attributes on top of its class defaults (explicit class, else the inherited childclass). */
+function resolveAttrs(ctx: Context, el: Element, inheritedClass: string) {
+  const className = el.getAttribute("class") ?? inheritedClass;
+  const defaults = ctx.defaults[className]?.attrs[el.tagName] ?? {};
+  return { attrs: { ...defaults, ...ownAttrs(el) }, className };
+}
+
+const vec3 = (s: string | undefined, fallback: Vec3): Vec3 => {
+  const v = numbers(s);
+  return v.length >= 3 ? [v[0], v[1], v[2]] : fallback;
+};
+
+const pair = (s: string | undefined): [number, number] | null => {
+  const v = numbers(s);
+  return v.length >= 2 ? [v[0], v[1]] : null;
+};
+
+const toQuat = (q: THREE.Quaternion): Quat => [q.w, q.x, q.y, q.z];
+
+/** Any of MJCF's orientation spellings -> w x y z quaternion. */
+function orientation(ctx: Context, attrs: Record<string, string>): Quat {
+  const angle = (a: number) => (ctx.degrees ? THREE.MathUtils.degToRad(a) : a);
+  if (attrs.quat) {
+    const [w, x, y, z] = numbers(attrs.quat);
+    const q = new THREE.Quaternion(x, y, z, w).normalize();
+    return toQuat(q);
+  }
+  if (attrs.axisangle) {
+    const [x, y, z, a] = numbers(attrs.axisangle);
+    const axis = new THREE.Vector3(x, y, z).normalize();
+    return toQuat(new THREE.Quaternion().setFromAxisAngle(axis, angle(a)));
+  }
+  if (attrs.euler) {
+    const [a, b, c] = numbers(attrs.euler).map(angle);
+    // Lower-case sequences rotate with the frame (intrinsic), which is how
+    // three.js orders Euler angles; upper-case (extrinsic) is the reverse.
+    const seq = ctx.eulerseq;
+    const intrinsic = seq === seq.toLowerCase();
+    const order = (intrinsic ? seq.toUpperCase() : seq.split("").reverse().join("")) as THREE.EulerOrder;
+    const byAxis: Record<string, number> = {};
+    seq.toLowerCase().split("").forEach((axis, i) => (byAxis[axis] = [a, b, c][i]));
+    return toQuat(new THREE.Quaternion().setFromEuler(new THREE.Euler(byAxis.x, byAxis.y, byAxis.z, order)));
+  }
+  if (attrs.zaxis) {
+    const z = new THREE.Vector3(...vec3(attrs.zaxis, [0, 0, 1])).normalize();
+    return toQuat(new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), z));
+  }
+  return [1, 0, 0, 0];
+}
+
+function parseJoint(ctx: Context, el: Element, cls: string, index: number, body: string): MjcfJoint {
+  const { attrs, className } = resolveAttrs(ctx, el, cls);
+  const type = (attrs.type ?? "hinge") as MjcfJointType;
+  let range = pair(attrs.range);
+  // autolimits: a range makes the joint limited unless limited="false"
+  if (attrs.limited === "false") range = null;
+  if (range && type === "hinge" && ctx.degrees) range = [THREE.MathUtils.degToRad(range[0]), THREE.MathUtils.degToRad(range[1])];
+  return {
+    name: attrs.name ?? `${body}_joint${index}`,
+    type,
+    pos: vec3(attrs.pos, [0, 0, 0]),
+    axis: vec3(attrs.axis, [0, 0, 1]),
+    range,
+    damping: Number(attrs.damping ?? 0),
+    frictionloss: Number(attrs.frictionloss ?? 0),
+    armature: Number(attrs.armature ?? 0),
+    stiffness: Number(attrs.stiffness ?? 0),
+    className,
+  };
+}
+
+function parseGeom(ctx: Context, el: Element, cls: string, index: number, body: string): MjcfGeom {
+  const { attrs, className } = resolveAttrs(ctx, el, cls);
+  const rgba = numbers(attrs.rgba);
+  return {
+    name: attrs.name ?? `${body}_geom${index}`,
+    type: (attrs.type ?? (attrs.mesh ? "mesh" : "sphere")) as MjcfGeomType,
+    size: numbers(attrs.size),
+    pos: vec3(attrs.pos, [0, 0, 0]),
+    quat: orientation(ctx, attrs),
+    mesh: attrs.mesh,
+    material: attrs.material,
+    rgba: rgba.length === 4 ? (rgba as Rgba) : undefined,
+    group: attrs.group === undefined ? null : Number(attrs.group),
+    collides: Number(attrs.contype ?? 1) !== 0 || Number(attrs.conaffinity ?? 1) !== 0,
+    // Settled per body by geomRoles
+    role: "both",
+    className,
+  };
+}
+
+// MuJoCo's convention: groups 0-2 are drawn, group 3 and up hold collision-only geoms
+const FIRST_COLLISION_GROUP = 3;
+
+/**
+ * Decide which of a body's geoms are drawn and which collide. With a group,
+ * the group says whether a colliding geom is also drawn. Without one, a
+ * colliding geom is collision-only when the body has visual-only geoms to
+ * draw instead, and otherwise does both jobs.
+ */
+function geomRoles(geoms: MjcfGeom[]): MjcfGeom[] {
+  const hasVisualOnly = geoms.some((g) => !g.collides);
+  return geoms.map((g) => {
+    let role: MjcfGeomRole;
+    if (!g.collides) role = "visual";
+    else if (g.group !== null) role = g.group < FIRST_COLLISION_GROUP ? "both" : "collision";
+    else role = hasVisualOnly ? "collision" : "both";
+    return { ...g, role };
+  });
+}
+
+function parseInertial(ctx: Context, el: Element): MjcfInertial {
+  const attrs = ownAttrs(el);
+  const full = numbers(attrs.fullinertia);
+  const diag = numbers(attrs.diaginertia);
+  return {
+    pos: vec3(attrs.pos, [0, 0, 0]),
+    quat: orientation(ctx, attrs),
+    mass: Number(attrs.mass ?? 0),
+    inertia:
+      full.length === 6
+        ? [full[0], full[1], full[2], full[3], full[4], full[5]]
+        : [diag[0] ?? 0, diag[1] ?? 0, diag[2] ?? 0, 0, 0, 0],
+  };
+}
+
+function parseBody(ctx: Context, el: Element, inheritedClass: string, fallbackName: string): MjcfBody {
+  const attrs = ownAttrs(el);
+  const name = attrs.name ?? fallbackName;
+  const cls = attrs.childclass ?? inheritedClass;
+  const inertial = childElements(el, "inertial")[0];
+  return {
+    name,
+    pos: vec3(attrs.pos, [0, 0, 0]),
+    quat: orientation(ctx, attrs),
+    childclass: attrs.childclass,
+    joints: childElements(el, "joint").map((j, i) => parseJoint(ctx, j, cls, i, name)),
+    geoms: geomRoles(childElements(el, "geom").map((g, i) => parseGeom(ctx, g, cls, i, name))),
+    sites: childElements(el, "site").map((s, i) => {
+      const a = resolveAttrs(ctx, s, cls).attrs;
+      return { name: a.name ?? `${name}_site${i}`, pos: vec3(a.pos, [0, 0, 0]), quat: orientation(ctx, a), group: Number(a.group ?? 0) };
+    }),
+    inertial: inertial ? parseInertial(ctx, inertial) : null,
+    children: childElements(el, "body").map((b, i) => parseBody(ctx, b, cls, `${name}_body${i}`)),
+  };
+}
+
+function parseActuator(ctx: Context, el: Element, index: number): MjcfActuator {
+  const { attrs, className } = resolveAttrs(ctx, el, ROOT_CLASS);
+  const type = el.tagName;
+  const num = (v: string | undefined) => (v === undefined ? null : Number(v));
+  return {
+    name: attrs.name ?? `actuator${index}`,
+    type,
+    joint: attrs.joint ?? "",
+    className,
+    // MuJoCo's own defaults for the shortcut actuators
+    kp: num(attrs.kp) ?? (type === "position" ? 1 : null),
+    kv: num(attrs.kv) ?? (type === "velocity" ? 1 : null),
+    gear: numbers(attrs.gear)[0] ?? 1,
+    ctrlrange: attrs.ctrllimited === "false" ? null : pair(attrs.ctrlrange),
+    forcerange: attrs.forcelimited === "false" ? null : pair(attrs.forcerange),
+  };
+}
+
+/**
+ * Parse an MJCF document into plain data. Covers what robot descriptions
+ * exported for MuJoCo actually use: compiler settings, nested default
+ * classes (class/childclass), bodies, joints, geoms, sites, inertials,
+ * mesh and material assets, and joint actuators.
+ */
+export function parseMjcf(xml: string): MjcfModel {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName("parsererror").length || root.tagName !== "mujoco") {
+    throw new Error("Not a valid MJCF document");
+  }
+
+  const compiler = childElements(root, "compiler")[0];
+  const defaults: Record<string, MjcfDefaultClass> = { [ROOT_CLASS]: { parent: null, attrs: {} } };
+  childElements(root, "default").forEach((d) => parseDefault(d, null, defaults));
+
+  const materials: Record<string, Rgba> = {};
+  const meshes: MjcfModel["meshes"] = {};
+  childElements(root, "asset").forEach((asset) => {
+    childElements(asset, "material").forEach((m) => {
+      const rgba = numbers(m.getAttribute("rgba") ?? "1 1 1 1");
+      materials[m.getAttribute("name") ?? ""] = rgba as Rgba;
+    });
+    childElements(asset, "mesh").forEach((m) => {
+      const file = m.getAttribute("file") ?? "";
+      // Unnamed meshes are referenced by their file name without extension
+      const name = m.getAttribute("name") ?? file.replace(/^.*\//, "").replace(/\.[^.]+$/, "");
+      meshes[name] = { file, scale: vec3(m.getAttribute("scale") ?? undefined, [1, 1, 1]) };
+    });
+  });
+
+  const ctx: Context = {
+    defaults,
+    degrees: (compiler?.getAttribute("angle") ?? "degree") === "degree",
+    eulerseq: compiler?.getAttribute("eulerseq") ?? "xyz",
+  };
+
+  const option = childElements(root, "option")[0];
+  const worldbody = childElements(root, "worldbody")[0];
+  const actuators = childElements(root, "actuator").flatMap((a) =>
+    childElements(a).filter((el) => ACTUATOR_TAGS.includes(el.tagName))
+  );
+
+  return {
+    name: root.getAttribute("model") ?? "mjcf",
+    meshdir: compiler?.getAttribute("meshdir") ?? "",
+    meshes,
+    materials,
+    defaults,
+    worldbody: worldbody
+      ? parseBody(ctx, worldbody, ROOT_CLASS, "world")
+      : { name: "world", pos: [0, 0, 0], quat: [1, 0, 0, 0], joints: [], geoms: [], sites: [], inertial: null, children: [] },
+    actuators: actuators.map((el, i) => parseActuator(ctx, el, i)),
+    gravity: vec3(option?.getAttribute("gravity") ?? undefined, [0, 0, -9.81]),
+    timestep: Number(option?.getAttribute("timestep") ?? 0.002),
+  };
+}
+
+/** Every body below the world, depth first. */
+export function mjcfBodies(model: MjcfModel): MjcfBody[] {
+  const out: MjcfBody[] = [];
+  const visit = (b: MjcfBody) => {
+    out.push(b);
+    b.children.forEach(visit);
+  };
+  model.worldbody.children.forEach(visit);
+  return out;
+}
+
+type JointType = URDFJoint["jointType"];
+
+const JOINT_TYPES: Record<MjcfJointType, JointType> = {
+  hinge: "revolute",
+  slide: "prismatic",
+  // Multi-DoF joints are not posable through the scalar joint API
+  ball: "fixed",
+  free: "fixed",
+};
+
+/**
+ * One MJCF joint in the scene graph, speaking urdf-loader's joint API
+ * (jointType, axis, limit, jointValue, setJointValue) so the URDF helpers,
+ * FK readout and IK work unchanged.
+ */
+export class MjcfJointObject extends THREE.Object3D implements URDFJoint {
+  readonly isURDFJoint = true as const;
+  urdfNode = null;
+  urdfName = "";
+  mimicJoints = [];
+  jointType: JointType = "fixed";
+  axis = new THREE.Vector3(0, 0, 1);
+  limit = { lower: 0, upper: 0 };
+  ignoreLimits = false;
+  jointValue: number[] = [0];
+  origPosition: THREE.Vector3 | null = null;
+  origQuaternion: THREE.Quaternion | null = null;
+  /** The parsed joint, for dynamics and class info */
+  spec: MjcfJoint | null = null;
+
+  copy(source: this, recursive?: boolean) {
+    super.copy(source, recursive);
+    this.jointType = source.jointType;
+    this.axis = source.axis.clone();
+    this.limit = { ...source.limit };
+    this.ignoreLimits = source.ignoreLimits;
+    this.jointValue = [...source.jointValue];
+    this.origPosition = source.origPosition?.clone() ?? null;
+    this.origQuaternion = source.origQuaternion?.clone() ?? null;
+    this.urdfName = source.urdfName;
+    this.spec = source.spec;
+    return this;
+  }
+
+  get angle() {
+    return this.jointValue[0];
+  }
+
+  setJointValue(value: number | null) {
+    if (value === null) return false;
+    if (!this.origPosition || !this.origQuaternion) {
+      this.origPosition = this.position.clone();
+      this.origQuaternion = this.quaternion.clone();
+    }
+    let v = Number(value);
+    if (!Number.isFinite(v)) return false;
+    if (this.jointType !== "continuous" && this.jointType !== "fixed" && !this.ignoreLimits) {
+      v = THREE.MathUtils.clamp(v, this.limit.lower, this.limit.upper);
+    }
+    if (v === this.jointValue[0]) return false;
+    this.jointValue = [v];
+    if (this.jointType === "revolute" || this.jointType === "continuous") {
+      this.quaternion.setFromAxisAngle(this.axis, v).premultiply(this.origQuaternion);
+    } else if (this.jointType === "prismatic") {
+      this.position
+        .copy(this.axis)
+        .applyQuaternion(this.origQuaternion)
+        .multiplyScalar(v)
+        .add(this.origPosition);
+    }
+    this.matrixWorldNeedsUpdate = true;
+    return true;
+  }
+}
+
+/** One MJCF body, standing in for a URDF link. */
+export class MjcfLinkObject extends THREE.Object3D implements URDFLink {
+  readonly isURDFLink = true as const;
+  urdfNode = null;
+  urdfName = "";
+
+  constructor() {
+    super();
+    this.userData.mjcf = "body";
+  }
+
+  copy(source: this, recursive?: boolean) {
+    super.copy(source, recursive);
+    this.urdfName = source.urdfName;
+    return this;
+  }
+}
+
+/** Drawn geom. */
+export class MjcfVisualObject extends THREE.Mesh implements URDFVisual {
+  readonly isURDFVisual = true as const;
+  urdfNode = null;
+  urdfName = "";
+
+  constructor(geometry?: THREE.BufferGeometry, material?: THREE.Material) {
+    super(geometry, material);
+    this.userData.mjcf = "visual";
+  }
+
+  copy(source: this, recursive?: boolean) {
+    super.copy(source, recursive);
+    this.urdfName = source.urdfName;
+    return this;
+  }
+}
+
+/** Colliding geom; hidden unless collision geometry is shown. */
+export class MjcfColliderObject extends THREE.Mesh implements URDFCollider {
+  readonly isURDFCollider = true as const;
+  urdfNode = null;
+  urdfName = "";
+
+  constructor(geometry?: THREE.BufferGeometry, material?: THREE.Material) {
+    super(geometry, material);
+    this.userData.mjcf = "collision";
+    this.visible = false;
+  }
+
+  copy(source: this, recursive?: boolean) {
+    super.copy(source, recursive);
+    this.urdfName = source.urdfName;
+    return this;
+  }
+}
+
+/** Root of a built MJCF model; a URDFRobot as far as the URDF helpers can tell. */
+export class MjcfRobotObject extends THREE.Object3D implements URDFRobot {
+  readonly isURDFRobot = true as const;
+  readonly isURDFLink = true as const;
+  urdfNode = null;
+  urdfRobotNode = null;
+  urdfName = "";
+  robotName = "";
+  joints: Record<string, MjcfJointObject> = {};
+  links: Record<string, URDFLink> = {};
+  frames: Record<string, THREE.Object3D> = {};
+  colliders: Record<string, MjcfColliderObject> = {};
+  visual: Record<string, MjcfVisualObject> = {};
+  model: MjcfModel | null = null;
+
+  copy(source: this, recursive?: boolean) {
+    super.copy(source, recursive);
+    this.urdfName = source.urdfName;
+    this.robotName = source.robotName;
+    this.model = source.model;
+    this.indexNodes();
+    return this;
+  }
+
+  setJointValue(name: string, ...values: number[]) {
+    return this.joints[name]?.setJointValue(values[0]) ?? false;
+  }
+
+  setJointValues(values: Record<string, number | number[]>) {
+    let changed = false;
+    Object.entries(values).forEach(([name, v]) => {
+      changed = this.setJointValue(name, ...(Array.isArray(v) ? v : [v])) || changed;
+    });
+    return changed;
+  }
+
+  getFrame(name: string) {
+    return this.frames[name];
+  }
+
+  /** Rebuild the lookup maps from the tree (after construction or cloning). */
+  indexNodes() {
+    this.joints = {};
+    this.links = {};
+    this.colliders = {};
+    this.visual = {};
+    const sites: Record<string, THREE.Object3D> = {};
+    this.traverse((node) => {
+      const kind = node.userData.mjcf;
+      if (node instanceof MjcfJointObject) this.joints[node.name] = node;
+      else if (node instanceof MjcfLinkObject) this.links[node.name] = node;
+      else if (kind === "site") sites[node.name] = node;
+      else if (node instanceof MjcfColliderObject) this.colliders[node.name] = node;
+      else if (node instanceof MjcfVisualObject) this.visual[node.name] = node;
+    });
+    this.links[this.name] = this;
+    this.frames = { ...this.links, ...this.joints, ...sites };
+  }
+}
+
+const setPose = (node: THREE.Object3D, pos: Vec3, quat: Quat) => {
+  node.position.set(...pos);
+  node.quaternion.set(quat[1], quat[2], quat[3], quat[0]);
+};
+
+function primitiveGeometry(geom: MjcfGeom): THREE.BufferGeometry | null {
+  const [a = 0.05, b = a, c = b] = geom.size;
+  switch (geom.type) {
+    case "box":
+      return new THREE.BoxGeometry(2 * a, 2 * b, 2 * c);
+    case "sphere":
+      return new THREE.SphereGeometry(a, 24, 16);
+    case "ellipsoid":
+      return new THREE.SphereGeometry(1, 24, 16).scale(a, b, c);
+    // MuJoCo cylinders and capsules run along Z, three.js ones along Y
+    case "cylinder":
+      return new THREE.CylinderGeometry(a, a, 2 * b, 24).rotateX(Math.PI / 2);
+    case "capsule":
+      return new THREE.CapsuleGeometry(a, 2 * b, 8, 16).rotateX(Math.PI / 2);
+    default:
+      return null;
+  }
+}
+
+export type MjcfBuildOptions = {
+  /** Directory the MJCF file was loaded from; meshdir is resolved against it */
+  baseUrl: string;
+  manager?: THREE.LoadingManager;
+  /** Receives mesh download progress */
+  tracker?: LoadTracker;
+};
+
+/**
+ * Build a Three.js kinematic tree from a parsed model. Each body becomes a
+ * link object; a body with joints is placed at its frame and reached through
+ * its joint objects, so joint motion happens about the joint's own anchor.
+ * Mesh geoms stream in through the manager. A geom that is both drawn and
+ * collides gets a visual and a (hidden) collider mesh sharing its geometry,
+ * as a URDF link with matching visual and collision elements would.
+ */
+export function buildMjcfRobot(model: MjcfModel, { baseUrl, manager, tracker }: MjcfBuildOptions): MjcfRobotObject {
+  const robot = new MjcfRobotObject();
+  robot.name = robot.urdfName = model.worldbody.name;
+  robot.robotName = model.name;
+  robot.model = model;
+  const meshTargets = new Map<string, THREE.Mesh[]>();
+
+  const material = (geom: MjcfGeom) => {
+    const rgba = geom.rgba ?? (geom.material ? model.materials[geom.material] : undefined) ?? [0.7, 0.7, 0.7, 1];
+    return new THREE.MeshStandardMaterial({
+      color: new THREE.Color(rgba[0], rgba[1], rgba[2]),
+      opacity: rgba[3],
+      transparent: rgba[3] < 1,
+    });
+  };
+
+  const addGeom = (parent: THREE.Object3D, geom: MjcfGeom) => {
+    const isMesh = geom.type === "mesh" && geom.mesh && model.meshes[geom.mesh];
+    const geometry = isMesh ? new THREE.BufferGeometry() : primitiveGeometry(geom);
+    if (!geometry) return;
+    const nodes: (MjcfVisualObject | MjcfColliderObject)[] = [];
+    if (geom.role !== "collision") nodes.push(new MjcfVisualObject(geometry, material(geom)));
+    if (geom.role !== "visual") nodes.push(new MjcfColliderObject(geometry, material(geom)));
+    nodes.forEach((mesh) => {
+      mesh.name = mesh.urdfName = geom.name;
+      setPose(mesh, geom.pos, geom.quat);
+      if (isMesh) {
+        const asset = model.meshes[geom.mesh!];
+        mesh.scale.set(...asset.scale);
+        const list = meshTargets.get(asset.file) ?? [];
+        list.push(mesh);
+        meshTargets.set(asset.file, list);
+      }
+      parent.add(mesh);
+    });
+  };
+
+  const addBody = (parent: THREE.Object3D, body: MjcfBody) => {
+    const link = new MjcfLinkObject();
+    link.name = link.urdfName = body.name;
+
+    let attach = parent;
+    if (body.joints.length === 0) {
+      setPose(link, body.pos, body.quat);
+    } else {
+      const frame = new THREE.Object3D();
+      frame.name = `${body.name}_frame`;
+      setPose(frame, body.pos, body.quat);
+      parent.add(frame);
+      attach = frame;
+      body.joints.forEach((spec) => {
+        const joint = new MjcfJointObject();
+        joint.name = joint.urdfName = spec.name;
+        joint.spec = spec;
+        joint.axis.set(...spec.axis).normalize();
+        joint.jointType = spec.type === "hinge" && !spec.range ? "continuous" : JOINT_TYPES[spec.type];
+        if (spec.range) joint.limit = { lower: spec.range[0], upper: spec.range[1] };
+        joint.position.set(...spec.pos);
+        attach.add(joint);
+        attach = joint;
+        // Undo the anchor offset so the body's contents stay in the body frame
+        if (spec.pos.some((v) => v !== 0)) {
+          const offset = new THREE.Object3D();
+          offset.position.set(-spec.pos[0], -spec.pos[1], -spec.pos[2]);
+          attach.add(offset);
+          attach = offset;
+        }
+      });
+    }
+    attach.add(link);
+
+    body.geoms.forEach((g) => addGeom(link, g));
+    body.sites.forEach((s) => {
+      const site = new THREE.Object3D();
+      site.name = s.name;
+      site.userData.mjcf = "site";
+      setPose(site, s.pos, s.quat);
+      link.add(site);
+    });
+    body.children.forEach((c) => addBody(link, c));
+  };
+
+  model.worldbody.geoms.filter((g) => g.type !== "plane").forEach((g) => addGeom(robot, g));
+  model.worldbody.children.forEach((b) => addBody(robot, b));
+  robot.indexNodes();
+  Object.values(robot.joints).forEach((j) => j.setJointValue(0));
+
+  const loader = new STLLoader(manager);
+  const dir = `${baseUrl.replace(/\/?$/, "/")}${model.meshdir ? model.meshdir.replace(/\/?$/, "/") : ""}`;
+  meshTargets.forEach((targets, file) => {
+    loader.load(
+      `${dir}${file}`,
+      (geometry) => targets.forEach((m) => (m.geometry = geometry)),
+      tracker?.bytesFor(`${dir}${file}`),
+      () => console.error("MJCF mesh failed to load", file)
+    );
+  });
+
+  return robot;
+}
+
+// Same caching contract as loadUrdfTemplate: one template per URL, clones per viewer.
+const templateCache = new Map<string, Promise<MjcfRobotObject>>();
+const templateProgress = new Map<string, LoadTracker>();
+
+/**
+ * Fetch, parse and build an MJCF file once; resolves after every mesh has
+ * settled. `onProgress` follows the shared load until it settles.
+ */
+export function loadMjcfTemplate(url: string, onProgress?: (progress: LoadProgress) => void): Promise<MjcfRobotObject> {
+  const cached = templateCache.get(url);
+  if (cached) {
+    if (onProgress) templateProgress.get(url)?.subscribe(onProgress);
+    return cached;
+  }
+
+  const manager = new THREE.LoadingManager();
+  const tracker = new LoadTracker(manager);
+  if (onProgress) tracker.subscribe(onProgress);
+  templateProgress.set(url, tracker);
+  const pending = new Promise<MjcfRobotObject>((resolve, reject) => {
+    let built: MjcfRobotObject | null = null;
+    manager.onLoad = () => {
+      if (!built) return;
+      smoothMaterials(built);
+      tracker.finish();
+      resolve(built);
+    };
+    // Count the document itself so onLoad cannot fire before meshes are queued
+    manager.itemStart(url);
+    fetch(url, { credentials: "same-origin" })
+      .then((res) => {
+        if (!res.ok) throw new Error(`Failed to load MJCF: ${url} (${res.status})`);
+        return res.text();
+      })
+      .then((xml) => {
+        built = buildMjcfRobot(parseMjcf(xml), { baseUrl: url.replace(/[^/]*$/, ""), manager, tracker });
+        manager.itemEnd(url);
+      })
+      .catch((err) => {
+        manager.itemError(url);
+        tracker.finish();
+        reject(err instanceof Error ? err : new Error(`Failed to load MJCF: ${url}`));
+      });
+  });
+  pending.catch(() => {
+    templateCache.delete(url);
+    templateProgress.delete(url);
+  });
+  templateCache.set(url, pending);
+  return pending;
+}
+
+/** Drop a cached MJCF template so the next load fetches it again. Live clones keep working until disposed. */
+export function evictMjcfTemplate(url: string) {
+  templateCache.delete(url);
+  templateProgress.delete(url);
+}
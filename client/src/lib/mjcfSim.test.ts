@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { MjcfActuator, MjcfBody, MjcfJoint, MjcfModel } from "@/lib/mjcf";
+import { MjcfSimulation } from "@/lib/mjcfSim";
+
+const G = 9.81;
+
+function hinge(name: string, overrides: Partial<MjcfJoint> = {}): MjcfJoint {
+  return {
+    name,
+    type: "hinge",
+    pos: [0, 0, 0],
+    axis: [0, 1, 0],
+    range: null,
+    damping: 0,
+    frictionloss: 0,
+    armature: 0,
+    stiffness: 0,
+    className: "main",
+    ...overrides,
+  };
+}
+
+/** Point-ish mass at `length` along the body's x axis, swinging about y. */
+function link(name: string, joint: MjcfJoint, length: number, children: MjcfBody[] = [], pos: [number, number, number] = [0, 0, 0]): MjcfBody {
+  return {
+    name,
+    pos,
+    quat: [1, 0, 0, 0],
+    joints: [joint],
+    geoms: [],
+    sites: [],
+    inertial: { pos: [length, 0, 0], quat: [1, 0, 0, 0], mass: 1, inertia: [1e-6, 1e-6, 1e-6, 0, 0, 0] },
+    children,
+  };
+}
+
+function model(bodies: MjcfBody[], actuators: MjcfActuator[] = []): MjcfModel {
+  return {
+    name: "test",
+    meshdir: "",
+    meshes: {},
+    materials: {},
+    defaults: {},
+    worldbody: { name: "world", pos: [0, 0, 0], quat: [1, 0, 0, 0], joints: [], geoms: [], sites: [], inertial: null, children: bodies },
+    actuators,
+    gravity: [0, 0, -G],
+    timestep: 0.001,
+  };
+}
+
+const position = (joint: string, kp: number, overrides: Partial<MjcfActuator> = {}): MjcfActuator => ({
+  name: joint,
+  type: "position",
+  joint,
+  className: "main",
+  kp,
+  kv: null,
+  gear: 1,
+  ctrlrange: null,
+  forcerange: null,
+  ...overrides,
+});
+
+// Rotating +x about +y by pi/2 points it along -z: the pendulum hangs straight down
+const HANGING = Math.PI / 2;
+
+describe("MjcfSimulation", () => {
+  it("swings a simple pendulum with the small-angle period", () => {
+    const length = 0.5;
+    const sim = new MjcfSimulation(model([link("bob", hinge("swing"), length)]));
+    sim.setState({ swing: HANGING + 0.05 });
+
+    const crossings: number[] = [];
+    let prev = sim.qpos[0] - HANGING;
+    while (sim.time < 5) {
+      sim.step();
+      const cur = sim.qpos[0] - HANGING;
+      if (prev > 0 && cur <= 0) crossings.push(sim.time);
+      prev = cur;
+    }
+    const period = (crossings[crossings.length - 1] - crossings[0]) / (crossings.length - 1);
+    expect(period).toBeCloseTo(2 * Math.PI * Math.sqrt(length / G), 2);
+  });
+
+  it("conserves energy on an undamped double pendulum", () => {
+    const sim = new MjcfSimulation(
+      model([link("upper", hinge("shoulder"), 0.3, [link("lower", hinge("elbow"), 0.25, [], [0.3, 0, 0])])])
+    );
+    sim.setState({ shoulder: 0.4, elbow: 0.8 });
+    const start = sim.energy();
+    for (let i = 0; i < 2000; i++) sim.step();
+    const end = sim.energy();
+    const total = (e: { kinetic: number; potential: number }) => e.kinetic + e.potential;
+    // Large swings exercise the Coriolis terms; a sign error there blows this up
+    expect(end.kinetic).toBeGreaterThan(0.05);
+    expect(Math.abs(total(end) - total(start))).toBeLessThan(0.01 * Math.abs(start.potential));
+  });
+
+  it("settles a limp, damped arm at the bottom", () => {
+    const sim = new MjcfSimulation(model([link("bob", hinge("swing", { damping: 0.5, armature: 0.01 }), 0.3)]));
+    sim.setState({ swing: 0 });
+    for (let i = 0; i < 8000; i++) sim.step();
+    expect(sim.qpos[0]).toBeCloseTo(HANGING, 3);
+    expect(Math.abs(sim.qvel[0])).toBeLessThan(1e-3);
+  });
+
+  it("tracks a commanded pose with the position actuator, offset only by gravity", () => {
+    const kp = 50;
+    const sim = new MjcfSimulation(
+      model([link("bob", hinge("swing", { damping: 1, armature: 0.005 }), 0.2)], [position("swing", kp)])
+    );
+    sim.setTargets({ swing: 0.3 });
+    for (let i = 0; i < 5000; i++) sim.step();
+    // Steady state: kp * (target - q) = gravity torque m g L cos(q)
+    const q = sim.qpos[0];
+    expect(kp * (0.3 - q)).toBeCloseTo(-1 * G * 0.2 * Math.cos(q), 3);
+  });
+
+  it("damps a position actuator without kv instead of ringing around the target", () => {
+    const sim = new MjcfSimulation(model([link("bob", hinge("swing"), 0.2)], [position("swing", 50)]), {
+      gravity: [0, 0, 0],
+    });
+    sim.setTargets({ swing: 0.3 });
+    let peak = 0;
+    for (let i = 0; i < 3000; i++) {
+      sim.step();
+      peak = Math.max(peak, sim.qpos[0]);
+    }
+    // Critically damped: no overshoot, and settled well within three seconds
+    expect(peak).toBeLessThanOrEqual(0.3 + 1e-6);
+    expect(sim.qpos[0]).toBeCloseTo(0.3, 4);
+
+    // An explicit kv = 0 is still honoured
+    const spring = new MjcfSimulation(
+      model([link("bob", hinge("swing"), 0.2)], [position("swing", 50, { kv: 0 })]),
+      { gravity: [0, 0, 0] }
+    );
+    spring.setTargets({ swing: 0.3 });
+    let springPeak = 0;
+    for (let i = 0; i < 3000; i++) {
+      spring.step();
+      springPeak = Math.max(springPeak, spring.qpos[0]);
+    }
+    expect(springPeak).toBeGreaterThan(0.5);
+  });
+
+  it("clamps actuator targets to ctrlrange and forces to forcerange", () => {
+    const sim = new MjcfSimulation(
+      model([link("bob", hinge("swing", { damping: 1 }), 0.2)], [position("swing", 100, { ctrlrange: [-0.5, 0.5], forcerange: [-0.1, 0.1] })]),
+      { gravity: [0, 0, 0] }
+    );
+    sim.setTargets({ swing: 2 });
+    expect(sim.ctrl[0]).toBe(0.5);
+    sim.step();
+    // 0.1 N·m on a 1 kg bob at 0.2 m gives at most 2.5 rad/s² of acceleration
+    expect(sim.qvel[0]).toBeLessThanOrEqual(2.5 * sim.timestep + 1e-9);
+  });
+
+  it("holds still when frictionloss exceeds the load", () => {
+    const sim = new MjcfSimulation(model([link("bob", hinge("swing", { frictionloss: 2 }), 0.1)]));
+    sim.setState({ swing: 0.2 });
+    for (let i = 0; i < 1000; i++) sim.step();
+    expect(sim.qpos[0]).toBe(0.2);
+  });
+
+  it("stops at joint limits", () => {
+    const sim = new MjcfSimulation(model([link("bob", hinge("swing", { range: [-0.2, 0.6] }), 0.3)]));
+    sim.setState({ swing: 0 });
+    for (let i = 0; i < 2000; i++) sim.step();
+    expect(sim.qpos[0]).toBe(0.6);
+    expect(sim.qvel[0]).toBe(0);
+  });
+
+  it("is deterministic and advances in whole fixed steps", () => {
+    const build = () =>
+      new MjcfSimulation(
+        model([link("upper", hinge("shoulder", { damping: 0.05 }), 0.3, [link("lower", hinge("elbow"), 0.25, [], [0.3, 0, 0])])]),
+        { timestep: 0.002 }
+      );
+    const a = build();
+    const b = build();
+    expect(a.advance(0.011)).toBe(5);
+    expect(a.advance(0.0015)).toBe(1);
+    for (let i = 0; i < 6; i++) b.step();
+    expect(Array.from(a.qpos)).toEqual(Array.from(b.qpos));
+    expect(Array.from(a.qvel)).toEqual(Array.from(b.qvel));
+  });
+});
@@ -0,0 +1,377 @@
+import * as THREE from "three";
+import type { MjcfActuator, MjcfBody, MjcfJoint, MjcfModel } from "@/lib/mjcf";
+import type { JointValues } from "@/lib/urdf";
+
+/** One scalar degree of freedom (hinge or slide), in depth-first tree order. */
+type Dof = {
+  joint: MjcfJoint;
+  /** Indices of every DOF between the root and this one, root first */
+  ancestors: number[];
+  actuator: MjcfActuator | null;
+};
+
+/** Rigid body with its DOFs (own and inherited) resolved to indices. */
+type SimBody = {
+  body: MjcfBody;
+  parent: number;
+  /** The body's own DOFs, applied in order after the parent->body transform */
+  dofs: number[];
+  /** Own and ancestor DOFs, root first */
+  chain: number[];
+  mass: number;
+  com: THREE.Vector3;
+  /** Inertia about the COM in the body frame */
+  inertia: THREE.Matrix3;
+};
+
+export type SimulationOptions = {
+  /** Seconds per step; defaults to the model's option timestep */
+  timestep?: number;
+  gravity?: [number, number, number];
+  /** Upper bound on steps per advance() call so a stalled tab cannot spiral */
+  maxStepsPerAdvance?: number;
+};
+
+const _v = new THREE.Vector3();
+const _w = new THREE.Vector3();
+
+function inertiaMatrix(body: MjcfBody): THREE.Matrix3 {
+  const m = new THREE.Matrix3();
+  const inertial = body.inertial;
+  if (!inertial) return m.set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+  const [ixx, iyy, izz, ixy, ixz, iyz] = inertial.inertia;
+  m.set(ixx, ixy, ixz, ixy, iyy, iyz, ixz, iyz, izz);
+  // Rotate from the inertial frame into the body frame
+  const [w, x, y, z] = inertial.quat;
+  const r = new THREE.Matrix3().setFromMatrix4(
+    new THREE.Matrix4().makeRotationFromQuaternion(new THREE.Quaternion(x, y, z, w))
+  );
+  return r.clone().multiply(m).multiply(r.transpose());
+}
+
+/** Solve A x = b in place (Gaussian elimination with partial pivoting). */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(A[r][c]) > Math.abs(A[pivot][c])) pivot = r;
+    [A[c], A[pivot]] = [A[pivot], A[c]];
+    [b[c], b[pivot]] = [b[pivot], b[c]];
+    const d = A[c][c] || 1e-12;
+    for (let r = c + 1; r < n; r++) {
+      const f = A[r][c] / d;
+      if (f === 0) continue;
+      for (let k = c; k < n; k++) A[r][k] -= f * A[c][k];
+      b[r] -= f * b[c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = b[r];
+    for (let k = r + 1; k < n; k++) s -= A[r][k] * x[k];
+    x[r] = s / (A[r][r] || 1e-12);
+  }
+  return x;
+}
+
+/**
+ * Joint-space rigid-body dynamics for an MJCF arm: gravity, Coriolis and
+ * centrifugal terms from the model's inertials, joint damping, armature,
+ * stiffness and frictionloss, position actuators (kp/kv, ctrlrange and
+ * forcerange) and hard joint limits. Integration is semi-implicit Euler at
+ * a fixed step with damping treated implicitly, so the same inputs always
+ * give the same trajectory. Hinge and slide joints only.
+ */
+export class MjcfSimulation {
+  readonly timestep: number;
+  readonly gravity: THREE.Vector3;
+  /** DOF joint names, in tree order */
+  readonly jointNames: string[];
+  readonly qpos: Float64Array;
+  readonly qvel: Float64Array;
+  /** Actuator targets per DOF (null where no actuator drives the joint) */
+  readonly ctrl: (number | null)[];
+  /** With motors off the arm is limp and only gravity, damping and friction act */
+  motorsEnabled = true;
+  time = 0;
+
+  private dofs: Dof[] = [];
+  private bodies: SimBody[] = [];
+  private maxSteps: number;
+  private accumulator = 0;
+
+  constructor(model: MjcfModel, options: SimulationOptions = {}) {
+    this.timestep = options.timestep ?? model.timestep;
+    this.gravity = new THREE.Vector3(...(options.gravity ?? model.gravity));
+    this.maxSteps = options.maxStepsPerAdvance ?? 200;
+
+    const actuatorFor = (joint: string) => model.actuators.find((a) => a.joint === joint) ?? null;
+    const visit = (body: MjcfBody, parent: number, parentChain: number[]) => {
+      const dofs: number[] = [];
+      body.joints
+        .filter((j) => j.type === "hinge" || j.type === "slide")
+        .forEach((joint) => {
+          dofs.push(this.dofs.length);
+          this.dofs.push({ joint, ancestors: [...parentChain, ...dofs.slice(0, -1)], actuator: actuatorFor(joint.name) });
+        });
+      const chain = [...parentChain, ...dofs];
+      const index = this.bodies.length;
+      this.bodies.push({
+        body,
+        parent,
+        dofs,
+        chain,
+        mass: body.inertial?.mass ?? 0,
+        com: new THREE.Vector3(...(body.inertial?.pos ?? [0, 0, 0])),
+        inertia: inertiaMatrix(body),
+      });
+      body.children.forEach((c) => visit(c, index, chain));
+    };
+    model.worldbody.children.forEach((b) => visit(b, -1, []));
+
+    const n = this.dofs.length;
+    this.jointNames = this.dofs.map((d) => d.joint.name);
+    this.qpos = new Float64Array(n);
+    this.qvel = new Float64Array(n);
+    this.ctrl = this.dofs.map((d) => (d.actuator ? 0 : null));
+    // Start inside the limits (a joint whose range excludes 0 starts at its bound)
+    this.dofs.forEach((d, i) => (this.qpos[i] = this.clampToRange(d.joint, 0)));
+  }
+
+  /** Set positions (radians/metres by joint name) and zero all velocities. */
+  setState(pose: JointValues) {
+    this.jointNames.forEach((name, i) => {
+      if (name in pose) this.qpos[i] = this.clampToRange(this.dofs[i].joint, pose[name]);
+    });
+    this.qvel.fill(0);
+    this.accumulator = 0;
+  }
+
+  /** Commanded positions for the joints' position actuators, clamped to ctrlrange. */
+  setTargets(targets: JointValues) {
+    this.dofs.forEach((d, i) => {
+      const value = targets[d.joint.name];
+      if (!d.actuator || value === undefined) return;
+      const range = d.actuator.ctrlrange;
+      this.ctrl[i] = range ? THREE.MathUtils.clamp(value, range[0], range[1]) : value;
+    });
+  }
+
+  pose(): JointValues {
+    const out: JointValues = {};
+    this.jointNames.forEach((name, i) => (out[name] = this.qpos[i]));
+    return out;
+  }
+
+  /**
+   * Advance by wall-clock seconds using whole fixed steps; the remainder is
+   * carried into the next call. Returns the number of steps taken.
+   */
+  advance(seconds: number) {
+    this.accumulator += Math.max(0, seconds);
+    let steps = 0;
+    while (this.accumulator >= this.timestep && steps < this.maxSteps) {
+      this.step();
+      this.accumulator -= this.timestep;
+      steps++;
+    }
+    // Drop time we could not keep up with rather than replaying it later
+    if (steps === this.maxSteps) this.accumulator = 0;
+    return steps;
+  }
+
+  step() {
+    const n = this.dofs.length;
+    const dt = this.timestep;
+    if (n === 0) return;
+    const { M, bias } = this.dynamics();
+
+    const rhs = new Array<number>(n);
+    const lhs = M.map((row) => [...row]);
+    for (let i = 0; i < n; i++) {
+      const { joint, actuator } = this.dofs[i];
+      const q = this.qpos[i];
+      const qd = this.qvel[i];
+      const kv = actuator ? this.velocityGain(actuator, M[i][i] + joint.armature) : 0;
+      let tau = -bias[i] - joint.stiffness * q - joint.damping * qd;
+      if (actuator && this.motorsEnabled && this.ctrl[i] !== null) {
+        let force = (actuator.kp ?? 0) * (this.ctrl[i]! - actuator.gear * q) - kv * actuator.gear * qd;
+        if (actuator.forcerange) force = THREE.MathUtils.clamp(force, actuator.forcerange[0], actuator.forcerange[1]);
+        tau += actuator.gear * force;
+      }
+      rhs[i] = tau;
+      // Armature adds reflected rotor inertia; damping is implicit so large
+      // values stay stable at any step size.
+      lhs[i][i] += joint.armature + dt * (joint.damping + (actuator && this.motorsEnabled ? kv : 0));
+    }
+    const diag = lhs.map((row, i) => row[i]);
+    const qdd = solve(lhs, rhs);
+
+    for (let i = 0; i < n; i++) {
+      const { joint } = this.dofs[i];
+      let qd = this.qvel[i] + dt * qdd[i];
+      // Dry friction: an impulse of at most frictionloss * dt, never reversing the motion
+      const maxChange = (joint.frictionloss * dt) / Math.max(diag[i], 1e-12);
+      qd = Math.abs(qd) <= maxChange ? 0 : qd - Math.sign(qd) * maxChange;
+      let q = this.qpos[i] + dt * qd;
+      const clamped = this.clampToRange(joint, q);
+      if (clamped !== q) {
+        q = clamped;
+        qd = 0;
+      }
+      this.qpos[i] = q;
+      this.qvel[i] = qd;
+    }
+    this.time += dt;
+  }
+
+  /**
+   * An actuator's kv. Position actuators that leave it out would be a bare
+   * spring and ring around their target, so they get the gain that critically
+   * damps the joint's current effective inertia.
+   */
+  private velocityGain(actuator: MjcfActuator, inertia: number) {
+    if (actuator.kv !== null) return actuator.kv;
+    const kp = actuator.kp ?? 0;
+    if (kp <= 0 || actuator.gear === 0) return 0;
+    return (2 * Math.sqrt(kp * inertia)) / Math.abs(actuator.gear);
+  }
+
+  private clampToRange(joint: MjcfJoint, value: number) {
+    return joint.range ? THREE.MathUtils.clamp(value, joint.range[0], joint.range[1]) : value;
+  }
+
+  /** World rotation/position of every body frame, plus each DOF's world axis and anchor. */
+  private kinematics() {
+    const n = this.dofs.length;
+    const axis: THREE.Vector3[] = new Array(n);
+    const anchor: THREE.Vector3[] = new Array(n);
+    const rot: THREE.Quaternion[] = [];
+    const pos: THREE.Vector3[] = [];
+    this.bodies.forEach((b, bi) => {
+      const parentRot = b.parent >= 0 ? rot[b.parent] : new THREE.Quaternion();
+      const parentPos = b.parent >= 0 ? pos[b.parent] : new THREE.Vector3();
+      const [w, x, y, z] = b.body.quat;
+      const r = parentRot.clone().multiply(new THREE.Quaternion(x, y, z, w));
+      const p = new THREE.Vector3(...b.body.pos).applyQuaternion(parentRot).add(parentPos);
+      b.dofs.forEach((i) => {
+        const { joint } = this.dofs[i];
+        axis[i] = new THREE.Vector3(...joint.axis).normalize().applyQuaternion(r);
+        anchor[i] = new THREE.Vector3(...joint.pos).applyQuaternion(r).add(p);
+        const q = this.qpos[i];
+        if (joint.type === "hinge") {
+          const dq = new THREE.Quaternion().setFromAxisAngle(axis[i], q);
+          // Rotate about the anchor: p' = a + R (p - a)
+          p.sub(anchor[i]).applyQuaternion(dq).add(anchor[i]);
+          r.premultiply(dq);
+        } else {
+          p.addScaledVector(axis[i], q);
+        }
+      });
+      rot[bi] = r;
+      pos[bi] = p;
+    });
+    return { rot, pos, axis, anchor };
+  }
+
+  /** Kinetic (including armature) and gravitational potential energy, in joules. */
+  energy(): { kinetic: number; potential: number } {
+    const { M } = this.dynamics();
+    const { rot, pos } = this.kinematics();
+    let kinetic = 0;
+    this.dofs.forEach((d, i) => {
+      kinetic += 0.5 * d.joint.armature * this.qvel[i] ** 2;
+      this.dofs.forEach((_, j) => (kinetic += 0.5 * this.qvel[i] * M[i][j] * this.qvel[j]));
+    });
+    let potential = 0;
+    this.bodies.forEach((b, bi) => {
+      const com = b.com.clone().applyQuaternion(rot[bi]).add(pos[bi]);
+      potential -= b.mass * this.gravity.dot(com);
+    });
+    return { kinetic, potential };
+  }
+
+  /**
+   * Joint-space mass matrix and bias forces (gravity + velocity terms) from
+   * body Jacobians: M = Σ m·Jvᵀ·Jv + Jwᵀ·I·Jw, bias = Σ m·Jvᵀ·(J̇v·q̇ − g) +
+   * Jwᵀ·(I·J̇w·q̇ + ω×Iω), all in world coordinates.
+   */
+  private dynamics(): { M: number[][]; bias: number[] } {
+    const n = this.dofs.length;
+    const isHinge = this.dofs.map((d) => d.joint.type === "hinge");
+    const { rot, pos, axis, anchor } = this.kinematics();
+
+    // Angular velocity of the frame carrying each DOF and velocity of its anchor
+    const omegaPre: THREE.Vector3[] = new Array(n);
+    const anchorVel: THREE.Vector3[] = new Array(n);
+    for (let i = 0; i < n; i++) {
+      const w = new THREE.Vector3();
+      const v = new THREE.Vector3();
+      this.dofs[i].ancestors.forEach((k) => {
+        const qd = this.qvel[k];
+        if (isHinge[k]) {
+          w.addScaledVector(axis[k], qd);
+          v.add(_v.subVectors(anchor[i], anchor[k]).crossVectors(axis[k], _v).multiplyScalar(qd));
+        } else {
+          v.addScaledVector(axis[k], qd);
+        }
+      });
+      omegaPre[i] = w;
+      anchorVel[i] = v;
+    }
+
+    const M = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    const bias = new Array<number>(n).fill(0);
+
+    this.bodies.forEach((b, bi) => {
+      if (b.mass <= 0 || b.chain.length === 0) return;
+      const com = b.com.clone().applyQuaternion(rot[bi]).add(pos[bi]);
+      const R = new THREE.Matrix3().setFromMatrix4(new THREE.Matrix4().makeRotationFromQuaternion(rot[bi]));
+      const I = R.clone().multiply(b.inertia).multiply(R.clone().transpose());
+
+      const Jv: THREE.Vector3[] = [];
+      const Jw: THREE.Vector3[] = [];
+      const omega = new THREE.Vector3();
+      const vcom = new THREE.Vector3();
+      b.chain.forEach((i) => {
+        const jv = isHinge[i] ? new THREE.Vector3().crossVectors(axis[i], _v.subVectors(com, anchor[i])) : axis[i].clone();
+        const jw = isHinge[i] ? axis[i].clone() : new THREE.Vector3();
+        Jv.push(jv);
+        Jw.push(jw);
+        vcom.addScaledVector(jv, this.qvel[i]);
+        omega.addScaledVector(jw, this.qvel[i]);
+      });
+
+      // J̇·q̇: how the Jacobian columns move with the current velocities
+      const accBias = new THREE.Vector3();
+      const angBias = new THREE.Vector3();
+      b.chain.forEach((i) => {
+        const qd = this.qvel[i];
+        if (qd === 0) return;
+        const axisDot = new THREE.Vector3().crossVectors(omegaPre[i], axis[i]);
+        if (isHinge[i]) {
+          const r = _v.subVectors(com, anchor[i]);
+          accBias.add(new THREE.Vector3().crossVectors(axisDot, r).multiplyScalar(qd));
+          accBias.add(_w.subVectors(vcom, anchorVel[i]).crossVectors(axis[i], _w).multiplyScalar(qd));
+          angBias.addScaledVector(axisDot, qd);
+        } else {
+          accBias.addScaledVector(axisDot, qd);
+        }
+      });
+
+      const linear = accBias.sub(this.gravity).multiplyScalar(b.mass);
+      const Iomega = omega.clone().applyMatrix3(I);
+      const angular = angBias.applyMatrix3(I).add(new THREE.Vector3().crossVectors(omega, Iomega));
+      const IJw = Jw.map((jw) => jw.clone().applyMatrix3(I));
+
+      b.chain.forEach((i, a) => {
+        bias[i] += Jv[a].dot(linear) + Jw[a].dot(angular);
+        b.chain.forEach((j, c) => {
+          M[i][j] += b.mass * Jv[a].dot(Jv[c]) + Jw[a].dot(IJw[c]);
+        });
+      });
+    });
+
+    return { M, bias };
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseMapYaml,
+  parsePath,
+  parsePgm,
+  pathStations,
+  samplePath,
+  toOccupancyGrid,
+  type MapMetadata,
+  type PlannedPath,
+} from "@/lib/occupancyMap";
+
+/** A PGM file: ASCII header followed by the raw raster bytes. */
+function pgmFile(header: string, raster: number[] = []): ArrayBuffer {
+  const head = new TextEncoder().encode(header);
+  const bytes = new Uint8Array(head.length + raster.length);
+  bytes.set(head);
+  bytes.set(raster, head.length);
+  return bytes.buffer;
+}
+
+const META = parseMapYaml("image: map.pgm\nresolution: 0.05\norigin: [-1, -2, 0]\n");
+
+/** Grid rows, bottom row first, for a 3 × 2 image whose rows are given top first. */
+function cells(meta: Partial<MapMetadata>, top: number[], bottom: number[]) {
+  const pgm = { width: 3, height: 2, maxValue: 255, pixels: Uint16Array.from([...top, ...bottom]) };
+  const { data } = toOccupancyGrid({ ...META, ...meta }, pgm, "test");
+  return [Array.from(data.subarray(0, 3)), Array.from(data.subarray(3))];
+}
+
+describe("parsePgm", () => {
+  it("reads an 8-bit binary image with comments in the header", () => {
+    const pgm = parsePgm(pgmFile("P5\n# made by hand\n3 # wide\n2\n255\n", [0, 128, 255, 10, 20, 30]));
+    expect(pgm).toMatchObject({ width: 3, height: 2, maxValue: 255 });
+    expect(Array.from(pgm.pixels)).toEqual([0, 128, 255, 10, 20, 30]);
+  });
+
+  it("reads a 16-bit binary image big-endian", () => {
+    const pgm = parsePgm(pgmFile("P5 2 1 65535\n", [0x12, 0x34, 0xff, 0xff]));
+    expect(Array.from(pgm.pixels)).toEqual([0x1234, 0xffff]);
+  });
+
+  it("reads an ASCII image with comments between the values", () => {
+    const pgm = parsePgm(pgmFile("P2\n2 2\n# scale\n15\n0 5 # top\n10 15\n"));
+    expect(pgm.maxValue).toBe(15);
+    expect(Array.from(pgm.pixels)).toEqual([0, 5, 10, 15]);
+  });
+
+  it("rejects truncated images", () => {
+    expect(() => parsePgm(pgmFile("P5 3 3 255\n", [1, 2, 3, 4]))).toThrow(/truncated/);
+    expect(() => parsePgm(pgmFile("P5 2 1 65535\n", [0, 1, 2]))).toThrow(/truncated/);
+    expect(() => parsePgm(pgmFile("P2 2 2 255\n1 2 3"))).toThrow(/truncated/);
+  });
+
+  it("rejects other formats and broken headers", () => {
+    expect(() => parsePgm(pgmFile("P6 1 1 255\n", [0, 0, 0]))).toThrow(/Not a PGM/);
+    expect(() => parsePgm(pgmFile("P5 0 1 255\n"))).toThrow(/malformed/);
+  });
+});
+
+describe("parseMapYaml", () => {
+  it("applies map_server's defaults", () => {
+    expect(parseMapYaml("# office\nimage: office.pgm\nresolution: 0.1 # m\norigin: [1.5, -2]\n")).toEqual({
+      image: "office.pgm",
+      resolution: 0.1,
+      origin: [1.5, -2, 0],
+      negate: false,
+      occupiedThresh: 0.65,
+      freeThresh: 0.196,
+      mode: "trinary",
+    });
+  });
+
+  it("reads negate as 0/1 and quoted strings", () => {
+    const meta = parseMapYaml("image: 'my map.pgm'\nresolution: 0.05\norigin: [0, 0, 0.5]\nnegate: 1\nmode: raw\n");
+    expect(meta).toMatchObject({ image: "my map.pgm", negate: true, origin: [0, 0, 0.5], mode: "raw" });
+  });
+
+  it("names the offending field", () => {
+    expect(() => parseMapYaml("image: map.pgm\norigin: [0, 0, 0]\n")).toThrow(/resolution/);
+  });
+});
+
+describe("toOccupancyGrid", () => {
+  // White is free, black occupied; 205 is map_server's unknown grey
+  const top = [0, 205, 254];
+  const bottom = [255, 100, 0];
+
+  it("thresholds trinary maps and flips rows so row 0 is the bottom", () => {
+    expect(cells({}, top, bottom)).toEqual([
+      [0, -1, 100],
+      [100, -1, 0],
+    ]);
+  });
+
+  it("scales between the thresholds in scale mode", () => {
+    const [row] = cells({ mode: "scale" }, top, bottom);
+    const p = (255 - 100) / 255;
+    expect(row).toEqual([0, Math.round(1 + (98 * (p - 0.196)) / (0.65 - 0.196)), 100]);
+  });
+
+  it("passes values through in raw mode, above 100 as unknown", () => {
+    expect(cells({ mode: "raw" }, top, bottom)).toEqual([
+      [-1, 100, 0],
+      [0, -1, -1],
+    ]);
+  });
+
+  it("reads white as occupied when negated", () => {
+    expect(cells({ negate: true }, top, bottom)).toEqual([
+      [100, -1, 0],
+      [0, 100, 100],
+    ]);
+  });
+
+  it("uses the yaml's thresholds", () => {
+    expect(cells({ occupiedThresh: 0.5 }, top, bottom)[0]).toEqual([0, 100, 100]);
+    expect(cells({ freeThresh: 0.7 }, top, bottom)[0]).toEqual([0, 0, 100]);
+  });
+});
+
+describe("parsePath", () => {
+  it("reads a nav_msgs/Path with its frame and orientations", () => {
+    const half = Math.SQRT1_2;
+    const path = parsePath(
+      JSON.stringify({
+        header: { frame_id: "/map" },
+        poses: [
+          { pose: { position: { x: 0, y: 0 }, orientation: { x: 0, y: 0, z: half, w: half } } },
+          { pose: { position: { x: 0, y: 1, z: 0 }, orientation: { x: 0, y: 0, z: 0, w: 1 } } },
+        ],
+      }),
+      "plans/route.json"
+    );
+    expect(path.name).toBe("route");
+    expect(path.frame).toBe("map");
+    expect(path.poses[0].yaw).toBeCloseTo(Math.PI / 2);
+    expect(path.poses[1]).toEqual({ x: 0, y: 1, yaw: 0 });
+  });
+
+  it("faces PoseArray poses without orientations along the path", () => {
+    const path = parsePath(
+      JSON.stringify({ poses: [{ position: { x: 0, y: 0 } }, { position: { x: 1, y: 1 } }, { position: { x: 1, y: 2 } }] }),
+      "poses.json"
+    );
+    expect(path.frame).toBeUndefined();
+    expect(path.poses.map((p) => p.yaw)).toEqual([Math.PI / 4, Math.atan2(2, 1), Math.PI / 2]);
+  });
+
+  it("reads plain waypoints as arrays or objects", () => {
+    const path = parsePath(JSON.stringify([[0, 0], [2, 0, 1], { x: 2, y: 2 }, { x: 2, y: 3, yaw: 0 }]), "w.json");
+    expect(path.poses).toEqual([
+      { x: 0, y: 0, yaw: 0 },
+      { x: 2, y: 0, yaw: 1 },
+      { x: 2, y: 2, yaw: Math.PI / 2 },
+      { x: 2, y: 3, yaw: 0 },
+    ]);
+  });
+
+  it("rejects bad JSON, unknown shapes and single poses", () => {
+    expect(() => parsePath("{", "p.json")).toThrow(/not valid JSON/);
+    expect(() => parsePath(JSON.stringify({ points: [] }), "p.json")).toThrow(/Invalid path/);
+    expect(() => parsePath(JSON.stringify([[0, 0]]), "p.json")).toThrow(/two poses/);
+  });
+});
+
+describe("samplePath", () => {
+  const path: PlannedPath = {
+    name: "turn",
+    poses: [
+      { x: 0, y: 0, yaw: 3 },
+      { x: 2, y: 0, yaw: -3 },
+    ],
+  };
+  const stations = pathStations(path);
+
+  it("turns the short way across ±π", () => {
+    const mid = samplePath(path, stations, 1);
+    expect(mid.x).toBeCloseTo(1);
+    expect(mid.yaw).toBeCloseTo(Math.PI);
+  });
+
+  it("holds the end poses outside the path", () => {
+    expect(samplePath(path, stations, -1)).toBe(path.poses[0]);
+    expect(samplePath(path, stations, 5)).toBe(path.poses[1]);
+  });
+});
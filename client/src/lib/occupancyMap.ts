@@ -0,0 +1,316 @@
+import * as THREE from "three";
+import { z } from "zod";
+
+/** map_server's map.yaml, with the defaults map_server applies. */
+export type MapMetadata = {
+  image: string;
+  /** Metres per cell */
+  resolution: number;
+  /** Pose of the lower-left cell in the map frame: x, y, yaw */
+  origin: [number, number, number];
+  negate: boolean;
+  occupiedThresh: number;
+  freeThresh: number;
+  mode: "trinary" | "scale" | "raw";
+};
+
+/**
+ * Occupancy grid in nav_msgs/OccupancyGrid layout: row 0 is the bottom of the
+ * map (lowest y), values are -1 (unknown) or 0–100 (occupancy probability).
+ */
+export type OccupancyGrid = {
+  name: string;
+  width: number;
+  height: number;
+  resolution: number;
+  origin: [number, number, number];
+  data: Int8Array;
+};
+
+export type PathPose = { x: number; y: number; yaw: number };
+
+/** A planned path in the map frame, e.g. from nav_msgs/Path or geometry_msgs/PoseArray. */
+export type PlannedPath = { name: string; frame?: string; poses: PathPose[] };
+
+const mapYamlSchema = z.object({
+  image: z.string().min(1),
+  resolution: z.number().positive(),
+  origin: z.array(z.number()).min(2).max(3),
+  negate: z.union([z.number(), z.boolean()]).optional(),
+  occupied_thresh: z.number().min(0).max(1).optional(),
+  free_thresh: z.number().min(0).max(1).optional(),
+  mode: z.enum(["trinary", "scale", "raw"]).optional(),
+});
+
+/** One YAML scalar or flow sequence, which is all map.yaml uses. */
+function parseYamlValue(raw: string): unknown {
+  const value = raw.trim();
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .filter((item) => item.trim())
+      .map(parseYamlValue);
+  }
+  if (/^(["']).*\1$/.test(value)) return value.slice(1, -1);
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === "true";
+  const n = Number(value);
+  return value !== "" && Number.isFinite(n) ? n : value;
+}
+
+/** Parse a map_server map.yaml; throws with a readable message. */
+export function parseMapYaml(text: string): MapMetadata {
+  const data: Record<string, unknown> = {};
+  text.split(/\r?\n/).forEach((line) => {
+    const match = line.replace(/\s+#.*$|^#.*$/, "").match(/^\s*([A-Za-z_]+)\s*:\s*(.*)$/);
+    if (match) data[match[1]] = parseYamlValue(match[2]);
+  });
+  const result = mapYamlSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid map.yaml at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  const { image, resolution, origin, negate, occupied_thresh, free_thresh, mode } = result.data;
+  return {
+    image,
+    resolution,
+    origin: [origin[0], origin[1], origin[2] ?? 0],
+    negate: !!negate,
+    occupiedThresh: occupied_thresh ?? 0.65,
+    freeThresh: free_thresh ?? 0.196,
+    mode: mode ?? "trinary",
+  };
+}
+
+export type Pgm = { width: number; height: number; maxValue: number; pixels: Uint16Array };
+
+/** Binary (P5, 8 or 16 bit) or ASCII (P2) greymap; pixels run top row first. */
+export function parsePgm(buffer: ArrayBuffer): Pgm {
+  const bytes = new Uint8Array(buffer);
+  const header: number[] = [];
+  let magic = "";
+  let i = 0;
+  // Magic, width, height and maxval, separated by whitespace and # comments
+  while (header.length < 3 && i < bytes.length) {
+    const c = bytes[i];
+    if (c === 0x23) {
+      while (i < bytes.length && bytes[i] !== 0x0a) i++;
+    } else if (c <= 0x20) {
+      i++;
+    } else {
+      let token = "";
+      while (i < bytes.length && bytes[i] > 0x20 && bytes[i] !== 0x23) token += String.fromCharCode(bytes[i++]);
+      if (!magic) magic = token;
+      else header.push(Number(token));
+    }
+  }
+  if (magic !== "P5" && magic !== "P2") throw new Error(`Not a PGM image (expected P5 or P2, found "${magic.slice(0, 8)}")`);
+  const [width, height, maxValue] = header;
+  if (!(width > 0 && height > 0 && maxValue > 0 && maxValue < 65536)) throw new Error("PGM header is malformed");
+
+  const pixels = new Uint16Array(width * height);
+  if (magic === "P5") {
+    i++; // exactly one whitespace byte before the raster
+    const wide = maxValue > 255;
+    if (bytes.length - i < pixels.length * (wide ? 2 : 1)) throw new Error("PGM image is truncated");
+    for (let p = 0; p < pixels.length; p++) pixels[p] = wide ? (bytes[i + 2 * p] << 8) | bytes[i + 2 * p + 1] : bytes[i + p];
+  } else {
+    const values = new TextDecoder().decode(bytes.subarray(i)).replace(/#.*$/gm, "").trim().split(/\s+/);
+    if (values.length < pixels.length) throw new Error("PGM image is truncated");
+    for (let p = 0; p < pixels.length; p++) pixels[p] = Number(values[p]);
+  }
+  return { width, height, maxValue, pixels };
+}
+
+/** Interpret the image the way map_server does for the yaml's mode and thresholds. */
+export function toOccupancyGrid(meta: MapMetadata, pgm: Pgm, name: string): OccupancyGrid {
+  const { width, height, maxValue, pixels } = pgm;
+  const data = new Int8Array(width * height);
+  for (let row = 0; row < height; row++) {
+    // Image rows run top-down, grid rows bottom-up
+    const src = (height - 1 - row) * width;
+    for (let col = 0; col < width; col++) {
+      const v = pixels[src + col];
+      let cell: number;
+      if (meta.mode === "raw") {
+        cell = v <= 100 ? v : -1;
+      } else {
+        const p = meta.negate ? v / maxValue : (maxValue - v) / maxValue;
+        if (p > meta.occupiedThresh) cell = 100;
+        else if (p < meta.freeThresh) cell = 0;
+        else if (meta.mode === "scale") cell = Math.round(1 + (98 * (p - meta.freeThresh)) / (meta.occupiedThresh - meta.freeThresh));
+        else cell = -1;
+      }
+      data[row * width + col] = cell;
+    }
+  }
+  return { name, width, height, resolution: meta.resolution, origin: meta.origin, data };
+}
+
+/** Occupancy grid from map.yaml text and its PGM image; throws with a readable message. */
+export function parseOccupancyMap(yaml: string, image: ArrayBuffer, name: string): OccupancyGrid {
+  const meta = parseMapYaml(yaml);
+  let pgm: Pgm;
+  try {
+    pgm = parsePgm(image);
+  } catch (err) {
+    throw new Error(`Could not read ${meta.image}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return toOccupancyGrid(meta, pgm, name);
+}
+
+/** Fetch a map.yaml and the image it names (relative to the yaml, as map_server resolves it). */
+export async function loadOccupancyMap(yamlUrl: string): Promise<OccupancyGrid> {
+  const res = await fetch(yamlUrl);
+  if (!res.ok) throw new Error(`Failed to fetch ${yamlUrl} (${res.status})`);
+  const yaml = await res.text();
+  const imageUrl = new URL(parseMapYaml(yaml).image, new URL(yamlUrl, window.location.href)).toString();
+  const image = await fetch(imageUrl);
+  if (!image.ok) throw new Error(`Failed to fetch ${imageUrl} (${image.status})`);
+  return parseOccupancyMap(yaml, await image.arrayBuffer(), yamlUrl.replace(/^.*\//, "").replace(/\.ya?ml$/i, ""));
+}
+
+const FREE_SHADE = 250;
+const UNKNOWN_SHADE = 205;
+const OCCUPIED_SHADE = 40;
+
+/**
+ * The grid as a texture, shaded like RViz's map display: free light, unknown
+ * grey, occupied dark. DataTexture rows start at v = 0, so grid row 0 (the
+ * bottom of the map) lands at the bottom of the plane without flipping.
+ */
+export function occupancyTexture(grid: OccupancyGrid): THREE.DataTexture {
+  const rgba = new Uint8Array(grid.width * grid.height * 4);
+  grid.data.forEach((cell, i) => {
+    const shade =
+      cell < 0 ? UNKNOWN_SHADE : Math.round(FREE_SHADE + ((OCCUPIED_SHADE - FREE_SHADE) * Math.min(cell, 100)) / 100);
+    rgba.set([shade, shade, shade, 255], i * 4);
+  });
+  const texture = new THREE.DataTexture(rgba, grid.width, grid.height, THREE.RGBAFormat);
+  texture.magFilter = THREE.NearestFilter;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Horizontal runs of occupied cells (at or above `threshold`), so walls can be
+ * drawn as one box per run instead of one per cell.
+ */
+export function occupiedRuns(grid: OccupancyGrid, threshold = 65): { row: number; col: number; length: number }[] {
+  const runs: { row: number; col: number; length: number }[] = [];
+  for (let row = 0; row < grid.height; row++) {
+    let start = -1;
+    for (let col = 0; col <= grid.width; col++) {
+      const occupied = col < grid.width && grid.data[row * grid.width + col] >= threshold;
+      if (occupied && start < 0) start = col;
+      if (!occupied && start >= 0) {
+        runs.push({ row, col: start, length: col - start });
+        start = -1;
+      }
+    }
+  }
+  return runs;
+}
+
+const pointSchema = z.object({ x: z.number(), y: z.number(), z: z.number().optional() });
+const quaternionSchema = z.object({ x: z.number(), y: z.number(), z: z.number(), w: z.number() });
+const poseSchema = z.object({ position: pointSchema, orientation: quaternionSchema.optional() });
+const headerSchema = z.object({ frame_id: z.string() }).partial().optional();
+
+const pathSchema = z.union([
+  // nav_msgs/Path
+  z.object({ header: headerSchema, poses: z.array(z.object({ pose: poseSchema })) }),
+  // geometry_msgs/PoseArray
+  z.object({ header: headerSchema, poses: z.array(poseSchema) }),
+  // Plain waypoints: [x, y] / [x, y, yaw] or { x, y, yaw? }
+  z.array(z.union([z.array(z.number()).min(2).max(3), z.object({ x: z.number(), y: z.number(), yaw: z.number().optional() })])),
+]);
+
+const yawOf = (q: { x: number; y: number; z: number; w: number }) =>
+  Math.atan2(2 * (q.w * q.z + q.x * q.y), 1 - 2 * (q.y * q.y + q.z * q.z));
+
+/**
+ * Parse a planned path from JSON; throws with a readable message. Poses
+ * without an orientation face along the path.
+ */
+export function parsePath(json: string, fileName: string): PlannedPath {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Path file is not valid JSON");
+  }
+  const result = pathSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid path at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  const parsed = result.data;
+  let frame: string | undefined;
+  let points: { x: number; y: number; yaw?: number }[];
+  if (Array.isArray(parsed)) {
+    points = parsed.map((p) => (Array.isArray(p) ? { x: p[0], y: p[1], yaw: p[2] } : p));
+  } else {
+    frame = parsed.header?.frame_id?.replace(/^\/+/, "") || undefined;
+    points = parsed.poses.map((entry) => {
+      const pose = "pose" in entry ? entry.pose : entry;
+      return { x: pose.position.x, y: pose.position.y, yaw: pose.orientation ? yawOf(pose.orientation) : undefined };
+    });
+  }
+  if (points.length < 2) throw new Error("Path needs at least two poses");
+  return { name: fileName.replace(/^.*\//, "").replace(/\.json$/i, ""), frame, poses: faceAlongPath(points) };
+}
+
+/** Poses for waypoints; those without a yaw face along the path (central difference). */
+export function faceAlongPath(points: { x: number; y: number; yaw?: number }[]): PathPose[] {
+  return points.map((p, i) => {
+    if (typeof p.yaw === "number") return { x: p.x, y: p.y, yaw: p.yaw };
+    const a = points[Math.max(0, i - 1)];
+    const b = points[Math.min(points.length - 1, i + 1)];
+    return { x: p.x, y: p.y, yaw: Math.atan2(b.y - a.y, b.x - a.x) };
+  });
+}
+
+export async function loadPath(url: string): Promise<PlannedPath> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status})`);
+  return parsePath(await res.text(), url);
+}
+
+/** Cumulative distance along the path at each pose, in metres. */
+export function pathStations(path: PlannedPath): number[] {
+  const out = [0];
+  for (let i = 1; i < path.poses.length; i++) {
+    const a = path.poses[i - 1];
+    const b = path.poses[i];
+    out.push(out[i - 1] + Math.hypot(b.x - a.x, b.y - a.y));
+  }
+  return out;
+}
+
+/** Pose `distance` metres along the path; yaw takes the short way round between poses. */
+export function samplePath(path: PlannedPath, stations: number[], distance: number): PathPose {
+  const { poses } = path;
+  const last = poses.length - 1;
+  if (distance <= 0) return poses[0];
+  if (distance >= stations[last]) return poses[last];
+  let lo = 0;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (stations[mid] <= distance) lo = mid;
+    else hi = mid;
+  }
+  const span = stations[hi] - stations[lo];
+  const t = span > 0 ? (distance - stations[lo]) / span : 0;
+  const a = poses[lo];
+  const b = poses[hi];
+  const turn = Math.atan2(Math.sin(b.yaw - a.yaw), Math.cos(b.yaw - a.yaw));
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, yaw: a.yaw + turn * t };
+}
+
+/** A planar map-frame pose as a matrix in ROS axes (for placeInRosFrame). */
+export function pathPoseMatrix(pose: PathPose): THREE.Matrix4 {
+  return new THREE.Matrix4().makeRotationZ(pose.yaw).setPosition(pose.x, pose.y, 0);
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPlanner,
+  createPlanningGrid,
+  isFree,
+  pathLength,
+  randomObstacles,
+  runPlanner,
+  type GridPoint,
+  type PlanningGrid,
+} from "@/lib/planners";
+
+/** Grid from rows drawn top-down: '#' blocked, anything else free. */
+function gridFrom(rows: string[]): PlanningGrid {
+  const grid = createPlanningGrid(rows[0].length, rows.length);
+  rows.forEach((row, i) => {
+    const y = rows.length - 1 - i;
+    Array.from(row).forEach((c, x) => {
+      if (c === "#") grid.blocked[y * grid.width + x] = 1;
+    });
+  });
+  return grid;
+}
+
+/** Every segment of the path stays in free space (checked finely). */
+function collisionFree(grid: PlanningGrid, path: GridPoint[]) {
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    for (let t = 0; t <= 1; t += 0.01) {
+      if (!isFree(grid, a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t)) return false;
+    }
+  }
+  return true;
+}
+
+// A wall across the middle with a gap at the top
+const walled = gridFrom([
+  "..........",
+  "....#.....",
+  "....#.....",
+  "....#.....",
+  "....#.....",
+  "....#.....",
+]);
+const left = { x: 1, y: 1 };
+const right = { x: 8, y: 1 };
+
+describe("grid search", () => {
+  it("finds the straight and diagonal optimum on an empty grid", () => {
+    const grid = createPlanningGrid(10, 10);
+    const straight = runPlanner(createPlanner("astar", grid, { x: 0, y: 0 }, { x: 9, y: 0 }));
+    expect(straight.found).toBe(true);
+    expect(straight.length).toBeCloseTo(9);
+    expect(straight.path).toHaveLength(10);
+
+    const diagonal = runPlanner(createPlanner("astar", grid, { x: 0, y: 0 }, { x: 6, y: 3 }));
+    expect(diagonal.length).toBeCloseTo(3 + 3 * Math.SQRT2);
+    expect(pathLength(diagonal.path)).toBeCloseTo(diagonal.length);
+  });
+
+  it("agrees with Dijkstra on cost while expanding fewer cells", () => {
+    const astar = runPlanner(createPlanner("astar", walled, left, right));
+    const dijkstra = runPlanner(createPlanner("dijkstra", walled, left, right));
+    expect(astar.found).toBe(true);
+    expect(dijkstra.found).toBe(true);
+    expect(astar.length).toBeCloseTo(dijkstra.length);
+    expect(astar.nodes).toBeLessThan(dijkstra.nodes);
+    expect(collisionFree(walled, astar.path)).toBe(true);
+  });
+
+  it("uses only orthogonal moves when diagonals are off", () => {
+    const result = runPlanner(createPlanner("astar", createPlanningGrid(5, 5), { x: 0, y: 0 }, { x: 3, y: 2 }, { diagonal: false }));
+    expect(result.length).toBeCloseTo(5);
+  });
+
+  it("never cuts between two diagonally touching obstacles", () => {
+    const grid = gridFrom([
+      "...",
+      ".#.",
+      "#..",
+    ]);
+    // (0,1) -> (1,0) directly would squeeze between (0,0) and (1,1); the way round is 6 moves
+    const result = runPlanner(createPlanner("astar", grid, { x: 0, y: 1 }, { x: 1, y: 0 }));
+    expect(result.found).toBe(true);
+    expect(result.length).toBeCloseTo(6);
+  });
+
+  it("reports no path when the goal is walled off or blocked", () => {
+    const sealed = gridFrom([
+      "....#.....",
+      "....#.....",
+      "....#.....",
+    ]);
+    const result = runPlanner(createPlanner("dijkstra", sealed, { x: 0, y: 0 }, { x: 9, y: 2 }));
+    expect(result.found).toBe(false);
+    expect(result.path).toEqual([]);
+    // Every reachable cell left of the wall was expanded before giving up
+    expect(result.nodes).toBe(12);
+
+    const onWall = createPlanner("astar", sealed, { x: 0, y: 0 }, { x: 4, y: 1 });
+    expect(onWall.done).toBe(true);
+    expect(onWall.result().found).toBe(false);
+  });
+
+  it("animates one expansion per step", () => {
+    const planner = createPlanner("astar", walled, left, right);
+    planner.step();
+    planner.step();
+    expect(planner.result().nodes).toBe(2);
+    expect(planner.done).toBe(false);
+  });
+});
+
+describe("sampling planners", () => {
+  it("RRT reaches the goal around a wall without touching it", () => {
+    const result = runPlanner(createPlanner("rrt", walled, left, right, { seed: 7, stepSize: 1 }));
+    expect(result.found).toBe(true);
+    expect(result.path[0]).toEqual({ x: 1.5, y: 1.5 });
+    expect(result.path[result.path.length - 1]).toEqual({ x: 8.5, y: 1.5 });
+    expect(collisionFree(walled, result.path)).toBe(true);
+    expect(pathLength(result.path)).toBeCloseTo(result.length);
+  });
+
+  it("repeats exactly for the same seed", () => {
+    const a = runPlanner(createPlanner("rrt", walled, left, right, { seed: 3 }));
+    const b = runPlanner(createPlanner("rrt", walled, left, right, { seed: 3 }));
+    expect(a.path).toEqual(b.path);
+    expect(a.nodes).toBe(b.nodes);
+  });
+
+  it("RRT* converges towards the straight line on an open grid", () => {
+    const grid = createPlanningGrid(30, 30);
+    const start = { x: 2, y: 2 };
+    const goal = { x: 27, y: 27 };
+    const optimum = 25 * Math.SQRT2;
+    const rrt = runPlanner(createPlanner("rrt", grid, start, goal, { seed: 11 }));
+    const rrtStar = runPlanner(createPlanner("rrtstar", grid, start, goal, { seed: 11, maxIterations: 1500 }));
+    expect(rrtStar.found).toBe(true);
+    expect(rrtStar.length).toBeLessThan(optimum * 1.05);
+    expect(rrtStar.length).toBeLessThanOrEqual(rrt.length);
+    expect(pathLength(rrtStar.path)).toBeCloseTo(rrtStar.length);
+  });
+
+  it("gives up after maxIterations when the goal is unreachable", () => {
+    const sealed = gridFrom([
+      "....#.....",
+      "....#.....",
+      "....#.....",
+    ]);
+    const planner = createPlanner("rrt", sealed, { x: 0, y: 0 }, { x: 9, y: 2 }, { maxIterations: 200 });
+    const result = runPlanner(planner);
+    expect(planner.done).toBe(true);
+    expect(result.found).toBe(false);
+    expect(result.iterations).toBe(200);
+  });
+});
+
+describe("randomObstacles", () => {
+  it("is reproducible and keeps the requested cells clear", () => {
+    const keep = [
+      { x: 0, y: 0 },
+      { x: 19, y: 19 },
+    ];
+    const a = randomObstacles(20, 20, 0.25, 5, keep);
+    const b = randomObstacles(20, 20, 0.25, 5, keep);
+    expect(Array.from(a.blocked)).toEqual(Array.from(b.blocked));
+    const filled = a.blocked.reduce((sum, v) => sum + v, 0);
+    expect(filled).toBeGreaterThanOrEqual(100);
+    keep.forEach((p) => expect(isFree(a, p.x, p.y)).toBe(true));
+  });
+});
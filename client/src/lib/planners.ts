@@ -0,0 +1,453 @@
+/**
+ * 2D path planners for the planner demo: grid search (A*, Dijkstra) and
+ * sampling-based (RRT, RRT*). Each planner advances one expansion or sample
+ * per step() so the UI can animate the search; timing covers step() only,
+ * never the drawing in between.
+ *
+ * Coordinates are in cells. Integer cells (x, y) cover [x, x + 1) × [y, y + 1);
+ * paths run through cell centres for grid search and through free space for
+ * the sampling planners.
+ */
+
+import { seededRandom } from "@/lib/random";
+
+export type GridPoint = { x: number; y: number };
+
+/** Row-major obstacle grid; non-zero cells are blocked. */
+export type PlanningGrid = { width: number; height: number; blocked: Uint8Array };
+
+export type PlannerAlgorithm = "astar" | "dijkstra" | "rrt" | "rrtstar";
+
+export const PLANNER_LABELS: Record<PlannerAlgorithm, string> = {
+  astar: "A*",
+  dijkstra: "Dijkstra",
+  rrt: "RRT",
+  rrtstar: "RRT*",
+};
+
+export type PlannerOptions = {
+  /** Grid search: allow diagonal moves (never through a blocked corner). Default true. */
+  diagonal?: boolean;
+  /** Sampling: tree extension per step, in cells. Default 2. */
+  stepSize?: number;
+  /** Sampling: chance of sampling the goal itself. Default 0.05. */
+  goalBias?: number;
+  /** Sampling: samples before giving up (RRT) or stopping refinement (RRT*). Default 3000. */
+  maxIterations?: number;
+  /** RRT*: neighbourhood searched for a cheaper parent and for rewiring. Default 2.5 × stepSize. */
+  rewireRadius?: number;
+  /** Sampling: PRNG seed, so runs are reproducible. */
+  seed?: number;
+};
+
+export type PlanResult = {
+  found: boolean;
+  path: GridPoint[];
+  /** Path length in cells; 0 when not found */
+  length: number;
+  /** Cells expanded (grid search) or tree size (sampling) */
+  nodes: number;
+  /** step() calls so far */
+  iterations: number;
+  /** Time spent inside step(), in ms */
+  timeMs: number;
+};
+
+export interface Planner {
+  readonly algorithm: PlannerAlgorithm;
+  readonly done: boolean;
+  /** One expansion or sample; no-op once done. */
+  step(): void;
+  /** The best path so far (RRT* keeps improving until done). */
+  result(): PlanResult;
+}
+
+export function createPlanningGrid(width: number, height: number): PlanningGrid {
+  return { width, height, blocked: new Uint8Array(width * height) };
+}
+
+export function isFree(grid: PlanningGrid, x: number, y: number): boolean {
+  const cx = Math.floor(x);
+  const cy = Math.floor(y);
+  return cx >= 0 && cy >= 0 && cx < grid.width && cy < grid.height && !grid.blocked[cy * grid.width + cx];
+}
+
+/** A grid with rectangular obstacles scattered over `density` of it, keeping `keepClear` cells free. */
+export function randomObstacles(
+  width: number,
+  height: number,
+  density: number,
+  seed: number,
+  keepClear: GridPoint[] = []
+): PlanningGrid {
+  const grid = createPlanningGrid(width, height);
+  const random = seededRandom(seed);
+  const target = density * width * height;
+  let filled = 0;
+  for (let attempt = 0; filled < target && attempt < 1000; attempt++) {
+    const w = 1 + Math.floor(random() * 4);
+    const h = 1 + Math.floor(random() * 4);
+    const x0 = Math.floor(random() * (width - w + 1));
+    const y0 = Math.floor(random() * (height - h + 1));
+    for (let y = y0; y < y0 + h; y++) {
+      for (let x = x0; x < x0 + w; x++) {
+        if (keepClear.some((p) => Math.abs(p.x - x) <= 1 && Math.abs(p.y - y) <= 1)) continue;
+        if (!grid.blocked[y * width + x]) filled++;
+        grid.blocked[y * width + x] = 1;
+      }
+    }
+  }
+  return grid;
+}
+
+export function pathLength(path: GridPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+  return total;
+}
+
+/** Binary min-heap keyed on f, ties broken towards lower h (closer to the goal). */
+class OpenList {
+  private items: { f: number; h: number; index: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: { f: number; h: number; index: number }) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < items.length && this.less(items[l], items[m])) m = l;
+        if (r < items.length && this.less(items[r], items[m])) m = r;
+        if (m === i) break;
+        [items[i], items[m]] = [items[m], items[i]];
+        i = m;
+      }
+    }
+    return top;
+  }
+
+  private less(a: { f: number; h: number }, b: { f: number; h: number }) {
+    return a.f < b.f || (a.f === b.f && a.h < b.h);
+  }
+}
+
+export const CELL_UNSEEN = 0;
+export const CELL_FRONTIER = 1;
+export const CELL_EXPANDED = 2;
+
+/** A* (octile or Manhattan heuristic) or, with the heuristic off, Dijkstra. */
+export class GridSearchPlanner implements Planner {
+  done = false;
+  /** Per cell: CELL_UNSEEN, CELL_FRONTIER or CELL_EXPANDED */
+  readonly cellState: Uint8Array;
+  private cost: Float64Array;
+  private parent: Int32Array;
+  private open = new OpenList();
+  private found = false;
+  private expanded = 0;
+  private iterations = 0;
+  private timeMs = 0;
+  private readonly diagonal: boolean;
+  private readonly goalIndex: number;
+
+  constructor(
+    readonly algorithm: "astar" | "dijkstra",
+    private grid: PlanningGrid,
+    private start: GridPoint,
+    private goal: GridPoint,
+    options: PlannerOptions = {}
+  ) {
+    const n = grid.width * grid.height;
+    this.cellState = new Uint8Array(n);
+    this.cost = new Float64Array(n).fill(Infinity);
+    this.parent = new Int32Array(n).fill(-1);
+    this.diagonal = options.diagonal ?? true;
+    this.goalIndex = goal.y * grid.width + goal.x;
+    if (!isFree(grid, start.x, start.y) || !isFree(grid, goal.x, goal.y)) {
+      this.done = true;
+      return;
+    }
+    const startIndex = start.y * grid.width + start.x;
+    this.cost[startIndex] = 0;
+    this.cellState[startIndex] = CELL_FRONTIER;
+    const h = this.heuristic(start.x, start.y);
+    this.open.push({ f: h, h, index: startIndex });
+  }
+
+  private heuristic(x: number, y: number) {
+    if (this.algorithm === "dijkstra") return 0;
+    const dx = Math.abs(x - this.goal.x);
+    const dy = Math.abs(y - this.goal.y);
+    return this.diagonal ? Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy) : dx + dy;
+  }
+
+  step() {
+    if (this.done) return;
+    const t0 = performance.now();
+    this.iterations++;
+    const { width } = this.grid;
+    // Stale heap entries (cells already expanded via a cheaper route) are skipped
+    let index = -1;
+    while (this.open.size) {
+      const next = this.open.pop();
+      if (this.cellState[next.index] !== CELL_EXPANDED) {
+        index = next.index;
+        break;
+      }
+    }
+    if (index < 0) {
+      this.done = true;
+    } else {
+      this.cellState[index] = CELL_EXPANDED;
+      this.expanded++;
+      if (index === this.goalIndex) {
+        this.found = true;
+        this.done = true;
+      } else {
+        const x = index % width;
+        const y = (index - x) / width;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if ((!dx && !dy) || (!this.diagonal && dx && dy)) continue;
+            const nx = x + dx;
+            const ny = y + dy;
+            if (!isFree(this.grid, nx, ny)) continue;
+            // No squeezing diagonally between two blocked cells
+            if (dx && dy && (!isFree(this.grid, x + dx, y) || !isFree(this.grid, x, y + dy))) continue;
+            const n = ny * width + nx;
+            if (this.cellState[n] === CELL_EXPANDED) continue;
+            const g = this.cost[index] + (dx && dy ? Math.SQRT2 : 1);
+            if (g >= this.cost[n]) continue;
+            this.cost[n] = g;
+            this.parent[n] = index;
+            this.cellState[n] = CELL_FRONTIER;
+            const h = this.heuristic(nx, ny);
+            this.open.push({ f: g + h, h, index: n });
+          }
+        }
+      }
+    }
+    this.timeMs += performance.now() - t0;
+  }
+
+  result(): PlanResult {
+    const path: GridPoint[] = [];
+    if (this.found) {
+      const { width } = this.grid;
+      for (let i = this.goalIndex; i >= 0; i = this.parent[i]) path.unshift({ x: (i % width) + 0.5, y: Math.floor(i / width) + 0.5 });
+    }
+    return {
+      found: this.found,
+      path,
+      length: this.found ? this.cost[this.goalIndex] : 0,
+      nodes: this.expanded,
+      iterations: this.iterations,
+      timeMs: this.timeMs,
+    };
+  }
+}
+
+export type TreeNode = GridPoint & { parent: number; cost: number };
+
+/** Collision check along a segment, sampled every fifth of a cell. */
+function segmentFree(grid: PlanningGrid, a: GridPoint, b: GridPoint) {
+  const samples = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) * 5));
+  for (let i = 0; i <= samples; i++) {
+    const t = i / samples;
+    if (!isFree(grid, a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t)) return false;
+  }
+  return true;
+}
+
+/**
+ * RRT grows a tree towards random samples and stops at the first branch that
+ * reaches the goal. RRT* also picks the cheapest nearby parent and rewires
+ * neighbours through each new node, then keeps sampling until maxIterations,
+ * so its path shortens the longer it runs.
+ */
+export class RrtPlanner implements Planner {
+  done = false;
+  readonly nodes: TreeNode[] = [];
+  private children: number[][] = [];
+  /** Nodes that can see the goal within one step */
+  private goalParents: number[] = [];
+  private random: () => number;
+  private iterations = 0;
+  private timeMs = 0;
+  private readonly stepSize: number;
+  private readonly goalBias: number;
+  private readonly maxIterations: number;
+  private readonly rewireRadius: number;
+  private readonly start: GridPoint;
+  private readonly goal: GridPoint;
+
+  constructor(
+    readonly algorithm: "rrt" | "rrtstar",
+    private grid: PlanningGrid,
+    start: GridPoint,
+    goal: GridPoint,
+    options: PlannerOptions = {}
+  ) {
+    this.start = { x: start.x + 0.5, y: start.y + 0.5 };
+    this.goal = { x: goal.x + 0.5, y: goal.y + 0.5 };
+    this.stepSize = options.stepSize ?? 2;
+    this.goalBias = options.goalBias ?? 0.05;
+    this.maxIterations = options.maxIterations ?? 3000;
+    this.rewireRadius = options.rewireRadius ?? this.stepSize * 2.5;
+    this.random = seededRandom(options.seed ?? 1);
+    if (!isFree(grid, this.start.x, this.start.y) || !isFree(grid, this.goal.x, this.goal.y)) {
+      this.done = true;
+      return;
+    }
+    this.addNode(this.start, -1, 0);
+  }
+
+  private addNode(point: GridPoint, parent: number, cost: number) {
+    const index = this.nodes.length;
+    this.nodes.push({ x: point.x, y: point.y, parent, cost });
+    this.children.push([]);
+    if (parent >= 0) this.children[parent].push(index);
+    return index;
+  }
+
+  private nearest(point: GridPoint) {
+    let best = 0;
+    let bestDist = Infinity;
+    this.nodes.forEach((node, i) => {
+      const d = (node.x - point.x) ** 2 + (node.y - point.y) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    });
+    return best;
+  }
+
+  /** Move `index` under `parent`, carrying the cost change down its subtree. */
+  private reparent(index: number, parent: number, cost: number) {
+    const node = this.nodes[index];
+    const siblings = this.children[node.parent];
+    siblings.splice(siblings.indexOf(index), 1);
+    this.children[parent].push(index);
+    node.parent = parent;
+    const delta = cost - node.cost;
+    const stack = [index];
+    while (stack.length) {
+      const i = stack.pop()!;
+      this.nodes[i].cost += delta;
+      stack.push(...this.children[i]);
+    }
+  }
+
+  step() {
+    if (this.done) return;
+    const t0 = performance.now();
+    this.iterations++;
+    const sample =
+      this.random() < this.goalBias
+        ? this.goal
+        : { x: this.random() * this.grid.width, y: this.random() * this.grid.height };
+    const nearestIndex = this.nearest(sample);
+    const from = this.nodes[nearestIndex];
+    const d = Math.hypot(sample.x - from.x, sample.y - from.y);
+    const scale = d > this.stepSize ? this.stepSize / d : 1;
+    const point = { x: from.x + (sample.x - from.x) * scale, y: from.y + (sample.y - from.y) * scale };
+
+    if (d > 0 && segmentFree(this.grid, from, point)) {
+      let parent = nearestIndex;
+      let cost = from.cost + Math.hypot(point.x - from.x, point.y - from.y);
+      const near: number[] = [];
+      if (this.algorithm === "rrtstar") {
+        this.nodes.forEach((node, i) => {
+          if (Math.hypot(node.x - point.x, node.y - point.y) <= this.rewireRadius) near.push(i);
+        });
+        near.forEach((i) => {
+          const node = this.nodes[i];
+          const c = node.cost + Math.hypot(point.x - node.x, point.y - node.y);
+          if (c < cost && segmentFree(this.grid, node, point)) {
+            parent = i;
+            cost = c;
+          }
+        });
+      }
+      const index = this.addNode(point, parent, cost);
+      near.forEach((i) => {
+        if (i === parent) return;
+        const node = this.nodes[i];
+        const c = cost + Math.hypot(node.x - point.x, node.y - point.y);
+        if (c < node.cost && segmentFree(this.grid, point, node)) this.reparent(i, index, c);
+      });
+      if (Math.hypot(this.goal.x - point.x, this.goal.y - point.y) <= this.stepSize && segmentFree(this.grid, point, this.goal)) {
+        this.goalParents.push(index);
+        if (this.algorithm === "rrt") this.done = true;
+      }
+    }
+    if (this.iterations >= this.maxIterations) this.done = true;
+    this.timeMs += performance.now() - t0;
+  }
+
+  result(): PlanResult {
+    let best = -1;
+    let bestCost = Infinity;
+    this.goalParents.forEach((i) => {
+      const node = this.nodes[i];
+      const c = node.cost + Math.hypot(this.goal.x - node.x, this.goal.y - node.y);
+      if (c < bestCost) {
+        best = i;
+        bestCost = c;
+      }
+    });
+    const path: GridPoint[] = [];
+    if (best >= 0) {
+      path.push(this.goal);
+      for (let i = best; i >= 0; i = this.nodes[i].parent) path.unshift({ x: this.nodes[i].x, y: this.nodes[i].y });
+    }
+    return {
+      found: best >= 0,
+      path,
+      length: best >= 0 ? bestCost : 0,
+      nodes: this.nodes.length,
+      iterations: this.iterations,
+      timeMs: this.timeMs,
+    };
+  }
+}
+
+export function createPlanner(
+  algorithm: PlannerAlgorithm,
+  grid: PlanningGrid,
+  start: GridPoint,
+  goal: GridPoint,
+  options: PlannerOptions = {}
+): GridSearchPlanner | RrtPlanner {
+  return algorithm === "astar" || algorithm === "dijkstra"
+    ? new GridSearchPlanner(algorithm, grid, start, goal, options)
+    : new RrtPlanner(algorithm, grid, start, goal, options);
+}
+
+/** Step a planner until it finishes (or `maxSteps` runs out) and return its result. */
+export function runPlanner(planner: Planner, maxSteps = 1_000_000): PlanResult {
+  for (let i = 0; i < maxSteps && !planner.done; i++) planner.step();
+  return planner.result();
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { colorizePoints, decimatePoints, laserScanGeometry, type LaserScan } from "@/lib/pointCloud";
+
+/** Five beams a quarter turn apart from -90°; only the first and last are in range. */
+const scan: LaserScan = {
+  header: { frame_id: "laser" },
+  angle_min: -Math.PI / 2,
+  angle_increment: Math.PI / 4,
+  range_min: 0.1,
+  range_max: 10,
+  ranges: [1, null, 0.05, 20, 2],
+  intensities: [5, 6, 7, 8, 9],
+};
+
+/** Points at the given heights (y) along x. */
+function column(heights: number[]) {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(heights.flatMap((y, i) => [i, y, 0]), 3));
+  return geometry;
+}
+
+/** Point `i` has the ramp colour at `t` (0 blue, 1 red), to float32 precision. */
+function expectRamp(geometry: THREE.BufferGeometry, i: number, t: number) {
+  const color = new THREE.Color().fromBufferAttribute(geometry.getAttribute("color") as THREE.BufferAttribute, i);
+  const expected = new THREE.Color().setHSL((1 - t) * (2 / 3), 0.85, 0.5);
+  color.toArray().forEach((c, k) => expect(c).toBeCloseTo(expected.toArray()[k], 6));
+}
+
+describe("laserScanGeometry", () => {
+  it("drops null and out-of-range returns", () => {
+    const geometry = laserScanGeometry(scan);
+    const position = geometry.getAttribute("position");
+    expect(position.count).toBe(2);
+    expect(position.getX(0)).toBeCloseTo(0);
+    expect(position.getY(0)).toBeCloseTo(-1);
+    expect(position.getX(1)).toBeCloseTo(0);
+    expect(position.getY(1)).toBeCloseTo(2);
+    expect(Array.from(geometry.getAttribute("intensity").array)).toEqual([5, 9]);
+  });
+
+  it("keeps returns exactly at range_min and range_max", () => {
+    const geometry = laserScanGeometry({ ...scan, ranges: [0.1, 10, 10.01, 0.09, 5] });
+    expect(geometry.getAttribute("position").count).toBe(3);
+  });
+
+  it("has no intensity attribute when the scan has none", () => {
+    expect(laserScanGeometry({ ...scan, intensities: undefined }).getAttribute("intensity")).toBeUndefined();
+  });
+});
+
+describe("decimatePoints", () => {
+  it("keeps every step-th point with all its attributes", () => {
+    const geometry = column([0, 1, 2, 3, 4]);
+    geometry.setAttribute("intensity", new THREE.Float32BufferAttribute([10, 11, 12, 13, 14], 1));
+    const out = decimatePoints(geometry, 2);
+    expect(Array.from(out.getAttribute("position").array)).toEqual([0, 0, 0, 2, 2, 0, 4, 4, 0]);
+    expect(Array.from(out.getAttribute("intensity").array)).toEqual([10, 12, 14]);
+  });
+
+  it("returns the geometry itself for a step of 1", () => {
+    const geometry = column([0, 1]);
+    expect(decimatePoints(geometry, 1)).toBe(geometry);
+  });
+});
+
+describe("colorizePoints", () => {
+  // 0…97 plus one stray return either side
+  const heights = [-1000, ...Array.from({ length: 98 }, (_, i) => i), 1000];
+
+  it("ramps height over the 2nd–98th percentile, clamping strays", () => {
+    const geometry = column(heights);
+    colorizePoints(geometry, "height", new THREE.Matrix4());
+    // 2nd percentile is 1, 98th is 97
+    expectRamp(geometry, 2, 0);
+    expectRamp(geometry, 98, 1);
+    expectRamp(geometry, 50, 0.5);
+    expectRamp(geometry, 0, 0);
+    expectRamp(geometry, 99, 1);
+  });
+
+  it("measures height along the world up axis after toWorld", () => {
+    const geometry = new THREE.BufferGeometry();
+    // Sensor z is world up once the frame is turned -90° about X
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute([0, 0, 0, 5, 0, 0, 0, 0, 1], 3));
+    colorizePoints(geometry, "height", new THREE.Matrix4().makeRotationX(-Math.PI / 2));
+    expectRamp(geometry, 0, 0);
+    expectRamp(geometry, 1, 0);
+    expectRamp(geometry, 2, 1);
+  });
+
+  it("ramps intensity when the cloud has it", () => {
+    const geometry = column([3, 2, 1]);
+    geometry.setAttribute("intensity", new THREE.Float32BufferAttribute([0, 5, 10], 1));
+    colorizePoints(geometry, "intensity", new THREE.Matrix4());
+    expectRamp(geometry, 0, 0);
+    expectRamp(geometry, 1, 0.5);
+    expectRamp(geometry, 2, 1);
+  });
+
+  it("falls back to height for intensity without an intensity attribute", () => {
+    const byIntensity = column([3, 2, 1]);
+    const byHeight = column([3, 2, 1]);
+    colorizePoints(byIntensity, "intensity", new THREE.Matrix4());
+    colorizePoints(byHeight, "height", new THREE.Matrix4());
+    expect(byIntensity.getAttribute("color").array).toEqual(byHeight.getAttribute("color").array);
+    expectRamp(byIntensity, 0, 1);
+  });
+
+  it("uses the middle of the ramp when every value is the same", () => {
+    const geometry = column([2, 2, 2]);
+    colorizePoints(geometry, "height", new THREE.Matrix4());
+    expectRamp(geometry, 1, 0.5);
+  });
+});
@@ -0,0 +1,169 @@
+import * as THREE from "three";
+import { PCDLoader } from "three/examples/jsm/loaders/PCDLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { z } from "zod";
+
+export type PointColorMode = "height" | "intensity" | "rgb" | "solid";
+
+/**
+ * Points in the frame of the sensor that produced them. Attributes:
+ * `position`, plus `intensity` and `rgb` (0–1) when the source has them.
+ * `color` is derived by colorizePoints.
+ */
+export type PointCloud = {
+  name: string;
+  geometry: THREE.BufferGeometry;
+  /** Sensor frame named by the file itself (LaserScan header), if any */
+  frame?: string;
+};
+
+// sensor_msgs/LaserScan; intensities are optional, as on many drivers
+const laserScanSchema = z.object({
+  header: z.object({ frame_id: z.string() }).partial().optional(),
+  angle_min: z.number(),
+  angle_increment: z.number().refine((v) => v !== 0, "must not be 0"),
+  range_min: z.number(),
+  range_max: z.number(),
+  ranges: z.array(z.number().nullable()),
+  intensities: z.array(z.number()).optional(),
+});
+
+export type LaserScan = z.infer<typeof laserScanSchema>;
+
+/** Parse LaserScan JSON (as echoed by rosbridge or `ros2 topic echo --json`); throws with a readable message. */
+export function parseLaserScan(json: string): LaserScan {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Laser scan file is not valid JSON");
+  }
+  const result = laserScanSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid laser scan at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+/** Scan beams as points in the laser frame (x forward, y left); out-of-range returns are dropped. */
+export function laserScanGeometry(scan: LaserScan): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const intensities: number[] = [];
+  scan.ranges.forEach((r, i) => {
+    if (r === null || !Number.isFinite(r) || r < scan.range_min || r > scan.range_max) return;
+    const angle = scan.angle_min + i * scan.angle_increment;
+    positions.push(r * Math.cos(angle), r * Math.sin(angle), 0);
+    intensities.push(scan.intensities?.[i] ?? 0);
+  });
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  if (scan.intensities?.length) geometry.setAttribute("intensity", new THREE.Float32BufferAttribute(intensities, 1));
+  return geometry;
+}
+
+/** Keep the source colours under `rgb` so `color` is free for the active colour mode. */
+function normalizeAttributes(geometry: THREE.BufferGeometry) {
+  const color = geometry.getAttribute("color");
+  if (color) {
+    geometry.setAttribute("rgb", color);
+    geometry.deleteAttribute("color");
+  }
+  const intensity = geometry.getAttribute("intensity");
+  // PLY custom properties come back as NaN when the file lacks them
+  if (intensity && Number.isNaN(intensity.getX(0))) geometry.deleteAttribute("intensity");
+  ["normal", "uv", "label"].forEach((name) => geometry.deleteAttribute(name));
+  geometry.setIndex(null);
+  return geometry;
+}
+
+function parsePly(buffer: ArrayBuffer) {
+  const loader = new PLYLoader();
+  // CloudCompare writes "scalar_intensity", PCL and most drivers "intensity"
+  const header = new TextDecoder().decode(buffer.slice(0, Math.min(buffer.byteLength, 4096)));
+  const property = header.match(/property \w+ (scalar_intensity|intensity)\b/)?.[1];
+  if (property) loader.setCustomPropertyNameMapping({ intensity: [property] });
+  return loader.parse(buffer);
+}
+
+/** Point cloud from a .pcd, .ply or LaserScan .json file's contents; throws with a readable message. */
+export function parsePointCloud(buffer: ArrayBuffer, fileName: string): PointCloud {
+  const name = fileName.replace(/^.*\//, "");
+  const ext = name.split(".").pop()?.toLowerCase();
+  let geometry: THREE.BufferGeometry;
+  let frame: string | undefined;
+  if (ext === "json") {
+    const scan = parseLaserScan(new TextDecoder().decode(buffer));
+    geometry = laserScanGeometry(scan);
+    frame = scan.header?.frame_id?.replace(/^\/+/, "") || undefined;
+  } else if (ext === "pcd" || ext === "ply") {
+    try {
+      // PCDLoader returns ready-made Points; only the geometry is kept
+      geometry = ext === "pcd" ? new PCDLoader().parse(buffer).geometry : parsePly(buffer);
+    } catch (err) {
+      throw new Error(`Could not parse ${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } else {
+    throw new Error(`Unsupported point cloud format ".${ext}" (expected .pcd, .ply or LaserScan .json)`);
+  }
+  if (!geometry.getAttribute("position")?.count) throw new Error(`${name} contains no points`);
+  return { name, geometry: normalizeAttributes(geometry), frame };
+}
+
+export async function loadPointCloud(url: string): Promise<PointCloud> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status})`);
+  return parsePointCloud(await res.arrayBuffer(), url);
+}
+
+/** Every `step`-th point, with all per-point attributes. */
+export function decimatePoints(geometry: THREE.BufferGeometry, step: number): THREE.BufferGeometry {
+  if (step <= 1) return geometry;
+  const out = new THREE.BufferGeometry();
+  Object.entries(geometry.attributes).forEach(([name, attr]) => {
+    const size = attr.itemSize;
+    const count = Math.ceil(attr.count / step);
+    const array = new Float32Array(count * size);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < size; c++) array[i * size + c] = attr.getComponent(i * step, c);
+    }
+    out.setAttribute(name, new THREE.BufferAttribute(array, size));
+  });
+  return out;
+}
+
+const _p = new THREE.Vector3();
+const _c = new THREE.Color();
+
+/**
+ * Write the `color` attribute for a mode. Height is the scene's up axis after
+ * `toWorld` (the sensor frame's world matrix), so a tilted camera still
+ * colours the floor uniformly. Ramps run blue (low) to red (high) over the
+ * 2nd–98th percentile, so a few stray returns do not flatten the gradient.
+ */
+export function colorizePoints(geometry: THREE.BufferGeometry, mode: PointColorMode, toWorld: THREE.Matrix4) {
+  const position = geometry.getAttribute("position");
+  const n = position.count;
+  const colors = new Float32Array(n * 3);
+
+  const rgb = geometry.getAttribute("rgb");
+  if (mode === "rgb" && rgb) {
+    for (let i = 0; i < n; i++) colors.set([rgb.getX(i), rgb.getY(i), rgb.getZ(i)], i * 3);
+  } else {
+    const intensity = geometry.getAttribute("intensity");
+    const values = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      values[i] =
+        mode === "intensity" && intensity ? intensity.getX(i) : _p.fromBufferAttribute(position, i).applyMatrix4(toWorld).y;
+    }
+    const sorted = values.slice().sort();
+    const lo = sorted[Math.floor(n * 0.02)];
+    const hi = sorted[Math.min(n - 1, Math.floor(n * 0.98))];
+    for (let i = 0; i < n; i++) {
+      const t = hi > lo ? THREE.MathUtils.clamp((values[i] - lo) / (hi - lo), 0, 1) : 0.5;
+      _c.setHSL((1 - t) * (2 / 3), 0.85, 0.5);
+      colors.set([_c.r, _c.g, _c.b], i * 3);
+    }
+  }
+  geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { JointValues } from "@/lib/urdf";
+
+export type SavedPose = { name: string; joints: JointValues; savedAt: number };
+
+const savedPoseSchema = z.object({
+  name: z.string().min(1),
+  joints: z.record(z.string(), z.number()),
+  savedAt: z.number().optional(),
+});
+
+// Exports carry the robot id so a Fetch library is not silently loaded onto another arm
+const libraryFileSchema = z.union([
+  z.array(savedPoseSchema),
+  z.object({ robot: z.string().optional(), poses: z.array(savedPoseSchema) }),
+]);
+
+const storageKey = (robotId: string) => `pose-library:${robotId}`;
+
+const withTimestamps = (poses: z.infer<typeof savedPoseSchema>[]): SavedPose[] =>
+  poses.map((p) => ({ ...p, savedAt: p.savedAt ?? Date.now() }));
+
+/** Saved poses for a robot; an empty list when storage is empty, unavailable or corrupt. */
+export function loadPoseLibrary(robotId: string): SavedPose[] {
+  try {
+    const raw = localStorage.getItem(storageKey(robotId));
+    if (!raw) return [];
+    const result = z.array(savedPoseSchema).safeParse(JSON.parse(raw));
+    return result.success ? withTimestamps(result.data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePoseLibrary(robotId: string, poses: SavedPose[]) {
+  try {
+    localStorage.setItem(storageKey(robotId), JSON.stringify(poses));
+  } catch {
+    // Private mode or quota: the library still works for this session
+  }
+}
+
+export const serializePoseLibrary = (robotId: string, poses: SavedPose[]) =>
+  JSON.stringify({ robot: robotId, poses }, null, 2);
+
+/** Parse an exported library (or a bare array of poses); throws with a readable message. */
+export function parsePoseLibrary(json: string, robotId: string): SavedPose[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Pose file is not valid JSON");
+  }
+  const result = libraryFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid pose file at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  if (Array.isArray(result.data)) return withTimestamps(result.data);
+  if (result.data.robot && result.data.robot !== robotId) {
+    throw new Error(`These poses are for "${result.data.robot}", not "${robotId}"`);
+  }
+  return withTimestamps(result.data.poses);
+}
+
+/** Add or replace (by name) a pose, keeping the library's order. */
+export function upsertPose(poses: SavedPose[], pose: SavedPose): SavedPose[] {
+  const index = poses.findIndex((p) => p.name === pose.name);
+  if (index < 0) return [...poses, pose];
+  return poses.map((p, i) => (i === index ? pose : p));
+}
+
+// URL encoding: "1~" then one slot per joint in the given order, values in
+// 1e-4 units (0.1 mm, ~0.006°) written base 36 and separated by "."; empty
+// slots are joints the pose leaves alone. Only URL-unreserved characters.
+const POSE_PARAM_VERSION = "1";
+const POSE_SCALE = 1e4;
+
+export function encodePose(values: JointValues, order: string[]): string {
+  const slots = order.map((name) =>
+    typeof values[name] === "number" ? Math.round(values[name] * POSE_SCALE).toString(36) : ""
+  );
+  while (slots.length && slots[slots.length - 1] === "") slots.pop();
+  return `${POSE_PARAM_VERSION}~${slots.join(".")}`;
+}
+
+/** Inverse of encodePose; null for anything malformed or from another format version. */
+export function decodePose(param: string | null | undefined, order: string[]): JointValues | null {
+  if (!param) return null;
+  const [version, body = ""] = param.split("~");
+  if (version !== POSE_PARAM_VERSION) return null;
+  const slots = body ? body.split(".") : [];
+  if (slots.length > order.length) return null;
+  const out: JointValues = {};
+  for (let i = 0; i < slots.length; i++) {
+    if (slots[i] === "") continue;
+    if (!/^-?[0-9a-z]+$/.test(slots[i])) return null;
+    out[order[i]] = parseInt(slots[i], 36) / POSE_SCALE;
+  }
+  return out;
+}
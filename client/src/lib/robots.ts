@@ -0,0 +1,223 @@
+import type { CameraBookmark } from "@/lib/cameraController";
+import type { IkChain } from "@/lib/kinematics";
+import type { PanTiltUnit } from "@/lib/lookAt";
+import { resolvePublic, type JointValues, type RobotFormat, type UpAxis, type UrdfPackages } from "@/lib/urdf";
+
+type Vec3 = [number, number, number];
+
+export type CameraPreset = {
+  name: string;
+  position: Vec3;
+  target: Vec3;
+};
+
+/**
+ * Everything a viewer needs to show a robot. Paths are relative to
+ * client/public and resolved against the deploy base at runtime.
+ */
+export type RobotManifest = {
+  id: string;
+  name: string;
+  description: string;
+  /** URDF or MJCF file */
+  source: string;
+  /** Defaults to "urdf" */
+  format?: RobotFormat;
+  /** ROS package name -> public directory, for package:// mesh URIs (URDF only) */
+  packages: UrdfPackages;
+  upAxis: UpAxis;
+  defaultPose: JointValues;
+  /** First entry is the initial view */
+  cameraPresets: CameraPreset[];
+  /** Joints exposed as controls, in display order; "all" shows every movable joint */
+  interactiveJoints: string[] | "all";
+  /** Kinematic chains for grouping controls; joints not listed fall under "Other" */
+  jointGroups?: JointGroup[];
+  /** Chain driven by the end-effector drag handle */
+  ikChain?: IkChain;
+  /** Head or camera mount that can be pointed at things (see solveLookAt) */
+  lookAt?: PanTiltUnit;
+  /** Sample sensor captures (PCD/PLY/LaserScan JSON) and the link frame each was recorded in */
+  sensorSamples?: SensorSample[];
+  /** Sample occupancy maps (map_server map.yaml) with an optional planned path (nav_msgs/Path JSON) */
+  mapSamples?: MapSample[];
+};
+
+export type SensorSample = { name: string; source: string; frame: string };
+
+export type MapSample = { name: string; map: string; path?: string };
+
+export type JointGroup = { name: string; joints: string[] };
+
+export const robots: RobotManifest[] = [
+  {
+    id: "fetch",
+    name: "Fetch",
+    description: "Fetch Robotics mobile manipulator: 7-DoF arm, pan/tilt head, prismatic torso.",
+    source: "assets/fetch/fetch.urdf",
+    packages: { fetch: "assets/fetch/", fetch_description: "assets/fetch/" },
+    upAxis: "z",
+    defaultPose: {
+      shoulder_pan_joint: 1.2,
+      shoulder_lift_joint: -0.3,
+      elbow_flex_joint: -0.2,
+      forearm_roll_joint: 0,
+      wrist_flex_joint: 0,
+      wrist_roll_joint: 0,
+    },
+    cameraPresets: [
+      { name: "Three-quarter", position: [2.6, 1.4, 2.6], target: [0, 0.8, 0] },
+      { name: "Front", position: [3, 1, 0], target: [0, 0.8, 0] },
+      { name: "Side", position: [0, 1, 3], target: [0, 0.8, 0] },
+      { name: "Top", position: [0, 4, 0.01], target: [0, 0.5, 0] },
+    ],
+    interactiveJoints: [
+      "torso_lift_joint",
+      "head_pan_joint",
+      "head_tilt_joint",
+      "shoulder_pan_joint",
+      "shoulder_lift_joint",
+      "upperarm_roll_joint",
+      "elbow_flex_joint",
+      "forearm_roll_joint",
+      "wrist_flex_joint",
+      "wrist_roll_joint",
+      "l_gripper_finger_joint",
+      "r_gripper_finger_joint",
+    ],
+    jointGroups: [
+      { name: "Torso", joints: ["torso_lift_joint"] },
+      { name: "Head", joints: ["head_pan_joint", "head_tilt_joint"] },
+      {
+        name: "Arm",
+        joints: [
+          "shoulder_pan_joint",
+          "shoulder_lift_joint",
+          "upperarm_roll_joint",
+          "elbow_flex_joint",
+          "forearm_roll_joint",
+          "wrist_flex_joint",
+          "wrist_roll_joint",
+        ],
+      },
+      { name: "Gripper", joints: ["l_gripper_finger_joint", "r_gripper_finger_joint"] },
+    ],
+    ikChain: { base: "torso_lift_link", tip: "gripper_link" },
+    lookAt: { pan: "head_pan_joint", tilt: "head_tilt_joint", sensor: "head_camera_link" },
+    sensorSamples: [
+      { name: "Head camera point cloud", source: "assets/sensors/head_camera.pcd", frame: "head_camera_rgb_optical_frame" },
+      { name: "Base laser scan", source: "assets/sensors/base_scan.json", frame: "laser_link" },
+    ],
+    mapSamples: [{ name: "Lab floor", map: "assets/maps/lab.yaml", path: "assets/maps/lab_path.json" }],
+  },
+  {
+    id: "the_robot",
+    name: "Omni-wheel Manipulator",
+    description: "Three-wheel omni base carrying a 5-DoF servo arm with a parallel gripper.",
+    source: "assets/the_robot/the_robot.urdf",
+    packages: { assets: "assets/the_robot/meshes/" },
+    upAxis: "z",
+    defaultPose: {},
+    cameraPresets: [
+      { name: "Three-quarter", position: [0.6, 0.45, 0.6], target: [0, 0.15, 0] },
+      { name: "Front", position: [0.8, 0.2, 0], target: [0, 0.15, 0] },
+      { name: "Top", position: [0, 1, 0.01], target: [0, 0, 0] },
+    ],
+    interactiveJoints: ["body1", "shoulder1", "elbow1", "wrist1", "wrist2", "gripper1"],
+    jointGroups: [
+      { name: "Arm", joints: ["body1", "shoulder1", "elbow1", "wrist1", "wrist2"] },
+      { name: "Gripper", joints: ["gripper1"] },
+    ],
+  },
+  {
+    id: "so101",
+    name: "SO-101",
+    description: "LeRobot SO-101 desktop arm (new calibration), 5-DoF plus gripper.",
+    source: "so101_new_calib.urdf",
+    packages: {},
+    upAxis: "z",
+    defaultPose: {},
+    cameraPresets: [
+      { name: "Three-quarter", position: [0.45, 0.35, 0.45], target: [0, 0.15, 0] },
+      { name: "Front", position: [0.6, 0.2, 0], target: [0, 0.15, 0] },
+      { name: "Side", position: [0, 0.2, 0.6], target: [0, 0.15, 0] },
+    ],
+    interactiveJoints: "all",
+    jointGroups: [
+      { name: "Arm", joints: ["shoulder_pan", "shoulder_lift", "elbow_flex", "wrist_flex", "wrist_roll"] },
+      { name: "Gripper", joints: ["gripper"] },
+    ],
+    ikChain: { base: "base_link", tip: "gripper_frame_link" },
+  },
+  {
+    id: "so101-mjcf",
+    name: "SO-101 (MuJoCo)",
+    description: "The same SO-101 arm built from its MuJoCo MJCF, with actuator gains and joint dynamics from the model.",
+    source: "so101_new_calib.xml",
+    format: "mjcf",
+    packages: {},
+    upAxis: "z",
+    defaultPose: {},
+    cameraPresets: [
+      { name: "Three-quarter", position: [0.45, 0.35, 0.45], target: [0, 0.15, 0] },
+      { name: "Front", position: [0.6, 0.2, 0], target: [0, 0.15, 0] },
+      { name: "Side", position: [0, 0.2, 0.6], target: [0, 0.15, 0] },
+    ],
+    interactiveJoints: "all",
+    jointGroups: [
+      { name: "Arm", joints: ["shoulder_pan", "shoulder_lift", "elbow_flex", "wrist_flex", "wrist_roll"] },
+      { name: "Gripper", joints: ["gripper"] },
+    ],
+    ikChain: { base: "base", tip: "gripper" },
+  },
+];
+
+export function getRobot(id: string): RobotManifest | undefined {
+  return robots.find((r) => r.id === id);
+}
+
+/** Model url, package map and format resolved against the deploy base. */
+export function resolveRobotAssets(robot: RobotManifest): {
+  url: string;
+  packages: UrdfPackages;
+  format: RobotFormat;
+} {
+  const packages: UrdfPackages = {};
+  Object.entries(robot.packages).forEach(([pkg, dir]) => {
+    packages[pkg] = resolvePublic(dir);
+  });
+  return { url: resolvePublic(robot.source), packages, format: robot.format ?? "urdf" };
+}
+
+/** Split joint names into the manifest's groups, keeping the given order within each group. */
+export function groupJoints(groups: JointGroup[] | undefined, names: string[]): JointGroup[] {
+  const out: JointGroup[] = [];
+  const used = new Set<string>();
+  (groups ?? []).forEach((g) => {
+    const joints = names.filter((n) => g.joints.includes(n));
+    joints.forEach((n) => used.add(n));
+    if (joints.length) out.push({ name: g.name, joints });
+  });
+  const rest = names.filter((n) => !used.has(n));
+  if (rest.length) out.push({ name: groups?.length ? "Other" : "Joints", joints: rest });
+  return out;
+}
+
+/** Filter a loaded robot's joint names down to the manifest's interactive set, in manifest order. */
+export function interactiveJointNames(robot: RobotManifest, available: string[]): string[] {
+  if (robot.interactiveJoints === "all") return available;
+  return robot.interactiveJoints.filter((n) => available.includes(n));
+}
+
+/** Joint order for URL-encoded poses: the manifest's list, so links survive reloads; else the loaded joints. */
+export function poseJointOrder(robot: RobotManifest, available: string[]): string[] {
+  return robot.interactiveJoints === "all" ? available : robot.interactiveJoints;
+}
+
+/** Camera bookmarks for a robot: its presets, a close-up of the IK tip (the gripper) and a whole-robot fit. */
+export function robotBookmarks(robot: RobotManifest): CameraBookmark[] {
+  const bookmarks: CameraBookmark[] = robot.cameraPresets.map((p) => ({ name: p.name, kind: "view", position: p.position, target: p.target }));
+  if (robot.ikChain) bookmarks.push({ name: "Gripper", kind: "link", link: robot.ikChain.tip, direction: [1, 0.6, 1] });
+  bookmarks.push({ name: "Fit", kind: "fit", direction: [1, 0.5, 1] });
+  return bookmarks;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { jointStateValues, reconnectDelay, TfBuffer, type TfMessage } from "@/lib/rosbridge";
+
+/** A /tf message with one translation-only transform per [parent, child, x, y, z]. */
+const tf = (...edges: [string, string, number, number, number][]): TfMessage => ({
+  transforms: edges.map(([parent, child, x, y, z]) => ({
+    header: { frame_id: parent },
+    child_frame_id: child,
+    transform: { translation: { x, y, z }, rotation: { x: 0, y: 0, z: 0, w: 1 } },
+  })),
+});
+
+const positionOf = (matrix: THREE.Matrix4 | null) => new THREE.Vector3().setFromMatrixPosition(matrix!).toArray();
+
+describe("reconnectDelay", () => {
+  it("doubles from the first delay up to the cap", () => {
+    expect([0, 1, 2, 3, 4, 5].map((attempt) => reconnectDelay(attempt))).toEqual([500, 1000, 2000, 4000, 8000, 10000]);
+  });
+
+  it("uses the client's backoff options", () => {
+    const options = { backoff: 100, maxBackoff: 300 };
+    expect([0, 1, 2].map((attempt) => reconnectDelay(attempt, options))).toEqual([100, 200, 300]);
+  });
+});
+
+describe("TfBuffer", () => {
+  it("chains transforms up to the root of the tree", () => {
+    const buffer = new TfBuffer();
+    buffer.update(tf(["odom", "base_link", 1, 0, 0]));
+    buffer.update(tf(["base_link", "laser", 0, 0, 0.5]));
+    expect(positionOf(buffer.lookup("laser"))).toEqual([1, 0, 0.5]);
+    expect(positionOf(buffer.lookup("base_link"))).toEqual([1, 0, 0]);
+  });
+
+  it("applies each parent's rotation to its child's offset", () => {
+    const buffer = new TfBuffer();
+    const quarter = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 2);
+    buffer.update({
+      transforms: [
+        {
+          header: { frame_id: "map" },
+          child_frame_id: "base_link",
+          transform: { translation: { x: 2, y: 0, z: 0 }, rotation: { x: quarter.x, y: quarter.y, z: quarter.z, w: quarter.w } },
+        },
+      ],
+    });
+    buffer.update(tf(["base_link", "laser", 1, 0, 0]));
+    const [x, y, z] = positionOf(buffer.lookup("laser"));
+    expect(x).toBeCloseTo(2);
+    expect(y).toBeCloseTo(1);
+    expect(z).toBeCloseTo(0);
+  });
+
+  it("keeps the latest transform and ignores leading slashes", () => {
+    const buffer = new TfBuffer();
+    buffer.update(tf(["/odom", "/base_link", 1, 0, 0]));
+    buffer.update(tf(["odom", "base_link", 3, 0, 0]));
+    expect(positionOf(buffer.lookup("base_link"))).toEqual([3, 0, 0]);
+  });
+
+  it("is null for a frame it has not seen", () => {
+    const buffer = new TfBuffer();
+    buffer.update(tf(["odom", "base_link", 1, 0, 0]));
+    expect(buffer.lookup("odom")).toBeNull();
+    expect(buffer.lookup("gripper")).toBeNull();
+  });
+
+  it("stops at a cycle instead of looping", () => {
+    const buffer = new TfBuffer();
+    buffer.update(tf(["a", "b", 1, 0, 0], ["b", "a", 1, 0, 0]));
+    expect(positionOf(buffer.lookup("a"))).toEqual([2, 0, 0]);
+  });
+});
+
+describe("jointStateValues", () => {
+  it("pairs names with positions, skipping null and missing ones", () => {
+    expect(jointStateValues({ name: ["a", "b", "c"], position: [0.5, null, 1] })).toEqual({ a: 0.5, c: 1 });
+    expect(jointStateValues({ name: ["a", "b"], position: [0.5] })).toEqual({ a: 0.5 });
+  });
+
+  it("is empty without names or positions", () => {
+    expect(jointStateValues({})).toEqual({});
+    expect(jointStateValues({ name: ["a"] })).toEqual({});
+  });
+});
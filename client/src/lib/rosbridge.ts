@@ -0,0 +1,264 @@
+import * as THREE from "three";
+import { z } from "zod";
+import type { JointValues } from "@/lib/urdf";
+
+export type RosbridgeStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export type RosbridgeOptions = {
+  onStatus?: (status: RosbridgeStatus, detail?: string) => void;
+  /** First reconnect delay in ms; doubles per failed attempt up to maxBackoff */
+  backoff?: number;
+  maxBackoff?: number;
+};
+
+const vec3Schema = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+const transformStampedSchema = z.object({
+  header: z.object({ frame_id: z.string() }),
+  child_frame_id: z.string(),
+  transform: z.object({ translation: vec3Schema, rotation: vec3Schema.extend({ w: z.number() }) }),
+});
+
+// rosbridge writes NaN positions (e.g. unpowered joints) as null
+const jointStateSchema = z.object({
+  name: z.array(z.string()).optional(),
+  position: z.array(z.number().nullable()).optional(),
+});
+
+const tfMessageSchema = z.object({ transforms: z.array(transformStampedSchema).optional() });
+
+export type JointStateMsg = z.infer<typeof jointStateSchema>;
+export type TransformStampedMsg = z.infer<typeof transformStampedSchema>;
+export type TfMessage = z.infer<typeof tfMessageSchema>;
+
+/** Message types the viewer subscribes to, by ROS type name. */
+export type RosMessages = {
+  "sensor_msgs/JointState": JointStateMsg;
+  "tf2_msgs/TFMessage": TfMessage;
+};
+
+// Only the fields the viewer reads; anything else in a message is ignored
+const messageSchemas: { [K in keyof RosMessages]: z.ZodType<RosMessages[K]> } = {
+  "sensor_msgs/JointState": jointStateSchema,
+  "tf2_msgs/TFMessage": tfMessageSchema,
+};
+
+// Ops the client handles; status and anything else is dropped
+const incomingSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("publish"), topic: z.string(), msg: z.unknown() }),
+  z.object({ op: z.literal("service_response"), id: z.string(), result: z.boolean().optional(), values: z.unknown() }),
+]);
+
+const topicsSchema = z.object({ topics: z.array(z.string()), types: z.array(z.string()).optional() });
+
+type Subscription = { id: string; topic: string; type: keyof RosMessages; handler: (msg: unknown) => void };
+
+/**
+ * rosbridge v2 protocol client over a plain WebSocket: topic subscriptions
+ * that survive reconnects, exponential backoff, and service calls. No roslib
+ * dependency; only the ops the viewer uses are implemented.
+ */
+export class RosbridgeClient {
+  status: RosbridgeStatus = "idle";
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private pending = new Map<string, { resolve: (values: unknown) => void; reject: (err: Error) => void }>();
+  private nextId = 0;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly url: string,
+    private options: RosbridgeOptions = {}
+  ) {}
+
+  connect() {
+    if (this.socket) return;
+    this.setStatus(this.attempt ? "reconnecting" : "connecting");
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (err) {
+      // Malformed URLs throw synchronously; nothing to retry
+      this.setStatus("closed", err instanceof Error ? err.message : "Invalid URL");
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.setStatus("open");
+      this.subscriptions.forEach((sub) => this.sendSubscribe(sub));
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    socket.onclose = (event) => {
+      this.socket = null;
+      this.rejectPending("Connection closed");
+      if (this.status === "closed") return;
+      // Retry with exponential backoff until close() is called
+      const delay = reconnectDelay(this.attempt++, this.options);
+      this.setStatus("reconnecting", `${event.reason || "Connection lost"}; retrying in ${(delay / 1000).toFixed(1)} s`);
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.connect();
+      }, delay);
+    };
+  }
+
+  /** Stop for good: no further reconnects. */
+  close() {
+    this.setStatus("closed");
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Subscribe to a topic; returns the unsubscribe function. Re-sent after
+   * every reconnect. Messages that do not match `type` are dropped.
+   */
+  subscribe<K extends keyof RosMessages>(topic: string, type: K, handler: (msg: RosMessages[K]) => void): () => void {
+    const schema = messageSchemas[type];
+    const sub: Subscription = {
+      id: `subscribe:${topic}:${this.nextId++}`,
+      topic,
+      type,
+      handler: (msg) => {
+        const parsed = schema.safeParse(msg);
+        if (parsed.success) handler(parsed.data);
+      },
+    };
+    this.subscriptions.set(sub.id, sub);
+    this.sendSubscribe(sub);
+    return () => {
+      this.subscriptions.delete(sub.id);
+      this.send({ op: "unsubscribe", id: sub.id, topic });
+    };
+  }
+
+  /**
+   * Call a ROS service; rejects when the bridge reports failure, the response
+   * does not match `schema`, or the connection drops.
+   */
+  callService<T>(service: string, schema: z.ZodType<T>, args: Record<string, unknown> = {}): Promise<T> {
+    const id = `call_service:${service}:${this.nextId++}`;
+    return new Promise<T>((resolve, reject) => {
+      if (!this.send({ op: "call_service", id, service, args })) {
+        reject(new Error("Not connected"));
+        return;
+      }
+      this.pending.set(id, {
+        resolve: (values) => {
+          const parsed = schema.safeParse(values);
+          if (parsed.success) resolve(parsed.data);
+          else reject(new Error(`Unexpected response from ${service}`));
+        },
+        reject,
+      });
+    });
+  }
+
+  /** Topic names and types via rosapi (needs rosapi running next to rosbridge). */
+  async listTopics(): Promise<{ topic: string; type: string }[]> {
+    const values = await this.callService("/rosapi/topics", topicsSchema);
+    return values.topics.map((topic, i) => ({ topic, type: values.types?.[i] ?? "" }));
+  }
+
+  private sendSubscribe(sub: Subscription) {
+    this.send({ op: "subscribe", id: sub.id, topic: sub.topic, type: sub.type });
+  }
+
+  private send(data: Record<string, unknown>) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(data));
+    return true;
+  }
+
+  private handleMessage(raw: unknown) {
+    let json: unknown;
+    try {
+      json = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    const parsed = incomingSchema.safeParse(json);
+    if (!parsed.success) return;
+    const data = parsed.data;
+    if (data.op === "publish") {
+      this.subscriptions.forEach((sub) => {
+        if (sub.topic === data.topic) sub.handler(data.msg);
+      });
+    } else {
+      const pending = this.pending.get(data.id);
+      if (!pending) return;
+      this.pending.delete(data.id);
+      if (data.result === false) pending.reject(new Error(typeof data.values === "string" ? data.values : "Service call failed"));
+      else pending.resolve(data.values);
+    }
+  }
+
+  private rejectPending(reason: string) {
+    this.pending.forEach(({ reject }) => reject(new Error(reason)));
+    this.pending.clear();
+  }
+
+  private setStatus(status: RosbridgeStatus, detail?: string) {
+    this.status = status;
+    this.options.onStatus?.(status, detail);
+  }
+}
+
+/** Milliseconds to wait before reconnect `attempt` (0 for the first retry). */
+export function reconnectDelay(attempt: number, { backoff = 500, maxBackoff = 10000 }: RosbridgeOptions = {}): number {
+  return Math.min(maxBackoff, backoff * 2 ** attempt);
+}
+
+/** sensor_msgs/JointState -> joint values (positions only). */
+export function jointStateValues(msg: JointStateMsg): JointValues {
+  const out: JointValues = {};
+  (msg.name ?? []).forEach((name, i) => {
+    const v = msg.position?.[i];
+    if (typeof v === "number" && Number.isFinite(v)) out[name] = v;
+  });
+  return out;
+}
+
+const stripSlash = (frame: string) => frame.replace(/^\/+/, "");
+
+/**
+ * Latest transform per child frame from /tf messages, enough to answer
+ * "where is this frame in the tree's root frame" for mirroring a base pose.
+ */
+export class TfBuffer {
+  private edges = new Map<string, { parent: string; matrix: THREE.Matrix4 }>();
+
+  update(msg: TfMessage) {
+    (msg.transforms ?? []).forEach(({ header, child_frame_id, transform }) => {
+      const { translation: t, rotation: r } = transform;
+      this.edges.set(stripSlash(child_frame_id), {
+        parent: stripSlash(header.frame_id),
+        matrix: new THREE.Matrix4().compose(
+          new THREE.Vector3(t.x, t.y, t.z),
+          new THREE.Quaternion(r.x, r.y, r.z, r.w),
+          new THREE.Vector3(1, 1, 1)
+        ),
+      });
+    });
+  }
+
+  /** Pose of `frame` in the root of its tree (ROS axes), or null if never seen. */
+  lookup(frame: string): THREE.Matrix4 | null {
+    let edge = this.edges.get(frame);
+    if (!edge) return null;
+    const out = new THREE.Matrix4();
+    const seen = new Set<string>();
+    while (edge && !seen.has(frame)) {
+      seen.add(frame);
+      out.premultiply(edge.matrix);
+      frame = edge.parent;
+      edge = this.edges.get(frame);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,144 @@
+import * as THREE from "three";
+
+/** What the exporters need from an R3F canvas (see SceneExportBridge). */
+export type SceneHandle = {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  /** OrbitControls (or anything with a target), if the canvas has them */
+  controls: { target?: THREE.Vector3; enabled?: boolean; update?: () => void } | null;
+};
+
+export type ImageExportOptions = {
+  /** Output size as a multiple of the canvas's CSS size */
+  scale: number;
+  /** Extra render resolution averaged down into each output pixel. Default 2. */
+  supersample?: number;
+  /** Drop the scene background and keep alpha */
+  transparent?: boolean;
+};
+
+// Most GPUs allow more, but larger buffers are slow to read back and often fail on laptops
+const MAX_RENDER_SIDE = 8192;
+
+/**
+ * Render the scene once at high resolution and return it as a PNG. The
+ * drawing buffer is enlarged just for this frame (the camera and layout are
+ * untouched), copied into a 2D canvas at the output size, then restored.
+ */
+export async function captureImage(handle: SceneHandle, options: ImageExportOptions): Promise<Blob> {
+  const { gl, scene, camera } = handle;
+  const size = gl.getSize(new THREE.Vector2());
+  const limit = Math.min(MAX_RENDER_SIDE, gl.capabilities.maxTextureSize);
+  const ratio = Math.min(options.scale * (options.supersample ?? 2), limit / Math.max(size.x, size.y));
+
+  const output = document.createElement("canvas");
+  output.width = Math.round(size.x * Math.min(options.scale, ratio));
+  output.height = Math.round(size.y * Math.min(options.scale, ratio));
+  const ctx = output.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+
+  const pixelRatio = gl.getPixelRatio();
+  const background = scene.background;
+  const clearAlpha = gl.getClearAlpha();
+  try {
+    if (options.transparent) {
+      scene.background = null;
+      gl.setClearAlpha(0);
+    }
+    gl.setPixelRatio(ratio);
+    gl.render(scene, camera);
+    // Must happen in the same task as the render: the WebGL buffer is not preserved
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(gl.domElement, 0, 0, output.width, output.height);
+  } finally {
+    scene.background = background;
+    gl.setClearAlpha(clearAlpha);
+    gl.setPixelRatio(pixelRatio);
+    gl.render(scene, camera);
+  }
+
+  return new Promise((resolve, reject) => {
+    output.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG"))), "image/png");
+  });
+}
+
+/** Best WebM codec this browser's MediaRecorder supports, or null if it cannot record WebM. */
+export function webmMimeType(): string | null {
+  if (typeof MediaRecorder === "undefined") return null;
+  return ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((t) => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+export type RecordingOptions = {
+  /** Seconds of animation to record */
+  duration: number;
+  fps: number;
+  /** Pose the scene for animation time t (seconds); called once per frame, in order */
+  update: (t: number) => void;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+  /** Default 8 Mbit/s */
+  videoBitsPerSecond?: number;
+};
+
+/**
+ * Record an animation to WebM with a fixed timestep: frame i shows time i/fps
+ * whatever the display's frame rate, and each frame is pushed to the canvas
+ * stream explicitly. Frames are paced 1/fps apart in wall time, because
+ * MediaRecorder timestamps them as they arrive; a slow frame delays the next
+ * one rather than skipping animation time.
+ */
+export async function recordWebm(handle: SceneHandle, options: RecordingOptions): Promise<Blob> {
+  const mimeType = webmMimeType();
+  if (!mimeType) throw new Error("This browser cannot record WebM video");
+  const { gl, scene, camera } = handle;
+  const stream = gl.domElement.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond ?? 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+  const frames = Math.max(1, Math.round(options.duration * options.fps));
+  recorder.start();
+  const start = performance.now();
+  try {
+    for (let i = 0; i < frames; i++) {
+      if (options.signal?.aborted) throw new Error("Recording cancelled");
+      options.update(i / options.fps);
+      gl.render(scene, camera);
+      track.requestFrame();
+      options.onProgress?.((i + 1) / frames);
+      const due = start + ((i + 1) * 1000) / options.fps;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, due - performance.now())));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((t) => t.stop());
+  }
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+/** Turntable update for recordWebm: one full turn of the camera about the vertical axis through `target`. */
+export function turntable(camera: THREE.Camera, target: THREE.Vector3, duration: number): (t: number) => void {
+  const offset = camera.position.clone().sub(target);
+  const up = new THREE.Vector3(0, 1, 0);
+  return (t) => {
+    camera.position.copy(target).add(offset.clone().applyAxisAngle(up, (2 * Math.PI * t) / duration));
+    camera.lookAt(target);
+  };
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,53 @@
+import * as THREE from "three";
+import { URDFJoint, URDFLink, URDFRobot } from "urdf-loader/src/URDFClasses.js";
+
+type Vec3 = [number, number, number];
+
+/** One joint and the link it carries, for buildChain. */
+export type ChainSpec = {
+  joint: string;
+  link: string;
+  /** Default revolute */
+  type?: URDFJoint["jointType"];
+  /** Default +Z */
+  axis?: Vec3;
+  /** Joint origin in the parent link's frame. Default the parent's origin */
+  origin?: Vec3;
+  /** Default one full turn either way; urdf-loader's own default of [0, 0] locks the joint */
+  limit?: { lower: number; upper: number };
+  /** Link the joint hangs off. Default the previous spec's link (the base for the first) */
+  parent?: string;
+};
+
+/**
+ * URDFRobot built in code, for tests that cannot parse URDF XML (no DOM):
+ * each spec adds a joint and its child link, and the robot's links, joints
+ * and frames maps are filled in as urdf-loader would.
+ */
+export function buildChain(specs: ChainSpec[], base = "base"): URDFRobot {
+  const robot = new URDFRobot();
+  robot.name = base;
+  const links: Record<string, URDFLink> = { [base]: robot };
+  const joints: Record<string, URDFJoint> = {};
+  let previous: URDFLink = robot;
+  specs.forEach((spec) => {
+    const joint = new URDFJoint();
+    joint.name = spec.joint;
+    joint.jointType = spec.type ?? "revolute";
+    joint.axis = new THREE.Vector3(...(spec.axis ?? [0, 0, 1]));
+    joint.limit = { ...(spec.limit ?? { lower: -Math.PI, upper: Math.PI }) };
+    joint.position.set(...(spec.origin ?? [0, 0, 0]));
+    const link = new URDFLink();
+    link.name = spec.link;
+    joint.add(link);
+    (spec.parent ? links[spec.parent] : previous).add(joint);
+    joints[spec.joint] = joint;
+    links[spec.link] = link;
+    previous = link;
+  });
+  robot.links = links;
+  robot.joints = joints;
+  robot.frames = { ...links, ...joints };
+  robot.updateMatrixWorld(true);
+  return robot;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { analyzeMotion, clipTrajectory, differentiate, type Trajectory } from "@/lib/trajectory";
+import type { UrdfJointInfo } from "@/lib/urdf";
+
+const joint = (name: string, extra: Partial<UrdfJointInfo> = {}): UrdfJointInfo => ({
+  name,
+  type: "revolute",
+  limit: null,
+  maxVelocity: null,
+  axis: new THREE.Vector3(0, 0, 1),
+  ...extra,
+});
+
+/** One joint `a` sampled every 0.1 s. */
+const track = (positions: number[]): Trajectory => ({
+  name: "log",
+  times: positions.map((_, i) => i * 0.1),
+  joints: ["a"],
+  positions: [positions],
+});
+
+describe("differentiate", () => {
+  it("uses central differences inside and one-sided ones at the ends", () => {
+    const [velocity] = differentiate([0, 1, 2, 3], [[0, 1, 4, 9]]);
+    expect(velocity).toEqual([1, 2, 4, 5]);
+  });
+
+  it("is zero across repeated stamps rather than infinite", () => {
+    const [velocity] = differentiate([0, 0], [[0, 1]]);
+    expect(velocity).toEqual([0, 0]);
+  });
+});
+
+describe("clipTrajectory", () => {
+  it("samples a clip at the given rate, end included", () => {
+    const traj = clipTrajectory(
+      {
+        name: "ramp",
+        frames: [
+          { time: 0, joints: { a: 0 } },
+          { time: 1, joints: { a: 1 } },
+        ],
+      },
+      10
+    );
+    expect(traj.times).toHaveLength(11);
+    expect(traj.times[10]).toBe(1);
+    expect(traj.positions[0][5]).toBeCloseTo(0.5);
+  });
+
+  it("keeps a zero-length clip to one sample with finite derivatives", () => {
+    const traj = clipTrajectory({
+      name: "still",
+      frames: [
+        { time: 0, joints: { a: 1 } },
+        { time: 0, joints: { a: 1 } },
+      ],
+    });
+    expect(traj.times).toEqual([0]);
+    const { velocities, accelerations, issues } = analyzeMotion(traj, [joint("a")]);
+    expect(velocities).toEqual([[0]]);
+    expect(accelerations).toEqual([[0]]);
+    expect(issues).toEqual([]);
+  });
+});
+
+describe("analyzeMotion", () => {
+  it("reports nothing for smooth motion within limits", () => {
+    const traj = track([0, 0.1, 0.2, 0.3, 0.4, 0.5]);
+    const info = joint("a", { limit: { lower: -1, upper: 1 }, maxVelocity: 2 });
+    expect(analyzeMotion(traj, [info]).issues).toEqual([]);
+  });
+
+  it("merges samples outside the limits into one interval with the worst value", () => {
+    const traj = track([0, 0.5, 1.2, 1.5, 1.1, 0.5, 0]);
+    const { issues } = analyzeMotion(traj, [joint("a", { limit: { lower: -1, upper: 1 } })]);
+    const limits = issues.filter((i) => i.kind === "limit");
+    expect(limits).toHaveLength(1);
+    expect(limits[0]).toMatchObject({ joint: "a", peak: 1.5 });
+    expect(limits[0].start).toBeCloseTo(0.2);
+    expect(limits[0].end).toBeCloseTo(0.4);
+  });
+
+  it("does not check limits on continuous joints", () => {
+    const traj = track([0, 2, 4, 6, 8]);
+    const info = joint("a", { type: "continuous", limit: { lower: -1, upper: 1 } });
+    expect(analyzeMotion(traj, [info]).issues.filter((i) => i.kind === "limit")).toEqual([]);
+  });
+
+  it("flags speeds above the joint's velocity limit", () => {
+    const traj = track([0, 0.05, 0.1, 0.4, 0.7, 0.75, 0.8]);
+    const { issues } = analyzeMotion(traj, [joint("a", { maxVelocity: 1 })]);
+    const fast = issues.filter((i) => i.kind === "velocity");
+    expect(fast).toHaveLength(1);
+    expect(fast[0].peak).toBeCloseTo(3);
+  });
+
+  it("flags a jump as a velocity spike", () => {
+    const positions = Array.from({ length: 20 }, (_, i) => i * 0.01);
+    positions[10] += 0.5;
+    const { issues } = analyzeMotion(track(positions), [joint("a")]);
+    const spikes = issues.filter((i) => i.kind === "spike");
+    expect(spikes.length).toBeGreaterThan(0);
+    spikes.forEach((s) => {
+      expect(s.start).toBeGreaterThanOrEqual(0.8 - 1e-9);
+      expect(s.end).toBeLessThanOrEqual(1.2 + 1e-9);
+    });
+  });
+
+  it("returns derivatives with the same layout as the positions", () => {
+    const traj = track([0, 0.1, 0.2]);
+    const { velocities, accelerations } = analyzeMotion(traj, []);
+    expect(velocities[0].map((v) => +v.toFixed(6))).toEqual([1, 1, 1]);
+    expect(accelerations[0].map((v) => +v.toFixed(6))).toEqual([0, 0, 0]);
+  });
+});
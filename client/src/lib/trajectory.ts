@@ -0,0 +1,314 @@
+import * as THREE from "three";
+import { z } from "zod";
+import { clipDuration, sampleClip, type Clip } from "@/lib/clips";
+import type { JointValues, UrdfJointInfo } from "@/lib/urdf";
+
+/**
+ * Recorded joint motion, e.g. a robot run logged from /joint_states. Times are
+ * seconds from the first sample; tracks are per joint so a plot is one slice.
+ */
+export type Trajectory = {
+  name: string;
+  times: number[];
+  joints: string[];
+  /** positions[k][i]: joint k at sample i */
+  positions: number[][];
+};
+
+type Sample = { time: number; values: JointValues };
+
+// Column names accepted for the timestamp in plain CSV logs
+const TIME_COLUMNS = ["time", "t", "timestamp", "stamp", "%time", "__time", "field.header.stamp"];
+
+// Absolute stamps above this are nanoseconds (rostopic echo -p, ROS 2 bag exports)
+const NANOSECOND_THRESHOLD = 1e15;
+
+export const trajectoryDuration = (traj: Trajectory) =>
+  traj.times.length ? traj.times[traj.times.length - 1] : 0;
+
+/**
+ * Sort samples, merge duplicate stamps (last wins), and fill joints a sample
+ * leaves out with the value they held before (or their first known value).
+ */
+function fromSamples(name: string, samples: Sample[]): Trajectory {
+  const sorted = samples
+    .filter((s) => Number.isFinite(s.time))
+    .sort((a, b) => a.time - b.time)
+    .filter((s, i, all) => i === all.length - 1 || all[i + 1].time !== s.time);
+  if (sorted.length < 2) throw new Error("Trajectory needs at least two samples with distinct times");
+
+  const joints: string[] = [];
+  sorted.forEach((s) =>
+    Object.keys(s.values).forEach((j) => {
+      if (!joints.includes(j)) joints.push(j);
+    })
+  );
+  if (!joints.length) throw new Error("Trajectory has no joint columns");
+
+  const t0 = sorted[0].time;
+  const scale = Math.abs(t0) > NANOSECOND_THRESHOLD ? 1e-9 : 1;
+  const positions = joints.map((j) => {
+    const first = sorted.find((s) => Number.isFinite(s.values[j]))?.values[j] ?? 0;
+    let last = first;
+    return sorted.map((s) => {
+      const v = s.values[j];
+      if (Number.isFinite(v)) last = v;
+      return last;
+    });
+  });
+  return { name, times: sorted.map((s) => (s.time - t0) * scale), joints, positions };
+}
+
+const splitRow = (line: string, delimiter: string) =>
+  line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+
+/**
+ * CSV with a header row. Accepts `time, joint1, joint2, ...`, `rostopic echo -p
+ * /joint_states` output (`%time, field.name0.., field.position0..`) and
+ * PlotJuggler-style `/joint_states/<joint>/position` columns.
+ */
+export function parseTrajectoryCsv(text: string, name = "trajectory"): Trajectory {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() && !l.trimStart().startsWith("#"));
+  if (lines.length < 2) throw new Error("CSV needs a header row and at least one sample");
+  const delimiter = lines[0].includes(",") ? "," : lines[0].includes("\t") ? "\t" : ";";
+  const header = splitRow(lines[0], delimiter);
+  const timeIndex = header.findIndex((h) => TIME_COLUMNS.includes(h.toLowerCase()));
+  if (timeIndex < 0) throw new Error(`CSV has no time column (expected one of: ${TIME_COLUMNS.join(", ")})`);
+
+  // rostopic echo -p: names live in the rows, positions in matching columns
+  const nameColumns = header.flatMap((h, i) => (/^field\.name\d+$/.test(h) ? [i] : []));
+  const positionColumn = (k: number) => header.indexOf(`field.position${k}`);
+
+  // Everything else: one column per joint; PlotJuggler paths keep only position
+  const jointColumns = header.flatMap((h, i) => {
+    if (i === timeIndex || h.startsWith("field.") || h.startsWith("%")) return [];
+    const path = h.match(/^\/.*\/([^/]+)\/(position|velocity|effort)$/);
+    if (path) return path[2] === "position" ? [{ index: i, joint: path[1] }] : [];
+    return h.startsWith("/") ? [] : [{ index: i, joint: h }];
+  });
+
+  const samples = lines.slice(1).map((line, row): Sample => {
+    const cells = splitRow(line, delimiter);
+    const time = parseFloat(cells[timeIndex]);
+    if (!Number.isFinite(time)) throw new Error(`Row ${row + 2}: time "${cells[timeIndex] ?? ""}" is not a number`);
+    const values: JointValues = {};
+    if (nameColumns.length) {
+      nameColumns.forEach((col, k) => {
+        const joint = cells[col];
+        const v = parseFloat(cells[positionColumn(k)]);
+        if (joint && Number.isFinite(v)) values[joint] = v;
+      });
+    } else {
+      jointColumns.forEach(({ index, joint }) => {
+        const v = parseFloat(cells[index]);
+        if (Number.isFinite(v)) values[joint] = v;
+      });
+    }
+    return { time, values };
+  });
+  return fromSamples(name, samples);
+}
+
+const stampSchema = z.union([
+  z.number(),
+  z.object({
+    sec: z.number().optional(),
+    secs: z.number().optional(),
+    nanosec: z.number().optional(),
+    nsecs: z.number().optional(),
+  }),
+]);
+
+// sensor_msgs/JointState as serialized by rosbridge / ROS 2 JSON exports
+const jointStateSchema = z.object({
+  header: z.object({ stamp: stampSchema }).optional(),
+  time: z.number().optional(),
+  name: z.array(z.string()),
+  position: z.array(z.number()),
+});
+
+const rowSchema = z.record(z.string(), z.number());
+
+const trajectoryFileSchema = z.union([
+  z.array(z.union([jointStateSchema, rowSchema])),
+  z.object({ name: z.string().optional(), samples: z.array(z.union([jointStateSchema, rowSchema])) }),
+]);
+
+const stampSeconds = (stamp: z.infer<typeof stampSchema>) =>
+  typeof stamp === "number" ? stamp : (stamp.sec ?? stamp.secs ?? 0) + (stamp.nanosec ?? stamp.nsecs ?? 0) * 1e-9;
+
+/**
+ * JSON: an array (or `{ name, samples }`) of either JointState messages
+ * (`header.stamp` or `time`, `name[]`, `position[]`) or flat rows
+ * `{ time, joint1, joint2, ... }`.
+ */
+export function parseTrajectoryJson(json: string, name = "trajectory"): Trajectory {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Trajectory file is not valid JSON");
+  }
+  const result = trajectoryFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid trajectory at ${issue.path.join(".") || "root"}: ${issue.message}`);
+  }
+  const entries = Array.isArray(result.data) ? result.data : result.data.samples;
+  const samples = entries.map((entry, i): Sample => {
+    if (Array.isArray(entry.name)) {
+      const msg = entry as z.infer<typeof jointStateSchema>;
+      const time = msg.header ? stampSeconds(msg.header.stamp) : msg.time;
+      if (time === undefined) throw new Error(`Sample ${i} has neither header.stamp nor time`);
+      const values: JointValues = {};
+      msg.name.forEach((joint, k) => {
+        if (Number.isFinite(msg.position[k])) values[joint] = msg.position[k];
+      });
+      return { time, values };
+    }
+    const { time, ...values } = entry as z.infer<typeof rowSchema>;
+    if (time === undefined) throw new Error(`Sample ${i} has no time`);
+    return { time, values };
+  });
+  const fileName = Array.isArray(result.data) ? undefined : result.data.name;
+  return fromSamples(fileName ?? name, samples);
+}
+
+/** Parse by extension, falling back to sniffing the content; throws with a readable message. */
+export function parseTrajectory(text: string, fileName: string): Trajectory {
+  const name = fileName.replace(/\.[^.]+$/, "");
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  return isJson ? parseTrajectoryJson(text, name) : parseTrajectoryCsv(text, name);
+}
+
+/** Index of the last sample at or before t. */
+function sampleIndex(times: number[], t: number) {
+  let lo = 0;
+  let hi = times.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (times[mid] <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Joint positions at time t, linearly interpolated between samples. */
+export function sampleTrajectory(traj: Trajectory, t: number): JointValues {
+  const { times } = traj;
+  const i = sampleIndex(times, t);
+  const j = Math.min(i + 1, times.length - 1);
+  const dt = times[j] - times[i];
+  const alpha = dt > 0 ? THREE.MathUtils.clamp((t - times[i]) / dt, 0, 1) : 0;
+  const out: JointValues = {};
+  traj.joints.forEach((joint, k) => {
+    out[joint] = THREE.MathUtils.lerp(traj.positions[k][i], traj.positions[k][j], alpha);
+  });
+  return out;
+}
+
+/** Finite-difference derivative of each track (central inside, one-sided at the ends). */
+export function differentiate(times: number[], tracks: number[][]): number[][] {
+  const n = times.length;
+  return tracks.map((track) =>
+    track.map((_, i) => {
+      const a = Math.max(0, i - 1);
+      const b = Math.min(n - 1, i + 1);
+      const dt = times[b] - times[a];
+      return dt > 0 ? (track[b] - track[a]) / dt : 0;
+    })
+  );
+}
+
+/**
+ * Sample a Clip at a fixed rate so it can be plotted and analysed like a
+ * recording. A clip with every keyframe at t=0 is a single sample, not a
+ * repeated stamp.
+ */
+export function clipTrajectory(clip: Clip, rate = 60): Trajectory {
+  const duration = clipDuration(clip);
+  const count = duration > 0 ? Math.max(2, Math.ceil(duration * rate) + 1) : 1;
+  const times = Array.from({ length: count }, (_, i) => (count > 1 ? (i / (count - 1)) * duration : 0));
+  const poses = times.map((t) => sampleClip(clip, t));
+  const joints = Object.keys(poses[0] ?? {});
+  return { name: clip.name, times, joints, positions: joints.map((j) => poses.map((p) => p[j])) };
+}
+
+export type MotionIssueKind = "limit" | "velocity" | "spike";
+
+/** A stretch of time where one joint misbehaves; `peak` is the worst value reached. */
+export type MotionIssue = { joint: string; kind: MotionIssueKind; start: number; end: number; peak: number };
+
+export type MotionAnalysis = {
+  /** Same layout as Trajectory.positions */
+  velocities: number[][];
+  accelerations: number[][];
+  issues: MotionIssue[];
+};
+
+// Position tolerance before a sample counts as outside its limits
+const LIMIT_EPS = 1e-3;
+// A velocity spike is acceleration this many times the joint's median, and at least the floor
+const SPIKE_FACTOR = 8;
+const SPIKE_MIN_ACCEL = 5;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[sorted.length >> 1] : 0;
+}
+
+/** Merge consecutive flagged samples into time intervals. */
+function flaggedIntervals(times: number[], flags: boolean[], values: number[]) {
+  const out: { start: number; end: number; peak: number }[] = [];
+  let open: { start: number; end: number; peak: number } | null = null;
+  flags.forEach((flag, i) => {
+    if (!flag) {
+      open = null;
+      return;
+    }
+    if (!open) {
+      open = { start: times[i], end: times[i], peak: values[i] };
+      out.push(open);
+    }
+    open.end = times[i];
+    if (Math.abs(values[i]) > Math.abs(open.peak)) open.peak = values[i];
+  });
+  return out;
+}
+
+/**
+ * Derivatives and quality issues for a trajectory: positions outside the
+ * joint limits, speeds above the URDF velocity limit, and velocity spikes
+ * (accelerations far above what the joint does the rest of the time).
+ */
+export function analyzeMotion(traj: Trajectory, joints: UrdfJointInfo[]): MotionAnalysis {
+  const velocities = differentiate(traj.times, traj.positions);
+  const accelerations = differentiate(traj.times, velocities);
+  const infoByName = new Map(joints.map((j) => [j.name, j]));
+  const issues: MotionIssue[] = [];
+
+  traj.joints.forEach((joint, k) => {
+    const info = infoByName.get(joint);
+    const positions = traj.positions[k];
+    const add = (kind: MotionIssueKind, flags: boolean[], values: number[]) =>
+      flaggedIntervals(traj.times, flags, values).forEach((range) => issues.push({ joint, kind, ...range }));
+
+    const limit = info?.limit;
+    if (limit && info.type !== "continuous") {
+      add(
+        "limit",
+        positions.map((v) => v < limit.lower - LIMIT_EPS || v > limit.upper + LIMIT_EPS),
+        positions
+      );
+    }
+    const maxVelocity = info?.maxVelocity;
+    if (maxVelocity) add("velocity", velocities[k].map((v) => Math.abs(v) > maxVelocity), velocities[k]);
+
+    const accel = accelerations[k];
+    const threshold = Math.max(SPIKE_MIN_ACCEL, SPIKE_FACTOR * median(accel.map(Math.abs)));
+    add("spike", accel.map((a) => Math.abs(a) > threshold), accel);
+  });
+
+  issues.sort((a, b) => a.start - b.start);
+  return { velocities, accelerations, issues };
+}
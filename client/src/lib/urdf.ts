@@ -0,0 +1,302 @@
+import * as THREE from "three";
+import { ColladaLoader } from "three/examples/jsm/loaders/ColladaLoader.js";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import URDFLoader, { type URDFJoint, type URDFJointType, type URDFRobot } from "urdf-loader";
+import { LoadTracker, type LoadProgress } from "@/lib/loadProgress";
+
+export type JointValues = Record<string, number>;
+export type UrdfPackages = Record<string, string>;
+/** URDFs are usually Z-up; three.js scenes are Y-up */
+export type UpAxis = "y" | "z";
+/** Robot description format; MJCF models are built to the same joint API */
+export type RobotFormat = "urdf" | "mjcf";
+
+/** Movable joint as exposed to the UI: name, type, limits and axis. */
+export type UrdfJointInfo = {
+  name: string;
+  type: URDFJointType;
+  /** null for continuous joints (and revolute joints without a usable limit) */
+  limit: { lower: number; upper: number } | null;
+  /** URDF <limit velocity>, in rad/s or m/s; null when absent (and for MJCF) */
+  maxVelocity: number | null;
+  axis: THREE.Vector3;
+};
+
+const baseUrl = (() => {
+  const b = (import.meta as any).env?.BASE_URL || "/";
+  return b.endsWith("/") ? b : `${b}/`;
+})();
+
+/** Resolve a path under client/public against the deploy base (GitHub Pages sub-path). */
+export const resolvePublic = (p: string) => `${baseUrl}${p.replace(/^\/+/, "")}`;
+
+// One parsed template per URDF + package map; every consumer gets its own clone.
+const templateCache = new Map<string, Promise<URDFRobot>>();
+const templateProgress = new Map<string, LoadTracker>();
+
+export type UrdfLoadOptions = {
+  /** Also load <collision> geometry; colliders start hidden (see setGeometryDisplay) */
+  collision?: boolean;
+};
+
+const cacheKey = (url: string, packages: UrdfPackages, { collision = false }: UrdfLoadOptions) =>
+  `${url}|${JSON.stringify(packages)}|${collision ? "collision" : "visual"}`;
+
+/** Smooth, shadow-casting standard shading for freshly loaded meshes. */
+export function smoothMaterials(robot: THREE.Object3D) {
+  robot.traverse((node: any) => {
+    if (node.isMesh) {
+      const g = node.geometry as THREE.BufferGeometry | undefined;
+      if (g && !g.attributes.normal) g.computeVertexNormals();
+      const m = (node.material ||= new THREE.MeshStandardMaterial());
+      if ("flatShading" in m) m.flatShading = false;
+      if ("roughness" in m) m.roughness = 0.45;
+      if ("metalness" in m) m.metalness = 0.05;
+      m.needsUpdate = true;
+      node.castShadow = true;
+      node.receiveShadow = true;
+    }
+  });
+}
+
+/** Collision geometry draws as a translucent, shadowless overlay and starts hidden. */
+function styleColliders(robot: URDFRobot) {
+  robot.traverse((node: any) => {
+    if (!node.isURDFCollider) return;
+    node.visible = false;
+    node.traverse((child: any) => {
+      if (!child.isMesh) return;
+      child.material = new THREE.MeshStandardMaterial({
+        color: 0x38bdf8,
+        transparent: true,
+        opacity: 0.45,
+        depthWrite: false,
+      });
+      child.castShadow = false;
+      child.receiveShadow = false;
+    });
+  });
+}
+
+/**
+ * urdf-loader's default mesh loading, with byte progress reported to
+ * `tracker`. Failures reach the tracker through the manager.
+ */
+function trackedMeshLoader(tracker: LoadTracker) {
+  return (path: string, manager: THREE.LoadingManager, done: (mesh: THREE.Object3D) => void) => {
+    if (/\.stl$/i.test(path)) {
+      new STLLoader(manager).load(
+        path,
+        (geometry) => done(new THREE.Mesh(geometry, new THREE.MeshPhongMaterial())),
+        tracker.bytesFor(path)
+      );
+    } else if (/\.dae$/i.test(path)) {
+      new ColladaLoader(manager).load(path, (dae) => done(dae.scene), tracker.bytesFor(path));
+    } else {
+      console.warn(`No loader for mesh ${path}`);
+    }
+  };
+}
+
+/**
+ * Load (once) and cache a URDF template. The template itself is never added to
+ * a scene; call cloneUrdfRobot to get an instance. `onProgress` follows the
+ * shared load, including one already under way, until it settles.
+ */
+export function loadUrdfTemplate(
+  url: string,
+  packages: UrdfPackages,
+  options: UrdfLoadOptions = {},
+  onProgress?: (progress: LoadProgress) => void
+): Promise<URDFRobot> {
+  const key = cacheKey(url, packages, options);
+  const cached = templateCache.get(key);
+  if (cached) {
+    if (onProgress) templateProgress.get(key)?.subscribe(onProgress);
+    return cached;
+  }
+
+  const manager = new THREE.LoadingManager();
+  const tracker = new LoadTracker(manager);
+  if (onProgress) tracker.subscribe(onProgress);
+  templateProgress.set(key, tracker);
+  const pending = new Promise<URDFRobot>((resolve, reject) => {
+    const loader = new URDFLoader(manager);
+    loader.packages = packages;
+    loader.parseCollision = !!options.collision;
+    loader.fetchOptions = { credentials: "same-origin", mode: "cors" };
+    loader.loadMeshCb = trackedMeshLoader(tracker);
+    // Meshes stream in after the URDF itself is parsed, so only hand the
+    // template out once the manager has seen every item finish; cloning
+    // earlier would produce instances with missing links.
+    let parsed: URDFRobot | null = null;
+    // Failed meshes still count as finished, so the robot resolves with them missing
+    manager.onLoad = () => {
+      if (!parsed) return;
+      smoothMaterials(parsed);
+      styleColliders(parsed);
+      tracker.finish();
+      resolve(parsed);
+    };
+    loader.load(
+      url,
+      (robot) => {
+        parsed = robot;
+      },
+      undefined,
+      (err) => {
+        // urdf-loader reports the URDF to the manager only after this callback
+        manager.itemError(url);
+        tracker.finish();
+        reject(err instanceof Error ? err : new Error(`Failed to load URDF: ${url}`));
+      }
+    );
+  });
+  // Failed loads are not cached so a later mount can retry.
+  pending.catch(() => {
+    templateCache.delete(key);
+    templateProgress.delete(key);
+  });
+  templateCache.set(key, pending);
+  return pending;
+}
+
+/**
+ * Forget a cached template so the next load fetches it again. Its geometry is
+ * shared with live clones, so nothing is disposed here.
+ */
+export function evictUrdfTemplate(url: string, packages: UrdfPackages, options: UrdfLoadOptions = {}) {
+  const key = cacheKey(url, packages, options);
+  templateCache.delete(key);
+  templateProgress.delete(key);
+}
+
+/**
+ * Deep-clone a template. Geometry is shared with the template; materials are
+ * cloned so per-instance tinting does not leak into other viewers.
+ */
+export function cloneUrdfRobot(template: URDFRobot): URDFRobot {
+  const robot = template.clone(true) as URDFRobot;
+  robot.traverse((node: any) => {
+    if (!node.isMesh) return;
+    node.material = Array.isArray(node.material)
+      ? node.material.map((m: THREE.Material) => m.clone())
+      : node.material?.clone();
+  });
+  return robot;
+}
+
+/** Dispose the per-instance resources created by cloneUrdfRobot. */
+export function disposeUrdfRobot(robot: THREE.Object3D) {
+  robot.removeFromParent();
+  robot.traverse((node: any) => {
+    if (!node.isMesh) return;
+    const mats: THREE.Material[] = Array.isArray(node.material) ? node.material : [node.material];
+    mats.forEach((m) => m?.dispose());
+  });
+}
+
+export const jointTypeOf = (joint: URDFJoint): URDFJointType =>
+  (joint.jointType || joint.type || "fixed").toLowerCase();
+
+/** Current scalar value of a joint; urdf-loader stores it as a one-element array. */
+export function getJointValue(joint: URDFJoint): number {
+  const v = joint.jointValue;
+  if (Array.isArray(v)) return v[0] ?? 0;
+  return typeof v === "number" ? v : 0;
+}
+
+/** Type, limits and axis of one joint. */
+export function jointInfo(joint: URDFJoint, name = joint.name): UrdfJointInfo {
+  const type = jointTypeOf(joint);
+  const lower = joint.limit?.lower;
+  const upper = joint.limit?.upper;
+  const hasLimit =
+    type !== "continuous" &&
+    typeof lower === "number" &&
+    typeof upper === "number" &&
+    upper > lower;
+  // urdf-loader keeps only position limits; velocity comes from the source element
+  const velocity = parseFloat(joint.urdfNode?.querySelector("limit")?.getAttribute("velocity") ?? "");
+  return {
+    name,
+    type,
+    limit: hasLimit ? { lower: lower!, upper: upper! } : null,
+    maxVelocity: velocity > 0 ? velocity : null,
+    axis: (joint.axis ?? new THREE.Vector3(1, 0, 0)).clone(),
+  };
+}
+
+/** Enumerate non-fixed joints in URDF order with their type and limits. */
+export function listJoints(robot: URDFRobot): UrdfJointInfo[] {
+  return Object.entries(robot.joints ?? {})
+    .filter(([, j]) => jointTypeOf(j) !== "fixed")
+    .map(([name, j]) => jointInfo(j, name));
+}
+
+export type AngleUnit = "rad" | "deg";
+
+/** Slider range for a joint; continuous and unlimited joints get one full turn. */
+export function jointRange(info: UrdfJointInfo): { lower: number; upper: number } {
+  return info.limit ?? { lower: -Math.PI, upper: Math.PI };
+}
+
+/** Clamp to the URDF limits; continuous joints wrap into [-pi, pi] instead. */
+export function clampJointValue(info: UrdfJointInfo, value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  if (info.type === "continuous") {
+    return THREE.MathUtils.euclideanModulo(value + Math.PI, 2 * Math.PI) - Math.PI;
+  }
+  const { lower, upper } = jointRange(info);
+  return THREE.MathUtils.clamp(value, lower, upper);
+}
+
+/** Display unit for a joint: prismatic joints are metres, everything else an angle. */
+export const jointUnit = (info: UrdfJointInfo, angleUnit: AngleUnit) =>
+  info.type === "prismatic" ? "m" : angleUnit;
+
+/** SI joint value -> display value in the given unit. */
+export function toDisplayUnit(info: UrdfJointInfo, value: number, angleUnit: AngleUnit) {
+  return jointUnit(info, angleUnit) === "deg" ? THREE.MathUtils.radToDeg(value) : value;
+}
+
+/** Display value -> SI joint value. */
+export function fromDisplayUnit(info: UrdfJointInfo, value: number, angleUnit: AngleUnit) {
+  return jointUnit(info, angleUnit) === "deg" ? THREE.MathUtils.degToRad(value) : value;
+}
+
+/** Apply a (partial) pose; unknown joint names are ignored. */
+export function applyJointValues(robot: URDFRobot, values: JointValues) {
+  Object.entries(values).forEach(([name, value]) => {
+    const j = robot.joints?.[name];
+    if (j && typeof j.setJointValue === "function") j.setJointValue(value);
+  });
+  robot.updateMatrixWorld(true);
+}
+
+/** Read every movable joint's current value. */
+export function readJointValues(robot: URDFRobot): JointValues {
+  const out: JointValues = {};
+  Object.entries(robot.joints ?? {}).forEach(([name, j]) => {
+    if (jointTypeOf(j) !== "fixed") out[name] = getJointValue(j);
+  });
+  return out;
+}
+
+const zUpToYUp = new THREE.Matrix4().makeRotationX(-Math.PI / 2);
+const yUpToZUp = zUpToYUp.clone().invert();
+const _placed = new THREE.Matrix4();
+
+/**
+ * Place an object (usually a group around the robot) at a pose given in ROS
+ * axes, e.g. base_link in odom or map. For Z-up robots the pose is rotated
+ * into the scene's Y-up frame to match UrdfRobot's own correction; null
+ * resets to the origin.
+ */
+export function placeInRosFrame(object: THREE.Object3D, pose: THREE.Matrix4 | null, upAxis: UpAxis) {
+  if (!pose) _placed.identity();
+  else if (upAxis === "z") _placed.copy(zUpToYUp).multiply(pose).multiply(yUpToZUp);
+  else _placed.copy(pose);
+  _placed.decompose(object.position, object.quaternion, object.scale);
+  object.updateMatrixWorld(true);
+}
@@ -1,155 +1,142 @@
-import { useEffect, useRef, useState } from "react";
-import * as THREE from "three";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSearch } from "wouter";
+import { toast } from "sonner";
+import { Canvas } from "@react-three/fiber";
 import { OrbitControls, Environment, ContactShadows } from "@react-three/drei";
-import URDFLoader from "urdf-loader";
+import UrdfRobot from "@/components/UrdfRobot";
+import type { URDFRobot } from "urdf-loader";
+import type * as THREE from "three";
+import CameraBookmarkBar from "@/components/CameraBookmarkBar";
+import CameraRig from "@/components/CameraRig";
+import ClipTimelineEditor from "@/components/ClipTimelineEditor";
+import ForwardKinematicsPanel from "@/components/ForwardKinematicsPanel";
+import IkDragHandle from "@/components/IkDragHandle";
+import JointSliderPanel from "@/components/JointSliderPanel";
+import LinkFrameGizmos from "@/components/LinkFrameGizmos";
+import LiveMirrorPanel from "@/components/LiveMirrorPanel";
+import LoadProgressCard from "@/components/LoadProgressCard";
+import MapNavigationPanel from "@/components/MapNavigationPanel";
+import OccupancyMapLayer, { type MapLayerSettings } from "@/components/OccupancyMapLayer";
+import PoseLibraryPanel from "@/components/PoseLibraryPanel";
+import SceneExportPanel, { SceneExportBridge } from "@/components/SceneExportPanel";
+import SensorOverlay, { type SensorOverlaySettings } from "@/components/SensorOverlay";
+import SensorOverlayPanel from "@/components/SensorOverlayPanel";
+import TrajectoryPanel from "@/components/TrajectoryPanel";
+import type { CameraController } from "@/lib/cameraController";
+import { introPoseClip, type Clip } from "@/lib/clips";
+import {
+  buildCollisionModel,
+  checkSelfCollision,
+  highlightLinks,
+  setGeometryDisplay,
+  type CollisionModel,
+  type CollisionResult,
+  type GeometryDisplay,
+} from "@/lib/collision";
+import { linkNames, type IkResult } from "@/lib/kinematics";
+import { EMPTY_PROGRESS, type LoadProgress } from "@/lib/loadProgress";
+import { decodePose } from "@/lib/poses";
+import {
+  getRobot,
+  groupJoints,
+  interactiveJointNames,
+  poseJointOrder,
+  resolveRobotAssets,
+  robotBookmarks,
+} from "@/lib/robots";
+import type { SceneHandle } from "@/lib/sceneExport";
+import {
+  applyJointValues,
+  clampJointValue,
+  placeInRosFrame,
+  type JointValues,
+  type UrdfJointInfo,
+} from "@/lib/urdf";
 
-const baseUrl = (() => {
-  const b = (import.meta as any).env?.BASE_URL || "/";
-  return b.endsWith("/") ? b : `${b}/`;
-})();
-const resolvePublic = (p: string) => `${baseUrl}${p.replace(/^\/+/, "")}`;
+const fetchRobot = getRobot("fetch")!;
+const bookmarks = robotBookmarks(fetchRobot);
 
-type JointValues = Record<string, number>;
+export default function FetchDemo() {
+  const { url: urdfUrl, packages } = useMemo(() => resolveRobotAssets(fetchRobot), []);
+  const basePose = fetchRobot.defaultPose;
 
-function FetchRobot({
-  urdfUrl,
-  assetsBase,
-  basePose,
-  jointValues,
-  onStatus,
-  onJointsDetected,
-}: {
-  urdfUrl: string;
-  assetsBase: string;
-  basePose?: JointValues;
-  jointValues?: JointValues;
-  onStatus?: (loading: boolean, error: string | null) => void;
-  onJointsDetected?: (names: string[]) => void;
-}) {
-  const { scene, camera } = useThree();
-  const robotRef = useRef<THREE.Object3D | null>(null);
-  const jointMapRef = useRef<Record<string, any>>({});
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [assetLoad, setAssetLoad] = useState<{ progress: LoadProgress; retry?: () => void }>({ progress: EMPTY_PROGRESS });
+  const [robot, setRobot] = useState<URDFRobot | null>(null);
+  const [joints, setJoints] = useState<UrdfJointInfo[]>([]);
+  const [fkLinks, setFkLinks] = useState<string[]>(["gripper_link"]);
+  const [showFrames, setShowFrames] = useState(true);
+  const [ikEnabled, setIkEnabled] = useState(true);
+  const [ikResult, setIkResult] = useState<IkResult | null>(null);
+  const [jointValues, setJointValues] = useState<JointValues>({});
+  const [geometryDisplay, setGeometryDisplayMode] = useState<GeometryDisplay>("visual");
+  const [collisionCheck, setCollisionCheck] = useState(true);
+  const [collisionModel, setCollisionModel] = useState<CollisionModel | null>(null);
+  const [collisions, setCollisions] = useState<CollisionResult | null>(null);
+  const [sensorOverlay, setSensorOverlay] = useState<SensorOverlaySettings | null>(null);
+  const [mapLayer, setMapLayer] = useState<MapLayerSettings>({ grid: null, path: null, walls: true });
+  // Moved by /tf while mirroring a live robot or by path playback; identity otherwise
+  const baseRef = useRef<THREE.Group>(null);
+  const sceneRef = useRef<SceneHandle | null>(null);
+  const cameraRef = useRef<CameraController | null>(null);
+  const [editedClip, setEditedClip] = useState<Clip>(introPoseClip);
 
-  useEffect(() => {
-    const manager = new THREE.LoadingManager();
-    const loader = new URDFLoader(manager);
-    (loader as any).packages = { fetch: assetsBase, fetch_description: assetsBase };
-    loader.workingPath = assetsBase;
-    loader.fetchOptions = { credentials: "same-origin", mode: "cors" };
-
-    manager.onStart = () => onStatus?.(true, null);
-    manager.onError = (url) => {
-      console.error("URDF asset error", url);
-      onStatus?.(false, `Could not load asset: ${url}`);
-    };
-
-    loader.load(
-      urdfUrl,
-      (robot: any) => {
-        if (robotRef.current) {
-          scene.remove(robotRef.current);
-        }
-        robotRef.current = robot;
-        jointMapRef.current = robot.joints ?? {};
-        robot.rotation.set(-Math.PI / 2, 0, 0);
-        scene.add(robot);
-        robot.updateMatrixWorld(true);
-
-        // smooth shading
-        robot.traverse((node: any) => {
-          if (node.isMesh) {
-            const g = node.geometry as THREE.BufferGeometry | undefined;
-            if (g && !g.attributes.normal) g.computeVertexNormals();
-            const m = (node.material ||= new THREE.MeshStandardMaterial());
-            if ("flatShading" in m) m.flatShading = false;
-            if ("roughness" in m) m.roughness = 0.45;
-            if ("metalness" in m) m.metalness = 0.05;
-            node.castShadow = true;
-            node.receiveShadow = true;
-            m.needsUpdate = true;
-          }
-        });
-
-        // apply base pose
-        if (basePose) {
-          Object.entries(basePose).forEach(([name, val]) => {
-            const j = jointMapRef.current[name];
-            if (j && typeof j.setJointValue === "function") j.setJointValue(val);
-          });
-          robot.updateMatrixWorld(true);
-        }
+  const jointNames = interactiveJointNames(
+    fetchRobot,
+    joints.map((j) => j.name)
+  );
+  const jointGroups = groupJoints(fetchRobot.jointGroups, jointNames);
+  const poseOrder = poseJointOrder(fetchRobot, jointNames);
 
-        const joints = Object.entries(robot.joints ?? {})
-          .filter(([, j]: any) => (j.jointType || "").toLowerCase() !== "fixed")
-          .map(([name]) => name);
-        onJointsDetected?.(joints);
+  // /fetch?pose=... opens in a shared configuration once the joints are known
+  const search = useSearch();
+  const poseParam = new URLSearchParams(search).get("pose");
+  useEffect(() => {
+    if (!poseParam || joints.length === 0) return;
+    const shared = decodePose(poseParam, poseOrder);
+    if (!shared) {
+      toast.error("This pose link is malformed or from a newer version");
+      return;
+    }
+    applyPose(shared);
+    // poseOrder only changes when joints do
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [poseParam, joints]);
 
-        // simple fit
-        const box = new THREE.Box3().setFromObject(robot);
-        const center = box.getCenter(new THREE.Vector3()).add(new THREE.Vector3(0, 1, 0));
-        const size = box.getSize(new THREE.Vector3()).length();
-        const dist = Math.max(2.5, size * 0.8);
-        camera.position.set(center.x + dist * 0.4, center.y + dist * 0.3, center.z + dist * 0.9);
-        camera.lookAt(center);
-        (camera as THREE.PerspectiveCamera).updateProjectionMatrix();
+  useEffect(() => {
+    setCollisionModel(robot ? buildCollisionModel(robot) : null);
+  }, [robot]);
 
-        setLoading(false);
-        onStatus?.(false, null);
-      },
-      undefined,
-      (err) => {
-        console.error("Failed to load URDF", err);
-        onStatus?.(false, "Failed to load URDF. Check asset paths.");
-        setLoading(false);
-      }
-    );
+  useEffect(() => {
+    if (robot) setGeometryDisplay(robot, geometryDisplay);
+  }, [robot, geometryDisplay]);
 
-    return () => {
-      if (robotRef.current) scene.remove(robotRef.current);
-    };
-  // Only reload when asset path changes
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [urdfUrl, assetsBase]);
+  // The R3F scene applies jointValues in its own pass, which may not have run
+  // yet; apply them here so the check sees the pose being shown
+  useEffect(() => {
+    if (!robot || !collisionModel) return;
+    if (collisionCheck) applyJointValues(robot, jointValues);
+    const result = collisionCheck ? checkSelfCollision(collisionModel) : null;
+    highlightLinks(robot, result?.links ?? new Set());
+    setCollisions(result);
+  }, [robot, collisionModel, collisionCheck, jointValues]);
 
-  useFrame(() => {
-    if (!robotRef.current) return;
-    if (jointValues) {
-      Object.entries(jointValues).forEach(([name, value]) => {
-        const j = jointMapRef.current[name];
-        if (j && typeof j.setJointValue === "function") {
-          j.setJointValue(value);
-        }
+  /** Apply a partial pose, clamped to the URDF limits. */
+  const applyPose = (values: JointValues) => {
+    setJointValues((prev) => {
+      const next = { ...prev };
+      joints.forEach((j) => {
+        if (typeof values[j.name] === "number") next[j.name] = clampJointValue(j, values[j.name]);
       });
-    }
-    robotRef.current.updateMatrixWorld(true);
-  });
-
-  return null;
-}
-
-export default function FetchDemo() {
-  const assetsBase = resolvePublic("assets/fetch/");
-  const urdfUrl = resolvePublic("assets/fetch/fetch.urdf");
-  const basePose: JointValues = {
-    shoulder_pan_joint: 1.2,
-    shoulder_lift_joint: -0.3,
-    elbow_flex_joint: -0.2,
-    forearm_roll_joint: 0,
-    wrist_flex_joint: 0,
-    wrist_roll_joint: 0,
+      return next;
+    });
   };
 
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [jointNames, setJointNames] = useState<string[]>([]);
-  const [jointValues, setJointValues] = useState<JointValues>({});
-
   const resetJoints = () => {
     setJointValues(() => {
       const next: JointValues = {};
-      jointNames.forEach((n) => (next[n] = 0));
+      joints.forEach((j) => (next[j.name] = clampJointValue(j, 0)));
       return next;
     });
   };
@@ -161,21 +148,19 @@ export default function FetchDemo() {
           <p className="text-sm uppercase tracking-wide text-muted-foreground">Static GitHub Pages</p>
           <h1 className="text-3xl font-bold">Fetch Robot — Joint Tweaks</h1>
           <p className="text-muted-foreground max-w-3xl">
-            Move sliders to set joint angles in real time. No extra animations or auto camera moves.
+            Move sliders or type exact values to set joints in real time; ranges follow the URDF limits. No extra animations or auto camera moves.
           </p>
         </div>
 
         <div className="relative w-full h-[540px]">
-          {loading && (
+          {(loading || error) && (
             <div className="absolute inset-0 bg-black/25 flex items-center justify-center z-10">
-              <div className="bg-white px-4 py-2 rounded shadow text-sm">Loading Fetch URDF…</div>
+              <LoadProgressCard label="Loading Fetch URDF…" progress={assetLoad.progress} error={error} onRetry={assetLoad.retry} />
             </div>
           )}
-          {error && (
-            <div className="absolute inset-0 bg-black/25 flex items-center justify-center z-10">
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4 max-w-sm text-sm text-red-700">
-                {error}
-              </div>
+          {!loading && !error && assetLoad.progress.failed.length > 0 && (
+            <div className="absolute top-3 left-3 z-10">
+              <LoadProgressCard label="Loading Fetch URDF…" progress={assetLoad.progress} onRetry={assetLoad.retry} />
             </div>
           )}
           <Canvas shadows camera={{ position: [2.6, 1.4, 2.6], fov: 45, near: 0.01, far: 100 }}>
@@ -184,58 +169,126 @@ export default function FetchDemo() {
             <directionalLight position={[6, 10, 6]} intensity={1.1} color={0xffffff} castShadow shadow-mapSize={[2048, 2048] as any} />
             <directionalLight position={[-5, 5, -5]} intensity={0.5} color={0xffffff} />
             <spotLight position={[0, 8, 4]} angle={0.7} penumbra={0.5} intensity={0.6} distance={40} color={0xffffff} />
-            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.02, 0]} receiveShadow>
-              <circleGeometry args={[4.5, 64]} />
-              <meshStandardMaterial color="#e1e4ea" roughness={0.9} metalness={0.0} />
-            </mesh>
+            {!mapLayer.grid && (
+              <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.02, 0]} receiveShadow>
+                <circleGeometry args={[4.5, 64]} />
+                <meshStandardMaterial color="#e1e4ea" roughness={0.9} metalness={0.0} />
+              </mesh>
+            )}
+            <OccupancyMapLayer settings={mapLayer} upAxis={fetchRobot.upAxis} />
             <ContactShadows position={[0, -0.015, 0]} opacity={0.4} width={10} height={10} blur={2.5} far={10} />
             <Environment preset="studio" background={false} blur={0.3} />
-            <FetchRobot
-              urdfUrl={urdfUrl}
-              assetsBase={assetsBase}
-              basePose={basePose}
-              jointValues={jointValues}
-              onStatus={(loadingState, err) => {
-                setLoading(loadingState);
-                setError(err);
-              }}
-              onJointsDetected={(names) => {
-                setJointNames(names);
-                setJointValues((prev) => {
-                  const next: JointValues = { ...prev };
-                  names.forEach((n) => {
-                    if (typeof next[n] !== "number") next[n] = 0;
+            <group ref={baseRef}>
+              <UrdfRobot
+                url={urdfUrl}
+                packages={packages}
+                upAxis={fetchRobot.upAxis}
+                pose={jointValues}
+                collision
+                fitCamera
+                onStatus={(loadingState, err) => {
+                  setLoading(loadingState);
+                  setError(err);
+                }}
+                onProgress={(progress, retry) => setAssetLoad({ progress, retry })}
+                onLoad={(loaded, detected) => {
+                  setRobot(loaded);
+                  setJoints(detected);
+                  setJointValues((prev) => {
+                    const next: JointValues = { ...prev };
+                    detected.forEach((j) => {
+                      if (typeof next[j.name] !== "number") next[j.name] = clampJointValue(j, basePose[j.name] ?? 0);
+                    });
+                    return next;
                   });
-                  return next;
-                });
-              }}
-            />
-            <OrbitControls enableDamping dampingFactor={0.1} maxPolarAngle={Math.PI * 0.48} enablePan />
+                }}
+              />
+            </group>
+            <SensorOverlay robot={robot} overlay={sensorOverlay} />
+            {showFrames && <LinkFrameGizmos robot={robot} links={fkLinks} />}
+            {ikEnabled && fetchRobot.ikChain && (
+              <IkDragHandle
+                robot={robot}
+                chain={fetchRobot.ikChain}
+                onSolve={(result) => {
+                  setIkResult(result);
+                  setJointValues((prev) => ({ ...prev, ...result.values }));
+                }}
+              />
+            )}
+            <OrbitControls makeDefault enableDamping dampingFactor={0.1} maxPolarAngle={Math.PI * 0.48} enablePan />
+            <SceneExportBridge handleRef={sceneRef} />
+            <CameraRig controllerRef={cameraRef} subject={robot} />
           </Canvas>
         </div>
 
+        <CameraBookmarkBar controllerRef={cameraRef} bookmarks={bookmarks} links={robot ? linkNames(robot) : undefined} />
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={ikEnabled} onChange={(e) => setIkEnabled(e.target.checked)} />
+            Drag end effector (IK)
+          </label>
+          {ikEnabled && ikResult && (
+            <span className={ikResult.status === "converged" ? "text-muted-foreground" : "text-red-700"}>
+              {ikResult.status === "converged"
+                ? `Solved in ${ikResult.iterations} iterations`
+                : ikResult.status === "outOfReach"
+                  ? `Target out of reach — closest reach is ${(ikResult.error * 1000).toFixed(0)} mm away`
+                  : `No solution after ${ikResult.iterations} iterations — ${(ikResult.error * 1000).toFixed(0)} mm short`}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            Show
+            <select
+              value={geometryDisplay}
+              onChange={(e) => setGeometryDisplayMode(e.target.value as GeometryDisplay)}
+              className="px-2 py-1 rounded border border-border bg-white"
+            >
+              <option value="visual">Visual meshes</option>
+              <option value="collision">Collision meshes</option>
+              <option value="both">Both</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={collisionCheck} onChange={(e) => setCollisionCheck(e.target.checked)} />
+            Self-collision check
+          </label>
+          {collisionCheck && collisions && (
+            <span className={collisions.pairs.length ? "text-red-700" : "text-muted-foreground"}>
+              {collisions.pairs.length
+                ? `Colliding: ${collisions.pairs.map(([a, b]) => `${a} ↔ ${b}`).join(", ")}`
+                : "No self-collision"}
+            </span>
+          )}
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Live Robot Mirror</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Subscribe to a rosbridge WebSocket and follow a real Fetch's joint states and base pose.
+          </p>
+          <LiveMirrorPanel
+            baseFrame={robot?.name || "base_link"}
+            onJointState={(values) => setJointValues((prev) => ({ ...prev, ...values }))}
+            onBasePose={(pose) => {
+              if (baseRef.current) placeInRosFrame(baseRef.current, pose, fetchRobot.upAxis);
+            }}
+          />
+        </div>
+
         <div className="border border-border rounded-lg p-4 bg-card/50">
           <h2 className="text-lg font-semibold mb-2">Live Joint Tweaks</h2>
           {jointNames.length === 0 && <p className="text-sm text-muted-foreground">Loading joints…</p>}
-          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {jointNames.map((name) => (
-              <div key={name} className="space-y-1">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="font-medium">{name}</span>
-                  <span className="text-muted-foreground">{(jointValues[name] ?? 0).toFixed(2)} rad</span>
-                </div>
-                <input
-                  type="range"
-                  min={-3.2}
-                  max={3.2}
-                  step={0.01}
-                  value={jointValues[name] ?? 0}
-                  onChange={(e) => setJointValues((prev) => ({ ...prev, [name]: parseFloat(e.target.value) }))}
-                  className="w-full"
-                />
-              </div>
-            ))}
-          </div>
+          <JointSliderPanel
+            joints={joints}
+            groups={jointGroups}
+            values={jointValues}
+            onChange={(name, value) => setJointValues((prev) => ({ ...prev, [name]: value }))}
+          />
           {jointNames.length > 0 && (
             <div className="mt-3 flex gap-2">
               <button
@@ -248,6 +301,97 @@ export default function FetchDemo() {
           )}
         </div>
 
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Pose Library</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Saved in this browser. Links open <code>/fetch</code> in exactly the pose they were copied from.
+          </p>
+          <PoseLibraryPanel
+            robotId={fetchRobot.id}
+            jointOrder={poseOrder}
+            currentPose={jointValues}
+            onApply={applyPose}
+          />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Sensor Overlay</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Point clouds and laser scans drawn in the link frame they were captured in, so they follow the head and base.
+          </p>
+          <SensorOverlayPanel
+            samples={fetchRobot.sensorSamples ?? []}
+            frames={Object.keys(robot?.links ?? {})}
+            value={sensorOverlay}
+            onChange={setSensorOverlay}
+          />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Map &amp; Navigation</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            A SLAM occupancy grid under the robot and a planned path it can drive, in the map frame.
+          </p>
+          <MapNavigationPanel
+            samples={fetchRobot.mapSamples ?? []}
+            value={mapLayer}
+            onChange={setMapLayer}
+            onBasePose={(pose) => {
+              if (baseRef.current) placeInRosFrame(baseRef.current, pose, fetchRobot.upAxis);
+            }}
+          />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Forward Kinematics</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Link poses in the robot base frame, computed from the URDF joint tree.
+          </p>
+          <ForwardKinematicsPanel
+            robot={robot}
+            selected={fkLinks}
+            onSelectedChange={setFkLinks}
+            showFrames={showFrames}
+            onShowFramesChange={setShowFrames}
+          />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Clip Editor</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Author hero animations as keyframes; exported JSON uses the same clip format FetchHeroViewer plays.
+          </p>
+          <ClipTimelineEditor
+            initialClip={introPoseClip}
+            joints={joints}
+            currentPose={jointValues}
+            onPose={(values) => setJointValues((prev) => ({ ...prev, ...values }))}
+            onClipChange={setEditedClip}
+          />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Export</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Save the current view as a high-resolution still, or record a turntable or the clip above as WebM.
+          </p>
+          <SceneExportPanel
+            handleRef={sceneRef}
+            fileName="fetch"
+            robot={robot}
+            pose={jointValues}
+            clip={editedClip}
+          />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Recorded Trajectory</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Replay a joint-state log from a real run; files stay in the browser.
+          </p>
+          <TrajectoryPanel joints={joints} onPose={(values) => setJointValues((prev) => ({ ...prev, ...values }))} />
+        </div>
+
         <p className="text-sm text-muted-foreground">
           Assets served from <code className="px-1 py-0.5 rounded bg-card border border-border">/assets/fetch/</code>. No backend required.
         </p>
@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useRef } from "react";
-import { motion } from "framer-motion";
+import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import FetchHeroViewer from "@/components/FetchHeroViewer";
+import FetchHeroViewer, { type HeroIntroControls } from "@/components/FetchHeroViewer";
+import LoadProgressCard from "@/components/LoadProgressCard";
+import { useIntroTimeline } from "@/hooks/useIntroTimeline";
+import { heroIntro, introEndState, revealTime, type HeroLayout, type IntroCue } from "@/lib/heroIntro";
+import { EMPTY_PROGRESS, type LoadProgress } from "@/lib/loadProgress";
 
 interface MediaItem {
   type: "image" | "video" | "gif";
@@ -165,45 +169,60 @@ function MediaCarousel({ media }: { media: MediaItem[] }) {
 }
 
 export default function Home() { 
-  const [firstVisit, setFirstVisit] = useState(() => !sessionStorage.getItem("heroSeen")); 
-  const [compact, setCompact] = useState(() => (!firstVisit ? true : false)); 
-  const [showLoader, setShowLoader] = useState(() => firstVisit); 
-  const [contentVisible, setContentVisible] = useState(() => !firstVisit); 
-  const startWaveRef = useRef<(() => void) | null>(null); 
-  const SHRINK_DELAY_MS = 3000; // extra time to keep viewport full-screen after intro
+  const reducedMotion = useReducedMotion();
+  // First visit plays the intro; returning visitors and reduced motion go straight to the compact layout
+  const [playIntro] = useState(() => !sessionStorage.getItem("heroSeen") && !reducedMotion);
+  const [layout, setLayout] = useState<HeroLayout>(() => (playIntro ? "loading" : "compact"));
+  const introRef = useRef<HeroIntroControls | null>(null);
+  const [assetLoad, setAssetLoad] = useState<{ progress: LoadProgress; error: string | null; retry?: () => void }>({
+    progress: EMPTY_PROGRESS,
+    error: null,
+  });
+  // Outlives the loading screen: the robot reveals with failed meshes missing, and
+  // returning visits skip the loading screen altogether
+  const showLoadStatus = !assetLoad.progress.done || !!assetLoad.error || assetLoad.progress.failed.length > 0;
+  const compact = layout === "compact";
+  const contentVisible = compact;
 
-  // First visit: loader -> full screen -> wave -> shrink -> show content 
-  const handleLoaded = () => { 
-    if (!firstVisit) { 
-      setShowLoader(false); 
-      setCompact(true);
-      setContentVisible(true);
-      return;
-    }
-    setTimeout(() => {
-      setShowLoader(false);
-      // start wave once ready
-      startWaveRef.current?.();
-    }, 5000);
+  const handleCue = (cue: IntroCue) => {
+    if (cue.type === "layout") setLayout(cue.layout);
+    else if (cue.type === "camera") introRef.current?.moveCamera(cue);
+    else if (cue.type === "clip") introRef.current?.playClip(cue.clip);
   };
+  const intro = useIntroTimeline(heroIntro, handleCue);
 
-  const handleStartReady = (fn: () => void) => {
-    startWaveRef.current = fn; 
-  }; 
+  const settle = () => {
+    intro.stop();
+    const end = introEndState(heroIntro);
+    introRef.current?.settle(end.camera, end.pose);
+    setLayout(end.layout);
+  };
+
+  const handleLoaded = () => {
+    if (playIntro) intro.start();
+    else settle();
+  };
+
+  const replay = () => {
+    setLayout("fullscreen");
+    intro.start(revealTime(heroIntro));
+  };
+
+  useEffect(() => {
+    if (compact) sessionStorage.setItem("heroSeen", "1");
+  }, [compact]);
 
-  const handleWaveComplete = () => { 
-    setTimeout(() => { 
-      setCompact(true); 
-      setContentVisible(true); 
-      setFirstVisit(false); 
-      sessionStorage.setItem("heroSeen", "1"); 
-    }, SHRINK_DELAY_MS); 
-  }; 
   return (
     <div className="min-h-screen flex flex-col">
-      {showLoader && (
-        <div className="fixed inset-0 z-50 bg-white flex items-center justify-center">
-          <div className="text-lg font-semibold text-foreground">Loading experience…</div>
+      {layout === "loading" && (
+        <div className="fixed inset-0 z-50 bg-white flex items-center justify-center p-4">
+          <LoadProgressCard
+            label="Loading experience…"
+            progress={assetLoad.progress}
+            error={assetLoad.error}
+            onRetry={assetLoad.retry}
+            className="shadow-none border-none"
+          />
         </div>
       )}
       {/* Hero Section with Photo */}
@@ -225,7 +244,7 @@ export default function Home() {
               <motion.div  
                 className="w-full hero-frame"  
                 initial={ 
-                  firstVisit 
+                  !compact 
                     ? { scale: 1, width: "100%", height: "100vh", position: "fixed", top: 0, left: 0, zIndex: 40, opacity: 0, y: 12 } 
                     : { scale: 1, width: "100%", height: "48rem", position: "relative", top: 0, left: 0, zIndex: 1, marginTop: "-2rem", opacity: 1, y: 0 }
                 }
@@ -238,10 +257,44 @@ export default function Home() {
               > 
                 <FetchHeroViewer 
                   onLoaded={handleLoaded} 
-                  onStartReady={handleStartReady} 
-                  onWaveComplete={handleWaveComplete} 
-                  enableInteraction={!firstVisit ? true : compact} 
+                  onProgress={(progress, retry) => setAssetLoad((prev) => ({ ...prev, progress, retry }))}
+                  onStatus={(_loading, error) => setAssetLoad((prev) => ({ ...prev, error }))}
+                  introRef={introRef}
+                  enableInteraction={compact} 
                 /> 
+                {layout !== "loading" && showLoadStatus && (
+                  <div className="absolute inset-x-0 top-4 z-10 flex justify-center px-4">
+                    <LoadProgressCard
+                      label="Loading robot…"
+                      progress={assetLoad.progress}
+                      error={assetLoad.error}
+                      onRetry={assetLoad.retry}
+                    />
+                  </div>
+                )}
+                {!compact && (
+                  <div className="absolute inset-x-0 bottom-10 z-10 flex flex-col items-center gap-4 pointer-events-none">
+                    <AnimatePresence mode="wait">
+                      {intro.caption && (
+                        <motion.p
+                          key={intro.caption}
+                          className="px-4 text-2xl sm:text-3xl font-semibold text-foreground text-center"
+                          initial={{ opacity: 0, y: 8 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -8 }}
+                          transition={{ duration: 0.4, ease: "easeOut" }}
+                        >
+                          {intro.caption}
+                        </motion.p>
+                      )}
+                    </AnimatePresence>
+                    {intro.running && (
+                      <Button variant="outline" size="sm" className="pointer-events-auto bg-background/80" onClick={settle}>
+                        Skip intro
+                      </Button>
+                    )}
+                  </div>
+                )}
               </motion.div> 
             </motion.div> 
 
@@ -281,6 +334,11 @@ export default function Home() {
                       View My Work
                     </Button>
                   </Link>
+                  {!reducedMotion && (
+                    <Button variant="ghost" className="text-muted-foreground" onClick={replay}>
+                      Replay intro
+                    </Button>
+                  )}
                 </div>
               </motion.div>
             )}
@@ -0,0 +1,335 @@
+import { useEffect, useRef, useState } from "react";
+import PlannerFetchScene from "@/components/PlannerFetchScene";
+import PlannerGridCanvas, { type GridTool } from "@/components/PlannerGridCanvas";
+import {
+  PLANNER_LABELS,
+  createPlanner,
+  createPlanningGrid,
+  randomObstacles,
+  runPlanner,
+  type GridPoint,
+  type PlanResult,
+  type Planner,
+  type PlannerAlgorithm,
+  type PlanningGrid,
+} from "@/lib/planners";
+
+const GRID_WIDTH = 40;
+const GRID_HEIGHT = 28;
+// Metres per cell, for lengths and the 3D scene
+const CELL_SIZE = 0.25;
+const STEPS_PER_FRAME = [1, 5, 20, 100];
+const ALGORITHMS: PlannerAlgorithm[] = ["astar", "dijkstra", "rrt", "rrtstar"];
+const TOOLS: { tool: GridTool; label: string }[] = [
+  { tool: "wall", label: "Draw walls" },
+  { tool: "erase", label: "Erase" },
+  { tool: "start", label: "Move start" },
+  { tool: "goal", label: "Move goal" },
+];
+const NO_PATH: GridPoint[] = [];
+
+/** A wall with two gaps between start and goal, so the first run has something to plan around. */
+function initialGrid(): PlanningGrid {
+  const grid = createPlanningGrid(GRID_WIDTH, GRID_HEIGHT);
+  for (let y = 0; y < GRID_HEIGHT; y++) {
+    if ((y >= 4 && y < 7) || (y >= 20 && y < 23)) continue;
+    grid.blocked[y * GRID_WIDTH + 20] = 1;
+  }
+  for (let x = 8; x < 14; x++) grid.blocked[14 * GRID_WIDTH + x] = 1;
+  return grid;
+}
+
+const formatMetres = (cells: number) => `${(cells * CELL_SIZE).toFixed(2)} m`;
+
+/**
+ * Interactive planner demo for the path-planning publication: draw obstacles,
+ * place start and goal, and watch A*, Dijkstra, RRT or RRT* search the grid.
+ */
+export default function PathPlanner() {
+  const [grid, setGrid] = useState(initialGrid);
+  // Pointer moves can outpace renders; a drag paints onto its own latest edit
+  const gridRef = useRef(grid);
+  gridRef.current = grid;
+  const [start, setStart] = useState<GridPoint>({ x: 3, y: 13 });
+  const [goal, setGoal] = useState<GridPoint>({ x: 36, y: 13 });
+  const [tool, setTool] = useState<GridTool>("wall");
+  const [algorithm, setAlgorithm] = useState<PlannerAlgorithm>("astar");
+  const [planner, setPlanner] = useState<Planner | null>(null);
+  const [result, setResult] = useState<PlanResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [stepsPerFrame, setStepsPerFrame] = useState(5);
+  const [seed, setSeed] = useState(1);
+  const [comparison, setComparison] = useState<{ algorithm: PlannerAlgorithm; result: PlanResult }[]>([]);
+  const [showScene, setShowScene] = useState(false);
+  // Redraw counter; the planner mutates in place
+  const [frame, setFrame] = useState(0);
+
+  const stepsRef = useRef(stepsPerFrame);
+  stepsRef.current = stepsPerFrame;
+
+  const newPlanner = () => createPlanner(algorithm, grid, start, goal, { seed });
+
+  // Any edit invalidates the current search and comparison
+  const invalidate = () => {
+    setRunning(false);
+    setPlanner(null);
+    setResult(null);
+    setComparison([]);
+  };
+
+  useEffect(() => {
+    if (!running || !planner) return;
+    let raf = 0;
+    const tick = () => {
+      for (let i = 0; i < stepsRef.current && !planner.done; i++) planner.step();
+      setResult(planner.result());
+      setFrame((f) => f + 1);
+      if (planner.done) {
+        setRunning(false);
+        return;
+      }
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [running, planner]);
+
+  const run = () => {
+    const next = planner && !planner.done && planner.algorithm === algorithm ? planner : newPlanner();
+    setPlanner(next);
+    setRunning(true);
+  };
+
+  const step = () => {
+    setRunning(false);
+    const current = planner && planner.algorithm === algorithm ? planner : newPlanner();
+    current.step();
+    setPlanner(current);
+    setResult(current.result());
+    setFrame((f) => f + 1);
+  };
+
+  const finish = () => {
+    setRunning(false);
+    const current = planner && planner.algorithm === algorithm ? planner : newPlanner();
+    setPlanner(current);
+    setResult(runPlanner(current));
+    setFrame((f) => f + 1);
+  };
+
+  const compareAll = () => {
+    setComparison(ALGORITHMS.map((a) => ({ algorithm: a, result: runPlanner(createPlanner(a, grid, start, goal, { seed })) })));
+  };
+
+  const paint = (cell: GridPoint, blocked: boolean) => {
+    const current = gridRef.current;
+    const i = cell.y * current.width + cell.x;
+    if (!!current.blocked[i] === blocked) return;
+    if (blocked && ((cell.x === start.x && cell.y === start.y) || (cell.x === goal.x && cell.y === goal.y))) return;
+    const next = { ...current, blocked: current.blocked.slice() };
+    next.blocked[i] = blocked ? 1 : 0;
+    gridRef.current = next;
+    setGrid(next);
+    invalidate();
+  };
+
+  const place = (which: "start" | "goal", cell: GridPoint) => {
+    if (grid.blocked[cell.y * grid.width + cell.x]) return;
+    (which === "start" ? setStart : setGoal)(cell);
+    invalidate();
+  };
+
+  const drivePath = planner?.done && result?.found ? result.path : NO_PATH;
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded border border-border text-sm ${active ? "bg-foreground text-background" : "bg-white"}`;
+  const sampling = algorithm === "rrt" || algorithm === "rrtstar";
+
+  return (
+    <section className="section-padding">
+      <div className="space-y-6 max-w-none">
+        <div className="space-y-2">
+          <p className="text-sm uppercase tracking-wide text-muted-foreground">Publication demo</p>
+          <h1 className="text-3xl font-bold">Path Planner Playground</h1>
+          <p className="text-muted-foreground max-w-3xl">
+            Draw obstacles, move the start and goal, and step through grid search (A*, Dijkstra) and sampling-based
+            planning (RRT, RRT*). Everything runs in the browser; cells are {CELL_SIZE * 100} cm.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,640px)_1fr]">
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              {TOOLS.map(({ tool: t, label }) => (
+                <button key={t} className={chip(tool === t)} onClick={() => setTool(t)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            <PlannerGridCanvas
+              grid={grid}
+              start={start}
+              goal={goal}
+              planner={planner}
+              frame={frame}
+              tool={tool}
+              onPaint={paint}
+              onPlace={place}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                className={button}
+                onClick={() => {
+                  setGrid(createPlanningGrid(GRID_WIDTH, GRID_HEIGHT));
+                  invalidate();
+                }}
+              >
+                Clear walls
+              </button>
+              <button
+                className={button}
+                onClick={() => {
+                  const s = seed + 1;
+                  setSeed(s);
+                  setGrid(randomObstacles(GRID_WIDTH, GRID_HEIGHT, 0.25, s, [start, goal]));
+                  invalidate();
+                }}
+              >
+                Random obstacles
+              </button>
+              <span className="flex items-center gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded-full bg-green-600" /> start
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 rounded-full bg-red-600" /> goal
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 bg-amber-200" /> expanded
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="size-3 bg-blue-200" /> frontier
+                </span>
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="border border-border rounded-lg p-4 bg-card/50">
+              <h2 className="text-lg font-semibold mb-2">Planner</h2>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                {ALGORITHMS.map((a) => (
+                  <button
+                    key={a}
+                    className={chip(algorithm === a)}
+                    onClick={() => {
+                      setAlgorithm(a);
+                      setRunning(false);
+                      setPlanner(null);
+                      setResult(null);
+                    }}
+                  >
+                    {PLANNER_LABELS[a]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <button className={button} onClick={running ? () => setRunning(false) : run}>
+                  {running ? "Pause" : planner && !planner.done ? "Resume" : "Run"}
+                </button>
+                <button className={button} onClick={step} disabled={running || !!planner?.done}>
+                  Step
+                </button>
+                <button className={button} onClick={finish} disabled={!!planner?.done}>
+                  Finish
+                </button>
+                <button className={button} onClick={invalidate} disabled={!planner}>
+                  Reset
+                </button>
+                <label className="flex items-center gap-2">
+                  Speed
+                  <select
+                    value={stepsPerFrame}
+                    onChange={(e) => setStepsPerFrame(parseInt(e.target.value, 10))}
+                    className="px-2 py-1 rounded border border-border bg-white"
+                  >
+                    {STEPS_PER_FRAME.map((s) => (
+                      <option key={s} value={s}>
+                        {s} {sampling ? "sample" : "expansion"}
+                        {s === 1 ? "" : "s"} / frame
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {result && (
+                <dl className="mt-4 grid grid-cols-2 gap-x-6 gap-y-1 text-sm max-w-sm">
+                  <dt className="text-muted-foreground">Status</dt>
+                  <dd className={planner?.done && !result.found ? "text-red-700" : undefined}>
+                    {result.found ? (planner?.done ? "Path found" : "Improving…") : planner?.done ? "No path" : "Searching…"}
+                  </dd>
+                  <dt className="text-muted-foreground">Path length</dt>
+                  <dd className="tabular-nums">{result.found ? formatMetres(result.length) : "—"}</dd>
+                  <dt className="text-muted-foreground">{sampling ? "Tree nodes" : "Cells expanded"}</dt>
+                  <dd className="tabular-nums">{result.nodes.toLocaleString()}</dd>
+                  <dt className="text-muted-foreground">{sampling ? "Samples" : "Steps"}</dt>
+                  <dd className="tabular-nums">{result.iterations.toLocaleString()}</dd>
+                  <dt className="text-muted-foreground">Compute time</dt>
+                  <dd className="tabular-nums">{result.timeMs.toFixed(2)} ms</dd>
+                </dl>
+              )}
+              {sampling && (
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Sampling runs are seeded, so the same grid gives the same tree. RRT stops at the first path; RRT* keeps
+                  refining it for 3,000 samples.
+                </p>
+              )}
+            </div>
+
+            <div className="border border-border rounded-lg p-4 bg-card/50">
+              <h2 className="text-lg font-semibold mb-2">Compare</h2>
+              <p className="text-sm text-muted-foreground mb-3">Run all four planners to completion on the current grid.</p>
+              <button className={button} onClick={compareAll}>
+                Compare all
+              </button>
+              {comparison.length > 0 && (
+                <table className="mt-3 w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-medium py-1">Planner</th>
+                      <th className="font-medium py-1 text-right">Length</th>
+                      <th className="font-medium py-1 text-right">Nodes</th>
+                      <th className="font-medium py-1 text-right">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.map(({ algorithm: a, result: r }) => (
+                      <tr key={a} className="border-t border-border">
+                        <td className="py-1">{PLANNER_LABELS[a]}</td>
+                        <td className="py-1 text-right tabular-nums">{r.found ? formatMetres(r.length) : "no path"}</td>
+                        <td className="py-1 text-right tabular-nums">{r.nodes.toLocaleString()}</td>
+                        <td className="py-1 text-right tabular-nums">{r.timeMs.toFixed(2)} ms</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Drive Fetch</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Lay the grid out as a map and drive the Fetch base along the finished path.
+          </p>
+          <label className="flex items-center gap-2 text-sm mb-3">
+            <input type="checkbox" checked={showScene} onChange={(e) => setShowScene(e.target.checked)} />
+            Show 3D scene (loads the Fetch model)
+          </label>
+          {showScene && <PlannerFetchScene grid={grid} path={drivePath} cellSize={CELL_SIZE} />}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Canvas } from "@react-three/fiber";
+import { OrbitControls, Environment, ContactShadows } from "@react-three/drei";
+import JointSliderPanel from "@/components/JointSliderPanel";
+import UrdfRobot from "@/components/UrdfRobot";
+import { clipTime, sampleClip, type Clip } from "@/lib/clips";
+import { loadPoseLibrary } from "@/lib/poses";
+import {
+  getRobot,
+  groupJoints,
+  interactiveJointNames,
+  resolveRobotAssets,
+  robots,
+  type RobotManifest,
+} from "@/lib/robots";
+import {
+  clampJointValue,
+  jointUnit,
+  toDisplayUnit,
+  type JointValues,
+  type UrdfJointInfo,
+} from "@/lib/urdf";
+
+type Slot = "a" | "b";
+
+/** One viewport; every stage shares the robot template, so only the first one loads it. */
+function RobotStage({
+  robot,
+  pose,
+  label,
+  onJoints,
+}: {
+  robot: RobotManifest;
+  pose: JointValues;
+  label: string;
+  onJoints?: (joints: UrdfJointInfo[]) => void;
+}) {
+  const assets = useMemo(() => resolveRobotAssets(robot), [robot]);
+  const preset = robot.cameraPresets[0];
+  return (
+    <div className="relative h-[360px] rounded-lg border border-border overflow-hidden">
+      <span className="absolute left-3 top-2 z-10 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+        {label}
+      </span>
+      <Canvas shadows camera={{ position: preset?.position ?? [2.6, 1.4, 2.6], fov: 45, near: 0.01, far: 100 }}>
+        <color attach="background" args={["#ffffff"]} />
+        <ambientLight intensity={0.35} color={0xffffff} />
+        <directionalLight position={[6, 10, 6]} intensity={1.1} color={0xffffff} castShadow />
+        <directionalLight position={[-5, 5, -5]} intensity={0.5} color={0xffffff} />
+        <ContactShadows position={[0, -0.015, 0]} opacity={0.4} width={10} height={10} blur={2.5} far={10} />
+        <Environment preset="studio" background={false} blur={0.3} />
+        <UrdfRobot
+          url={assets.url}
+          packages={assets.packages}
+          format={assets.format}
+          upAxis={robot.upAxis}
+          pose={pose}
+          onLoad={(_robot, joints) => onJoints?.(joints)}
+        />
+        <OrbitControls
+          makeDefault
+          target={preset?.target ?? [0, 0.8, 0]}
+          enableDamping
+          dampingFactor={0.1}
+          maxPolarAngle={Math.PI * 0.48}
+        />
+      </Canvas>
+    </div>
+  );
+}
+
+const formatDelta = (info: UrdfJointInfo, value: number) => {
+  const unit = jointUnit(info, "deg");
+  const shown = unit === "m" ? value * 1000 : toDisplayUnit(info, value, "deg");
+  return `${shown.toFixed(1)} ${unit === "m" ? "mm" : "°"}`;
+};
+
+/**
+ * Pose-authoring workbench: pick any registered robot, edit two poses,
+ * compare them joint by joint, and preview the motion between them.
+ */
+export default function PoseLab() {
+  const [robotId, setRobotId] = useState(robots[0].id);
+  const robot = getRobot(robotId) ?? robots[0];
+
+  const [joints, setJoints] = useState<UrdfJointInfo[]>([]);
+  const [poses, setPoses] = useState<Record<Slot, JointValues>>({ a: {}, b: {} });
+  const [editing, setEditing] = useState<Slot>("a");
+  const [duration, setDuration] = useState(2);
+  const [playhead, setPlayhead] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [saved, setSaved] = useState(() => loadPoseLibrary(robotId));
+
+  // Fresh poses when switching robots
+  useEffect(() => {
+    setJoints([]);
+    setPoses({ a: { ...robot.defaultPose }, b: { ...robot.defaultPose } });
+    setPlaying(false);
+    setPlayhead(0);
+    setSaved(loadPoseLibrary(robot.id));
+  }, [robot]);
+
+  const controlled = interactiveJointNames(
+    robot,
+    joints.map((j) => j.name)
+  );
+  const infoByName = useMemo(() => new Map(joints.map((j) => [j.name, j])), [joints]);
+
+  const pose = (slot: Slot): JointValues => {
+    const out: JointValues = {};
+    controlled.forEach((n) => {
+      const info = infoByName.get(n);
+      if (info) out[n] = clampJointValue(info, poses[slot][n] ?? 0);
+    });
+    return out;
+  };
+  const poseA = pose("a");
+  const poseB = pose("b");
+
+  // A -> B -> A, eased at both ends, so looping reads as a back-and-forth
+  const transition: Clip = useMemo(
+    () => ({
+      name: "pose-lab",
+      loop: true,
+      interpolation: "linear",
+      frames: [
+        { time: 0, joints: poseA, easing: "cubicInOut" },
+        { time: duration, joints: poseB, easing: "cubicInOut" },
+        { time: 2 * duration, joints: poseA },
+      ],
+    }),
+    // Pose objects are rebuilt every render; compare by content
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [JSON.stringify(poseA), JSON.stringify(poseB), duration]
+  );
+  const transitionPose = sampleClip(transition, playhead);
+
+  const clipRef = useRef(transition);
+  clipRef.current = transition;
+
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    const start = performance.now() - playhead * 1000;
+    const tick = (now: number) => {
+      setPlayhead(clipTime(clipRef.current, (now - start) / 1000));
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+    // Resume from the current playhead only when (re)starting
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playing]);
+
+  const setSlot = (slot: Slot, values: JointValues) =>
+    setPoses((prev) => ({ ...prev, [slot]: { ...prev[slot], ...values } }));
+
+  const deltas = controlled
+    .map((n) => ({ name: n, info: infoByName.get(n)!, a: poseA[n] ?? 0, b: poseB[n] ?? 0 }))
+    .filter((row) => row.info);
+  const largest = deltas.reduce((max, row) => Math.max(max, Math.abs(row.b - row.a)), 0);
+
+  const button = "px-3 py-2 rounded bg-white shadow text-sm border border-border disabled:opacity-50";
+  const slotLabel = (slot: Slot) => (slot === "a" ? "Pose A" : "Pose B");
+
+  return (
+    <section className="section-padding">
+      <div className="space-y-6 max-w-none">
+        <div className="space-y-2">
+          <p className="text-sm uppercase tracking-wide text-muted-foreground">Workbench</p>
+          <h1 className="text-3xl font-bold">Pose Lab</h1>
+          <p className="text-muted-foreground max-w-3xl">
+            Author two poses for any robot in the registry, compare them joint by joint, and preview the motion
+            between them.
+          </p>
+          <label className="flex items-center gap-2 text-sm pt-1">
+            Robot
+            <select
+              value={robot.id}
+              onChange={(e) => setRobotId(e.target.value)}
+              className="px-2 py-1 rounded border border-border bg-white"
+            >
+              {robots.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <RobotStage key={`${robot.id}-a`} robot={robot} pose={poseA} label="Pose A" onJoints={setJoints} />
+          <RobotStage key={`${robot.id}-b`} robot={robot} pose={poseB} label="Pose B" />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="border border-border rounded-lg p-4 bg-card/50">
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <h2 className="text-lg font-semibold mr-2">Edit</h2>
+              {(["a", "b"] as Slot[]).map((slot) => (
+                <button
+                  key={slot}
+                  className={`px-3 py-1 rounded border border-border text-sm ${
+                    editing === slot ? "bg-foreground text-background" : "bg-white"
+                  }`}
+                  onClick={() => setEditing(slot)}
+                >
+                  {slotLabel(slot)}
+                </button>
+              ))}
+              <span className="flex-1" />
+              {saved.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const found = saved.find((p) => p.name === e.target.value);
+                    if (found) setSlot(editing, found.joints);
+                  }}
+                  className="px-2 py-1 rounded border border-border bg-white text-sm"
+                >
+                  <option value="">Load saved pose…</option>
+                  {saved.map((p) => (
+                    <option key={p.name} value={p.name}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {controlled.length === 0 && <p className="text-sm text-muted-foreground">Loading joints…</p>}
+            <JointSliderPanel
+              joints={joints}
+              groups={groupJoints(robot.jointGroups, controlled)}
+              values={editing === "a" ? poseA : poseB}
+              onChange={(name, value) => setSlot(editing, { [name]: value })}
+            />
+            {controlled.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                <button className={button} onClick={() => setPoses({ a: poseB, b: poseA })}>
+                  Swap A ↔ B
+                </button>
+                <button
+                  className={button}
+                  onClick={() => setSlot(editing === "a" ? "b" : "a", editing === "a" ? poseA : poseB)}
+                >
+                  Copy {slotLabel(editing)} to {slotLabel(editing === "a" ? "b" : "a")}
+                </button>
+                <button className={button} onClick={() => setPoses((prev) => ({ ...prev, [editing]: { ...robot.defaultPose } }))}>
+                  Reset {slotLabel(editing)}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="border border-border rounded-lg p-4 bg-card/50">
+            <h2 className="text-lg font-semibold mb-2">Per-joint delta</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm tabular-nums">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="px-2 py-1 text-left">Joint</th>
+                    <th className="px-2 py-1 text-right">A</th>
+                    <th className="px-2 py-1 text-right">B</th>
+                    <th className="px-2 py-1 text-right">Δ (B − A)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deltas.map((row) => {
+                    const delta = row.b - row.a;
+                    const isLargest = largest > 0 && Math.abs(delta) === largest;
+                    return (
+                      <tr key={row.name} className={`border-t border-border ${isLargest ? "font-semibold" : ""}`}>
+                        <td className="px-2 py-1">{row.name}</td>
+                        <td className="px-2 py-1 text-right">{formatDelta(row.info, row.a)}</td>
+                        <td className="px-2 py-1 text-right">{formatDelta(row.info, row.b)}</td>
+                        <td className={`px-2 py-1 text-right ${delta === 0 ? "text-muted-foreground" : ""}`}>
+                          {delta > 0 ? "+" : ""}
+                          {formatDelta(row.info, delta)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50 space-y-3">
+          <h2 className="text-lg font-semibold">Transition</h2>
+          <RobotStage key={`${robot.id}-transition`} robot={robot} pose={transitionPose} label="A → B → A" />
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <button className={button} onClick={() => setPlaying((p) => !p)} disabled={controlled.length === 0}>
+              {playing ? "Pause" : "Play"}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={2 * duration}
+              step={0.01}
+              value={playhead}
+              onChange={(e) => {
+                setPlaying(false);
+                setPlayhead(parseFloat(e.target.value));
+              }}
+              className="flex-1 min-w-[160px]"
+            />
+            <span className="tabular-nums w-16">{playhead.toFixed(2)} s</span>
+            <label className="flex items-center gap-2">
+              A → B duration (s)
+              <input
+                type="number"
+                min={0.2}
+                step={0.1}
+                value={duration}
+                onChange={(e) => {
+                  const next = Math.max(0.2, parseFloat(e.target.value) || 0.2);
+                  setDuration(next);
+                  setPlayhead((t) => Math.min(t, 2 * next));
+                }}
+                className="w-20 px-2 py-1 rounded border border-border bg-white"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
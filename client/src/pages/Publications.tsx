@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from "react";
+import { Link } from "wouter";
 
 interface MediaItem {
   type: "image" | "video" | "gif";
@@ -18,6 +19,8 @@ interface Publication {
     pdf: string | null;
     arxiv: string | null;
     code: string | null;
+    /** In-site route to an interactive demo */
+    demo?: string;
   };
 }
 
@@ -217,6 +220,7 @@ export default function Publications() {
         pdf: "#",
         arxiv: "#",
         code: "#",
+        demo: "/planner",
       },
     },
     {
@@ -386,6 +390,14 @@ export default function Publications() {
                         Code
                       </a>
                     )}
+                    {pub.links.demo && (
+                      <Link
+                        href={pub.links.demo}
+                        className="text-sm text-foreground underline hover:text-muted-foreground transition-colors"
+                      >
+                        Interactive demo
+                      </Link>
+                    )}
                     {!pub.links.pdf && !pub.links.arxiv && !pub.links.code && (
                       <span className="text-sm text-muted-foreground italic">
                         Links coming soon
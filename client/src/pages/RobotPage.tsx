@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "wouter";
+import { Canvas, useThree } from "@react-three/fiber";
+import { OrbitControls, Environment, ContactShadows } from "@react-three/drei";
+import type { OrbitControls as OrbitControlsImpl } from "three-stdlib";
+import type { URDFRobot } from "urdf-loader";
+import CameraBookmarkBar from "@/components/CameraBookmarkBar";
+import CameraRig from "@/components/CameraRig";
+import JointSliderPanel from "@/components/JointSliderPanel";
+import LoadProgressCard from "@/components/LoadProgressCard";
+import MjcfInfoPanel from "@/components/MjcfInfoPanel";
+import MjcfSimulationDriver from "@/components/MjcfSimulationDriver";
+import SceneExportPanel, { SceneExportBridge } from "@/components/SceneExportPanel";
+import TrajectoryPanel from "@/components/TrajectoryPanel";
+import UrdfRobot from "@/components/UrdfRobot";
+import NotFound from "@/pages/NotFound";
+import type { CameraController } from "@/lib/cameraController";
+import { linkNames } from "@/lib/kinematics";
+import {
+  getRobot,
+  groupJoints,
+  interactiveJointNames,
+  resolveRobotAssets,
+  robotBookmarks,
+  robots,
+  type CameraPreset,
+} from "@/lib/robots";
+import { EMPTY_PROGRESS, type LoadProgress } from "@/lib/loadProgress";
+import { MjcfRobotObject, type MjcfModel } from "@/lib/mjcf";
+import type { SceneHandle } from "@/lib/sceneExport";
+import { readJointValues, type JointValues, type UrdfJointInfo } from "@/lib/urdf";
+
+/** Moves the default camera + orbit target to the preset when it changes (i.e. per robot). */
+function ApplyCameraPreset({ preset }: { preset: CameraPreset | undefined }) {
+  const camera = useThree((s) => s.camera);
+  const controls = useThree((s) => s.controls) as OrbitControlsImpl | null;
+
+  useEffect(() => {
+    if (!preset) return;
+    camera.position.set(...preset.position);
+    camera.lookAt(...preset.target);
+    if (controls) {
+      controls.target.set(...preset.target);
+      controls.update();
+    }
+  }, [preset, camera, controls]);
+
+  return null;
+}
+
+export default function RobotPage() {
+  const { id = "" } = useParams<{ id: string }>();
+  const robot = getRobot(id);
+
+  const assets = useMemo(() => (robot ? resolveRobotAssets(robot) : null), [robot]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [assetLoad, setAssetLoad] = useState<{ progress: LoadProgress; retry?: () => void }>({ progress: EMPTY_PROGRESS });
+  const [joints, setJoints] = useState<UrdfJointInfo[]>([]);
+  const [jointValues, setJointValues] = useState<JointValues>({});
+  const [loadedRobot, setLoadedRobot] = useState<URDFRobot | null>(null);
+  // Set for robots loaded from MJCF, which can also be simulated
+  const [mjcf, setMjcf] = useState<{ robot: URDFRobot; model: MjcfModel } | null>(null);
+  const [simulate, setSimulate] = useState(false);
+  const [motorsEnabled, setMotorsEnabled] = useState(true);
+  const sceneRef = useRef<SceneHandle | null>(null);
+  const cameraRef = useRef<CameraController | null>(null);
+  const bookmarks = useMemo(() => (robot ? robotBookmarks(robot) : []), [robot]);
+
+  // Fresh state when navigating between robots
+  useEffect(() => {
+    setJoints([]);
+    setMjcf(null);
+    setSimulate(false);
+    setJointValues(robot ? { ...robot.defaultPose } : {});
+    setLoadedRobot(null);
+  }, [robot]);
+
+  if (!robot || !assets) return <NotFound />;
+
+  const controlled = interactiveJointNames(
+    robot,
+    joints.map((j) => j.name)
+  );
+  const preset = robot.cameraPresets[0];
+
+  return (
+    <section className="section-padding">
+      <div className="space-y-6 max-w-none">
+        <div className="space-y-2">
+          <p className="text-sm uppercase tracking-wide text-muted-foreground">Robot Registry</p>
+          <h1 className="text-3xl font-bold">{robot.name}</h1>
+          <p className="text-muted-foreground max-w-3xl">{robot.description}</p>
+          <div className="flex flex-wrap gap-2 pt-1">
+            {robots.map((r) => (
+              <Link
+                key={r.id}
+                href={`/robots/${r.id}`}
+                className={`px-3 py-1 rounded border border-border text-sm no-underline ${
+                  r.id === robot.id ? "bg-foreground text-background" : "bg-white"
+                }`}
+              >
+                {r.name}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        <div className="relative w-full h-[540px]">
+          {(loading || error) && (
+            <div className="absolute inset-0 bg-black/25 flex items-center justify-center z-10">
+              <LoadProgressCard label={`Loading ${robot.name} ${assets.format.toUpperCase()}…`} progress={assetLoad.progress} error={error} onRetry={assetLoad.retry} />
+            </div>
+          )}
+          {!loading && !error && assetLoad.progress.failed.length > 0 && (
+            <div className="absolute top-3 left-3 z-10">
+              <LoadProgressCard label={`Loading ${robot.name} ${assets.format.toUpperCase()}…`} progress={assetLoad.progress} onRetry={assetLoad.retry} />
+            </div>
+          )}
+          <Canvas shadows camera={{ position: preset?.position ?? [2.6, 1.4, 2.6], fov: 45, near: 0.01, far: 100 }}>
+            <color attach="background" args={["#ffffff"]} />
+            <ambientLight intensity={0.35} color={0xffffff} />
+            <directionalLight position={[6, 10, 6]} intensity={1.1} color={0xffffff} castShadow shadow-mapSize={[2048, 2048] as any} />
+            <directionalLight position={[-5, 5, -5]} intensity={0.5} color={0xffffff} />
+            <ContactShadows position={[0, -0.015, 0]} opacity={0.4} width={10} height={10} blur={2.5} far={10} />
+            <Environment preset="studio" background={false} blur={0.3} />
+            <UrdfRobot
+              key={robot.id}
+              url={assets.url}
+              packages={assets.packages}
+              format={assets.format}
+              upAxis={robot.upAxis}
+              // While simulating, sliders are actuator targets and the simulation owns the pose
+              pose={simulate ? undefined : jointValues}
+              onStatus={(loadingState, err) => {
+                setLoading(loadingState);
+                setError(err);
+              }}
+              onProgress={(progress, retry) => setAssetLoad({ progress, retry })}
+              onLoad={(loaded, detected) => {
+                setLoadedRobot(loaded);
+                setJoints(detected);
+                const model = loaded instanceof MjcfRobotObject ? loaded.model : null;
+                setMjcf(model ? { robot: loaded, model } : null);
+              }}
+            />
+            {simulate && mjcf && (
+              <MjcfSimulationDriver
+                model={mjcf.model}
+                robot={mjcf.robot}
+                targets={jointValues}
+                motorsEnabled={motorsEnabled}
+              />
+            )}
+            <OrbitControls makeDefault enableDamping dampingFactor={0.1} maxPolarAngle={Math.PI * 0.48} enablePan />
+            <ApplyCameraPreset preset={preset} />
+            <CameraRig controllerRef={cameraRef} subject={loadedRobot} />
+            <SceneExportBridge handleRef={sceneRef} />
+          </Canvas>
+        </div>
+
+        <CameraBookmarkBar
+          key={robot.id}
+          controllerRef={cameraRef}
+          bookmarks={bookmarks}
+          links={loadedRobot ? linkNames(loadedRobot) : undefined}
+        />
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Joints</h2>
+          {mjcf && (
+            <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={simulate}
+                  onChange={(e) => {
+                    // Sliders become actuator targets: start them at the pose on screen
+                    if (e.target.checked) setJointValues((prev) => ({ ...readJointValues(mjcf.robot), ...prev }));
+                    setSimulate(e.target.checked);
+                  }}
+                />
+                Simulate
+              </label>
+              <label className={`flex items-center gap-2 ${simulate ? "" : "opacity-50"}`}>
+                <input
+                  type="checkbox"
+                  checked={motorsEnabled}
+                  disabled={!simulate}
+                  onChange={(e) => setMotorsEnabled(e.target.checked)}
+                />
+                Motors on
+              </label>
+              <span className="text-muted-foreground">
+                {simulate
+                  ? motorsEnabled
+                    ? "Sliders set position-actuator targets; the arm tracks them under gravity."
+                    : "Motors off: the arm hangs under gravity, damping and joint friction."
+                  : "Sliders pose the joints directly."}
+              </span>
+            </div>
+          )}
+          {controlled.length === 0 && <p className="text-sm text-muted-foreground">Loading joints…</p>}
+          <JointSliderPanel
+            joints={joints}
+            groups={groupJoints(robot.jointGroups, controlled)}
+            values={jointValues}
+            onChange={(name, value) => setJointValues((prev) => ({ ...prev, [name]: value }))}
+          />
+          {controlled.length > 0 && (
+            <div className="mt-3 flex gap-2">
+              <button
+                className="px-3 py-2 rounded bg-white shadow text-sm border border-border"
+                onClick={() => {
+                  const next: JointValues = {};
+                  controlled.forEach((n) => (next[n] = robot.defaultPose[n] ?? 0));
+                  setJointValues(next);
+                }}
+              >
+                Reset to default pose
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Export</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Save the current view as a high-resolution still or record a turntable as WebM.
+          </p>
+          <SceneExportPanel handleRef={sceneRef} fileName={robot.id} />
+        </div>
+
+        <div className="border border-border rounded-lg p-4 bg-card/50">
+          <h2 className="text-lg font-semibold mb-2">Recorded Trajectory</h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Replay a joint-state log from a real run; while simulating, the log drives the actuator targets.
+          </p>
+          <TrajectoryPanel
+            key={robot.id}
+            joints={joints}
+            onPose={(values) => setJointValues((prev) => ({ ...prev, ...values }))}
+          />
+        </div>
+
+        {mjcf && (
+          <div className="border border-border rounded-lg p-4 bg-card/50">
+            <h2 className="text-lg font-semibold mb-2">MuJoCo model: {mjcf.model.name}</h2>
+            <MjcfInfoPanel model={mjcf.model} />
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
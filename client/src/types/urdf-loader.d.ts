@@ -4,18 +4,26 @@ declare module "urdf-loader" {
   export type URDFJointType = "revolute" | "continuous" | "prismatic" | "fixed" | string;
 
   export interface URDFJoint extends THREE.Object3D {
+    isURDFJoint: true;
     name: string;
     type: URDFJointType;
+    jointType: URDFJointType;
+    axis: THREE.Vector3;
     limit?: {
       lower?: number;
       upper?: number;
     };
+    ignoreLimits?: boolean;
     setJointValue(value: number): void;
-    jointValue?: number;
+    jointValue?: number | number[];
   }
 
-  export class URDFRobot extends THREE.Group {
+  export class URDFRobot extends THREE.Object3D {
     joints: Record<string, URDFJoint>;
+    links: Record<string, THREE.Object3D>;
+    frames: Record<string, THREE.Object3D>;
+    colliders: Record<string, THREE.Object3D>;
+    visual: Record<string, THREE.Object3D>;
     setJointValue(name: string, value: number): void;
   }
 
@@ -24,6 +32,8 @@ declare module "urdf-loader" {
     workingPath: string;
     packages: Record<string, string> | ((pkg: string) => string);
     fetchOptions: RequestInit;
+    parseVisual: boolean;
+    parseCollision: boolean;
     load(
       url: string,
       onLoad: (robot: URDFRobot) => void,
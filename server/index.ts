@@ -2,6 +2,7 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { attachMockRosbridge } from "./mockRosbridge";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,6 +19,15 @@ async function startServer() {
 
   app.use(express.static(staticPath));
 
+  // MOCK_ROSBRIDGE=1 (or a path to a .jsonl log) serves a replaying rosbridge at ws://host/rosbridge
+  const mockLog = process.env.MOCK_ROSBRIDGE;
+  if (mockLog) {
+    const log = ["1", "true"].includes(mockLog)
+      ? path.resolve(process.cwd(), "server", "fixtures", "fetch_joint_states.jsonl")
+      : path.resolve(process.cwd(), mockLog);
+    attachMockRosbridge(server, { path: "/rosbridge", log });
+  }
+
   // Handle client-side routing - serve index.html for all routes
   app.get("*", (_req, res) => {
     res.sendFile(path.join(staticPath, "index.html"));
@@ -0,0 +1,151 @@
+import fs from "fs";
+import type { Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { z } from "zod";
+
+/** One recorded message: seconds from the start of the log, topic, payload. */
+const logEntrySchema = z.object({
+  time: z.number(),
+  topic: z.string(),
+  type: z.string().optional(),
+  msg: z.record(z.string(), z.unknown()),
+});
+
+type LogEntry = z.infer<typeof logEntrySchema>;
+
+// Fields of a client request the mock looks at; ops are checked in the switch
+const requestSchema = z.object({
+  op: z.string(),
+  id: z.string().optional(),
+  topic: z.string().optional(),
+  service: z.string().optional(),
+});
+
+// Message types for topics the log does not annotate
+const DEFAULT_TYPES: Record<string, string> = {
+  "/joint_states": "sensor_msgs/JointState",
+  "/tf": "tf2_msgs/TFMessage",
+  "/tf_static": "tf2_msgs/TFMessage",
+};
+
+/** Parse a JSON Lines log; entries are sorted by time and blank lines skipped. */
+export function readRosbridgeLog(file: string): LogEntry[] {
+  const entries = fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line, i) => ({ line, i }))
+    .filter(({ line }) => line.trim())
+    .map(({ line, i }) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(line);
+      } catch (err) {
+        throw new Error(`${file}:${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      const entry = logEntrySchema.safeParse(data);
+      if (!entry.success) throw new Error(`${file}:${i + 1}: expected { time, topic, msg }`);
+      return entry.data;
+    });
+  if (!entries.length) throw new Error(`${file}: log is empty`);
+  return entries.sort((a, b) => a.time - b.time);
+}
+
+/** Rewrite header stamps to "now" so clients see a live stream. */
+function restamp(value: unknown, sec: number, nanosec: number): unknown {
+  if (Array.isArray(value)) return value.map((v) => restamp(v, sec, nanosec));
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, v]) => {
+    out[key] = key === "stamp" ? { sec, nanosec } : restamp(v, sec, nanosec);
+  });
+  return out;
+}
+
+/**
+ * Minimal rosbridge v2 endpoint that replays a recorded log in a loop:
+ * supports subscribe/unsubscribe and the /rosapi/topics service, which is
+ * all the live-mirror viewer needs. Each connection gets its own clock.
+ */
+export function attachMockRosbridge(server: Server, options: { path: string; log: string }) {
+  const entries = readRosbridgeLog(options.log);
+  const duration = entries[entries.length - 1].time + 0.05;
+  const topicTypes = new Map<string, string>();
+  entries.forEach((e) => topicTypes.set(e.topic, e.type ?? DEFAULT_TYPES[e.topic] ?? ""));
+
+  const wss = new WebSocketServer({ server, path: options.path });
+
+  wss.on("connection", (socket: WebSocket) => {
+    const subscriptions = new Set<string>();
+    const start = Date.now();
+    let cursor = 0;
+    let lap = 0;
+
+    const send = (data: Record<string, unknown>) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(data));
+    };
+
+    // Emit every entry whose time has passed since the last tick
+    const timer = setInterval(() => {
+      const elapsed = (Date.now() - start) / 1000;
+      while (lap * duration + entries[cursor].time <= elapsed) {
+        const entry = entries[cursor];
+        if (subscriptions.has(entry.topic)) {
+          const now = Date.now();
+          const msg = restamp(entry.msg, Math.floor(now / 1000), (now % 1000) * 1e6);
+          send({ op: "publish", topic: entry.topic, msg });
+        }
+        cursor++;
+        if (cursor === entries.length) {
+          cursor = 0;
+          lap++;
+        }
+      }
+    }, 10);
+
+    socket.on("message", (raw) => {
+      let json: unknown;
+      try {
+        json = JSON.parse(raw.toString());
+      } catch {
+        send({ op: "status", level: "error", msg: "Message is not valid JSON" });
+        return;
+      }
+      const parsed = requestSchema.safeParse(json);
+      if (!parsed.success) {
+        send({ op: "status", level: "error", msg: "Message is not a rosbridge request" });
+        return;
+      }
+      const request = parsed.data;
+      switch (request.op) {
+        case "subscribe":
+          if (!request.topic || !topicTypes.has(request.topic)) {
+            send({ op: "status", level: "warning", id: request.id, msg: `Topic ${request.topic} is not in the log` });
+          }
+          if (request.topic) subscriptions.add(request.topic);
+          break;
+        case "unsubscribe":
+          if (request.topic) subscriptions.delete(request.topic);
+          break;
+        case "call_service":
+          if (request.service === "/rosapi/topics") {
+            send({
+              op: "service_response",
+              id: request.id,
+              service: request.service,
+              result: true,
+              values: { topics: Array.from(topicTypes.keys()), types: Array.from(topicTypes.values()) },
+            });
+          } else {
+            send({ op: "service_response", id: request.id, service: request.service, result: false, values: "Unknown service" });
+          }
+          break;
+        default:
+          send({ op: "status", level: "warning", id: request.id, msg: `Unsupported op "${request.op}" in mock rosbridge` });
+      }
+    });
+
+    socket.on("close", () => clearInterval(timer));
+  });
+
+  return wss;
+}